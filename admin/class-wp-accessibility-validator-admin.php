@@ -51,6 +51,104 @@ class WP_Accessibility_Validator_Admin
 	 */
 	private static $force_block_ids = false;
 
+	/**
+	 * Hook suffix of the bulk scan dashboard page.
+	 *
+	 * @var string|false
+	 */
+	private $bulk_scan_hook = false;
+
+	/**
+	 * Number of posts using each synced pattern, cached for the current request.
+	 *
+	 * @var array<int, int>
+	 */
+	private $pattern_usage = array();
+
+	/**
+	 * Post meta key holding dismissed violation instances.
+	 *
+	 * @var string
+	 */
+	const DISMISSALS_META_KEY = '_wpav_dismissals';
+
+	/**
+	 * Post meta key holding manual review decisions.
+	 *
+	 * @var string
+	 */
+	const REVIEW_DECISIONS_META_KEY = '_wpav_review_decisions';
+
+	/**
+	 * Post meta key holding the scan history.
+	 *
+	 * @var string
+	 */
+	const SCAN_HISTORY_META_KEY = '_wpav_scan_history';
+
+	/**
+	 * Default number of scan runs kept per post.
+	 *
+	 * @var int
+	 */
+	const SCAN_HISTORY_LIMIT = 10;
+
+	/**
+	 * Maximum number of results kept per stored scan run.
+	 *
+	 * @var int
+	 */
+	const SCAN_MAX_VIOLATIONS = 500;
+
+	/**
+	 * Maximum number of affected nodes kept per stored result.
+	 *
+	 * @var int
+	 */
+	const SCAN_MAX_NODES = 50;
+
+	/**
+	 * Maximum length of the HTML snippet kept per affected node.
+	 *
+	 * @var int
+	 */
+	const SCAN_MAX_NODE_HTML_LENGTH = 1000;
+
+	/**
+	 * Post meta key holding publish gate overrides.
+	 *
+	 * @var string
+	 */
+	const PUBLISH_OVERRIDES_META_KEY = '_wpav_publish_overrides';
+
+	/**
+	 * User meta key holding the live mode preference.
+	 *
+	 * @var string
+	 */
+	const LIVE_SCAN_META_KEY = 'wpav_live_scan';
+
+	/**
+	 * Option holding the version of the cached pattern usage counts.
+	 *
+	 * @since 2.2.0
+	 */
+	const PATTERN_USAGE_VERSION_OPTION = 'wpav_pattern_usage_version';
+
+	/**
+	 * Viewport width scans run at when none are configured.
+	 *
+	 * @since 2.2.0
+	 */
+	const DEFAULT_SCAN_VIEWPORT = 1200;
+
+	/**
+	 * Maximum number of viewports a scan runs at.
+	 *
+	 * @since 2.2.0
+	 */
+	const MAX_SCAN_VIEWPORTS = 6;
+
 	/**
 	 * Initialize the class and set its properties.
 	 *
@@ -64,10 +162,15 @@ class WP_Accessibility_Validator_Admin
 
 		add_action('enqueue_block_editor_assets', array($this, 'enqueue_scripts'));
 		add_action('admin_menu', array($this, 'register_settings_page'));
+		add_action('admin_menu', array($this, 'register_bulk_scan_page'));
+		add_action('admin_enqueue_scripts', array($this, 'enqueue_bulk_scan_scripts'));
 		add_action('admin_init', array($this, 'register_settings'));
 		add_filter('block_editor_settings_all', array($this, 'inject_editor_styles'));
 		add_filter('render_block', array($this, 'add_block_stable_id'), 10, 2);
 		add_action('rest_api_init', array($this, 'register_rest_routes'));
+		add_action('init', array($this, 'register_user_meta'));
+		add_action('save_post', array($this, 'flush_pattern_usage'));
+		add_action('deleted_post', array($this, 'flush_pattern_usage'));
 	}
 
 	/**
@@ -87,6 +190,113 @@ class WP_Accessibility_Validator_Admin
 			true
 		);
 
+		$screen    = function_exists('get_current_screen') ? get_current_screen() : null;
+		$post_type = $screen && $screen->post_type ? $screen->post_type : get_post_type();
+
+		wp_localize_script(
+			$this->plugin_name,
+			'wpavSettings',
+			array_merge(
+				$this->get_scan_settings($post_type),
+				array(
+					'publishGate'      => $this->get_publish_gate_settings_for_editor(),
+					'liveScan'         => (bool) get_user_meta(get_current_user_id(), self::LIVE_SCAN_META_KEY, true),
+					'themePrintsTitle' => $this->theme_prints_title($post_type),
+				)
+			)
+		);
+
+		wp_enqueue_style(
+			$this->plugin_name . '-editor',
+			plugin_dir_url(__FILE__) . '../build/style-index.css',
+			array('wp-edit-blocks'),
+			$asset_file['version']
+		);
+
+		/**
+		 * Fires after the scanner script is enqueued in the block editor.
+		 *
+		 * Themes and plugins can enqueue scripts that depend on `$handle` and
+		 * register custom axe rules with `wpav.registerA11yRule()`.
+		 *
+		 * @since 2.2.0
+		 *
+		 * @param string $handle The scanner script handle.
+		 */
+		do_action('wpav_enqueue_scan_assets', $this->plugin_name);
+	}
+
+	/**
+	 * Register per-user preferences so the editor can save them over REST.
+	 *
+	 * @since 2.2.0
+	 */
+	public function register_user_meta()
+	{
+		register_meta(
+			'user',
+			self::LIVE_SCAN_META_KEY,
+			array(
+				'type'          => 'boolean',
+				'single'        => true,
+				'default'       => false,
+				'show_in_rest'  => true,
+				'auth_callback' => function ($allowed, $meta_key, $object_id) {
+					return current_user_can('edit_user', $object_id);
+				},
+			)
+		);
+	}
+
+	/**
+	 * Whether the theme prints the post title as a heading above the content.
+	 *
+	 * Classic themes are assumed to print it. For block themes the single
+	 * (or page) template is checked for a Post Title block.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param string|null $post_type Post type being edited.
+	 *
+	 * @return bool
+	 */
+	private function theme_prints_title($post_type)
+	{
+		$prints_title = true;
+
+		if (function_exists('wp_is_block_theme') && wp_is_block_theme()) {
+			$slug     = 'page' === $post_type ? 'page' : 'single';
+			$template = get_block_template(get_stylesheet() . '//' . $slug, 'wp_template');
+
+			if ($template && is_string($template->content)) {
+				$prints_title = false !== strpos($template->content, '<!-- wp:post-title');
+			}
+		}
+
+		/**
+		 * Filters whether the theme prints the post title above the content.
+		 *
+		 * Used by the editorial checks to flag an H1 inside the content.
+		 *
+		 * @since 2.2.0
+		 *
+		 * @param bool        $prints_title Whether the title is printed.
+		 * @param string|null $post_type    Post type being edited.
+		 */
+		return (bool) apply_filters('wpav_theme_prints_title', $prints_title, $post_type);
+	}
+
+	/**
+	 * Settings needed by the scanner wherever it runs.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param string|null $post_type Post type being scanned, used to resolve the scan profile.
+	 *
+	 * @return array
+	 */
+	private function get_scan_settings($post_type = null)
+	{
 		// Gather theme / global styles for use in the iframe.
 		$global_styles_css = '';
 		if (function_exists('wp_get_global_stylesheet')) {
@@ -98,27 +308,94 @@ class WP_Accessibility_Validator_Admin
 
 		$theme_stylesheet_url = get_stylesheet_uri();
 
-		wp_localize_script(
-			$this->plugin_name,
-			'wpavSettings',
+		// axe-core is copied into the build directory so scans work offline and behind a strict CSP.
+		$axe_script_url = plugin_dir_url(__FILE__) . '../build/vendor/axe.min.js';
+
+		return array_merge(
 			array(
-				'wcagTags'          => $this->get_selected_wcag_tags(),
 				'availableWcagTags' => $this->wcag_options,
 				'defaultWcagTags'   => array_keys($this->wcag_options),
 				// 🔽 New: front-end style info for the iframe.
 				'themeStylesheetUrl' => $theme_stylesheet_url,
 				'globalStylesCss'    => $global_styles_css,
-			)
+				'axeScriptUrl'       => $axe_script_url,
+				'viewports'          => $this->get_scan_viewports(),
+				'scanVariants'       => $this->get_scan_variants(),
+				'scanRenderMode'     => $this->get_scan_render_mode(),
+			),
+			$this->get_resolved_scan_settings($post_type)
 		);
+	}
 
-		wp_enqueue_style(
-			$this->plugin_name . '-editor',
-			plugin_dir_url(__FILE__) . '../build/style-index.css',
-			array('wp-edit-blocks'),
-			$asset_file['version']
+	/**
+	 * Scanner settings after applying the scan profile for a post type and the current user.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param string|null $post_type Post type being scanned.
+	 *
+	 * @return array{wcagTags: string[], axeRules: array, scanProfile: array|null}
+	 */
+	private function get_resolved_scan_settings($post_type)
+	{
+		$wcag_tags = $this->get_selected_wcag_tags();
+		$axe_rules = $this->get_axe_rule_settings();
+		$profile   = $this->resolve_scan_profile($post_type);
+
+		if ($profile) {
+			if (! empty($profile['wcagTags'])) {
+				$wcag_tags = $profile['wcagTags'];
+			}
+
+			$axe_rules['disabled'] = array_values(array_unique(array_merge($axe_rules['disabled'], $profile['disabledRules'])));
+		}
+
+		return array(
+			'wcagTags'    => $wcag_tags,
+			'axeRules'    => $axe_rules,
+			'scanProfile' => $profile ? array(
+				'id'        => $profile['id'],
+				'name'      => $profile['name'],
+				'minImpact' => $profile['minImpact'],
+				'autoScan'  => $profile['autoScan'],
+			) : null,
 		);
 	}
 
+	/**
+	 * Find the scan profile that applies to a post type and the current user.
+	 *
+	 * A profile assigned to the post type wins; otherwise the first of the
+	 * user's roles with an assigned profile is used.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param string|null $post_type Post type being scanned.
+	 *
+	 * @return array|null The profile, or null to use the global settings.
+	 */
+	private function resolve_scan_profile($post_type)
+	{
+		$settings = $this->get_scan_profile_settings();
+		$profiles = array();
+
+		foreach ($settings['profiles'] as $profile) {
+			$profiles[$profile['id']] = $profile;
+		}
+
+		if ($post_type && ! empty($settings['postTypes'][$post_type]) && isset($profiles[$settings['postTypes'][$post_type]])) {
+			return $profiles[$settings['postTypes'][$post_type]];
+		}
+
+		foreach ((array) wp_get_current_user()->roles as $role) {
+			if (! empty($settings['roles'][$role]) && isset($profiles[$settings['roles'][$role]])) {
+				return $profiles[$settings['roles'][$role]];
+			}
+		}
+
+		return null;
+	}
+
 	/**
 	 * Ensures the editor iframe receives the plugin styles.
 	 *
@@ -165,6 +442,126 @@ class WP_Accessibility_Validator_Admin
 		);
 	}
 
+	/**
+	 * Register the bulk scan dashboard under Tools.
+	 *
+	 * @since 2.2.0
+	 */
+	public function register_bulk_scan_page()
+	{
+		$this->bulk_scan_hook = add_management_page(
+			__('Accessibility Scan', 'wp-accessibility-validator'),
+			__('Accessibility Scan', 'wp-accessibility-validator'),
+			'edit_others_posts',
+			'wpav-bulk-scan',
+			array($this, 'render_bulk_scan_page')
+		);
+	}
+
+	/**
+	 * Post types whose content can be scanned.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @return array<string, string> Post type names mapped to labels.
+	 */
+	private function get_scannable_post_types()
+	{
+		$post_types = array();
+
+		foreach (get_post_types(array('show_ui' => true), 'objects') as $post_type) {
+			if (! post_type_supports($post_type->name, 'editor') || 'wp_block' === $post_type->name) {
+				continue;
+			}
+
+			$post_types[$post_type->name] = $post_type->labels->name;
+		}
+
+		return $post_types;
+	}
+
+	/**
+	 * Render the bulk scan dashboard mount point.
+	 *
+	 * @since 2.2.0
+	 */
+	public function render_bulk_scan_page()
+	{
+		if (! current_user_can('edit_others_posts')) {
+			return;
+		}
+?>
+		<div class="wrap">
+			<h1><?php esc_html_e('Accessibility Scan', 'wp-accessibility-validator'); ?></h1>
+			<div id="wpav-bulk-scan-root"></div>
+		</div>
+<?php
+	}
+
+	/**
+	 * Enqueue the bulk scan dashboard on its own admin page.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param string $hook_suffix The current admin page.
+	 */
+	public function enqueue_bulk_scan_scripts($hook_suffix)
+	{
+		if (! $this->bulk_scan_hook || $hook_suffix !== $this->bulk_scan_hook) {
+			return;
+		}
+
+		$asset_file = include(plugin_dir_path(__FILE__) . '../build/bulk.asset.php');
+
+		wp_enqueue_script(
+			$this->plugin_name . '-bulk',
+			plugin_dir_url(__FILE__) . '../build/bulk.js',
+			$asset_file['dependencies'],
+			$asset_file['version'],
+			true
+		);
+
+		$post_types = array();
+		foreach ($this->get_scannable_post_types() as $name => $label) {
+			$post_types[] = array(
+				'value' => $name,
+				'label' => $label,
+			);
+		}
+
+		$post_statuses = array();
+		foreach (get_post_stati(array('show_in_admin_all_list' => true), 'objects') as $status) {
+			$post_statuses[] = array(
+				'value' => $status->name,
+				'label' => $status->label,
+			);
+		}
+
+		wp_localize_script(
+			$this->plugin_name . '-bulk',
+			'wpavSettings',
+			array_merge(
+				$this->get_scan_settings(),
+				array(
+					'bulkScan' => array(
+						'postTypes'    => $post_types,
+						'postStatuses' => $post_statuses,
+					),
+				)
+			)
+		);
+
+		wp_enqueue_style(
+			$this->plugin_name . '-bulk',
+			plugin_dir_url(__FILE__) . '../build/style-index.css',
+			array('wp-components'),
+			$asset_file['version']
+		);
+
+		/** This action is documented in admin/class-wp-accessibility-validator-admin.php */
+		do_action('wpav_enqueue_scan_assets', $this->plugin_name . '-bulk');
+	}
+
 	/**
 	 * Render the settings page markup.
 	 */
@@ -218,193 +615,2292 @@ class WP_Accessibility_Validator_Admin
 			'wpav_settings',
 			'wpav_settings_section'
 		);
-	}
-
-	/**
-	 * Output checkbox controls for each WCAG tag.
-	 */
-	public function render_wcag_tags_field()
-	{
-		$selected = $this->get_selected_wcag_tags();
-
-		foreach ($this->wcag_options as $tag => $label) {
-			printf(
-				'<label style="display:block;margin-bottom:4px;"><input type="checkbox" name="wpav_wcag_tags[]" value="%1$s" %2$s/> %3$s</label>',
-				esc_attr($tag),
-				checked(in_array($tag, $selected, true), true, false),
-				esc_html($label)
-			);
-		}
-	}
-
-	/**
-	 * Sanitize WCAG tags before saving.
-	 *
-	 * @param mixed $value Raw option value.
-	 *
-	 * @return array<string>
-	 */
-	public function sanitize_wcag_tags($value)
-	{
-		$allowed = array_keys($this->wcag_options);
-
-		if (! is_array($value)) {
-			return $allowed;
-		}
 
-		$value = array_map(
-			function ($tag) {
-				return sanitize_key($tag);
-			},
-			$value
+		register_setting(
+			'wpav_settings',
+			'wpav_scan_viewports',
+			array(
+				'type'              => 'array',
+				'sanitize_callback' => array($this, 'sanitize_scan_viewports'),
+				'default'           => array(self::DEFAULT_SCAN_VIEWPORT),
+			)
 		);
 
-		$clean = array_values(
-			array_intersect(
-				$allowed,
-				$value
-			)
+		add_settings_field(
+			'wpav_scan_viewports_field',
+			__('Viewports', 'wp-accessibility-validator'),
+			array($this, 'render_scan_viewports_field'),
+			'wpav_settings',
+			'wpav_settings_section'
 		);
 
-		return ! empty($clean) ? $clean : $allowed;
+		register_setting(
+			'wpav_settings',
+			'wpav_scan_variants',
+			array(
+				'type'              => 'array',
+				'sanitize_callback' => array($this, 'sanitize_scan_variants'),
+				'default'           => array(),
+			)
+		);
+
+		add_settings_field(
+			'wpav_scan_variants_field',
+			__('Color variants', 'wp-accessibility-validator'),
+			array($this, 'render_scan_variants_field'),
+			'wpav_settings',
+			'wpav_settings_section'
+		);
+
+		register_setting(
+			'wpav_settings',
+			'wpav_scan_render_mode',
+			array(
+				'type'              => 'string',
+				'sanitize_callback' => array($this, 'sanitize_scan_render_mode'),
+				'default'           => 'content',
+			)
+		);
+
+		add_settings_field(
+			'wpav_scan_render_mode_field',
+			__('Render mode', 'wp-accessibility-validator'),
+			array($this, 'render_scan_render_mode_field'),
+			'wpav_settings',
+			'wpav_settings_section'
+		);
+
+		register_setting(
+			'wpav_settings',
+			'wpav_axe_rules',
+			array(
+				'type'              => 'object',
+				'sanitize_callback' => array($this, 'sanitize_axe_rules'),
+				'default'           => $this->get_axe_rule_defaults(),
+			)
+		);
+
+		add_settings_field(
+			'wpav_axe_rules_field',
+			__('Rule overrides', 'wp-accessibility-validator'),
+			array($this, 'render_axe_rules_field'),
+			'wpav_settings',
+			'wpav_settings_section'
+		);
+
+		register_setting(
+			'wpav_settings',
+			'wpav_scan_profiles',
+			array(
+				'type'              => 'object',
+				'sanitize_callback' => array($this, 'sanitize_scan_profiles'),
+				'default'           => $this->get_scan_profile_defaults(),
+			)
+		);
+
+		add_settings_section(
+			'wpav_scan_profiles_section',
+			__('Scan Profiles', 'wp-accessibility-validator'),
+			function () {
+				echo '<p>' . esc_html__('Named profiles override the scan settings above. A profile assigned to a post type wins over one assigned to the user\'s role.', 'wp-accessibility-validator') . '</p>';
+			},
+			'wpav_settings'
+		);
+
+		add_settings_field(
+			'wpav_scan_profiles_field',
+			__('Profiles', 'wp-accessibility-validator'),
+			array($this, 'render_scan_profiles_field'),
+			'wpav_settings',
+			'wpav_scan_profiles_section'
+		);
+
+		add_settings_field(
+			'wpav_scan_profile_assignments_field',
+			__('Assignments', 'wp-accessibility-validator'),
+			array($this, 'render_scan_profile_assignments_field'),
+			'wpav_settings',
+			'wpav_scan_profiles_section'
+		);
+
+		register_setting(
+			'wpav_settings',
+			'wpav_publish_gate',
+			array(
+				'type'              => 'object',
+				'sanitize_callback' => array($this, 'sanitize_publish_gate'),
+				'default'           => $this->get_publish_gate_defaults(),
+			)
+		);
+
+		add_settings_section(
+			'wpav_publish_gate_section',
+			__('Publish Gate', 'wp-accessibility-validator'),
+			function () {
+				echo '<p>' . esc_html__('Prevent publishing while accessibility issues remain unresolved.', 'wp-accessibility-validator') . '</p>';
+			},
+			'wpav_settings'
+		);
+
+		add_settings_field(
+			'wpav_publish_gate_field',
+			__('Publishing policy', 'wp-accessibility-validator'),
+			array($this, 'render_publish_gate_field'),
+			'wpav_settings',
+			'wpav_publish_gate_section'
+		);
+	}
+
+	/**
+	 * Default axe rule overrides.
+	 *
+	 * @return array<string, array>
+	 */
+	private function get_axe_rule_defaults()
+	{
+		return array(
+			'disabled' => array(),
+			'enabled'  => array(),
+			'options'  => array(),
+		);
+	}
+
+	/**
+	 * Get the saved axe rule overrides.
+	 *
+	 * @return array<string, array>
+	 */
+	private function get_axe_rule_settings()
+	{
+		$settings = get_option('wpav_axe_rules', array());
+
+		return array_merge(
+			$this->get_axe_rule_defaults(),
+			is_array($settings) ? $settings : array()
+		);
+	}
+
+	/**
+	 * Split a comma or newline separated list of axe rule IDs.
+	 *
+	 * @param mixed $value Raw list, or an already parsed array.
+	 *
+	 * @return string[]
+	 */
+	private function parse_axe_rule_ids($value)
+	{
+		if (is_string($value)) {
+			$value = preg_split('/[\s,]+/', $value);
+		}
+
+		if (! is_array($value)) {
+			return array();
+		}
+
+		$ids = array_map('sanitize_key', $value);
+
+		return array_values(array_unique(array_filter($ids)));
+	}
+
+	/**
+	 * Sanitize the axe rule overrides.
+	 *
+	 * Per-rule options are entered as a JSON object keyed by rule ID; each
+	 * value is passed to axe.configure() for that rule.
+	 *
+	 * @param mixed $value Raw value.
+	 *
+	 * @return array<string, array>
+	 */
+	public function sanitize_axe_rules($value)
+	{
+		if (! is_array($value)) {
+			return $this->get_axe_rule_defaults();
+		}
+
+		$options = array();
+		$raw     = isset($value['options']) ? $value['options'] : '';
+
+		// Already decoded when the option is sanitized a second time on first save.
+		if (is_array($raw)) {
+			$raw = wp_json_encode($raw);
+		}
+
+		$raw = trim((string) $raw);
+
+		if ('' !== $raw) {
+			$decoded = json_decode($raw, true);
+
+			if (! is_array($decoded)) {
+				add_settings_error(
+					'wpav_axe_rules',
+					'wpav_axe_rules_invalid_json',
+					__('Rule options must be a JSON object keyed by rule ID. The previous options were kept.', 'wp-accessibility-validator')
+				);
+
+				$decoded = $this->get_axe_rule_settings()['options'];
+			}
+
+			foreach ($decoded as $rule_id => $rule_options) {
+				$rule_id = sanitize_key($rule_id);
+
+				if ('' !== $rule_id && is_array($rule_options)) {
+					$options[$rule_id] = $rule_options;
+				}
+			}
+		}
+
+		return array(
+			'disabled' => $this->parse_axe_rule_ids(isset($value['disabled']) ? $value['disabled'] : ''),
+			'enabled'  => $this->parse_axe_rule_ids(isset($value['enabled']) ? $value['enabled'] : ''),
+			'options'  => $options,
+		);
+	}
+
+	/**
+	 * Output controls for the axe rule overrides.
+	 */
+	public function render_axe_rules_field()
+	{
+		$settings = $this->get_axe_rule_settings();
+
+		printf(
+			'<label style="display:block;margin-bottom:8px;">%1$s<br /><input type="text" class="large-text" name="wpav_axe_rules[disabled]" value="%2$s" placeholder="region" /></label>',
+			esc_html__('Disabled rules (comma separated axe rule IDs)', 'wp-accessibility-validator'),
+			esc_attr(implode(', ', $settings['disabled']))
+		);
+
+		printf(
+			'<label style="display:block;margin-bottom:8px;">%1$s<br /><input type="text" class="large-text" name="wpav_axe_rules[enabled]" value="%2$s" /></label>',
+			esc_html__('Always-enabled rules, even outside the selected guidelines', 'wp-accessibility-validator'),
+			esc_attr(implode(', ', $settings['enabled']))
+		);
+
+		printf(
+			'<label style="display:block;">%1$s<br /><textarea class="large-text code" rows="5" name="wpav_axe_rules[options]" placeholder="%2$s">%3$s</textarea></label>',
+			esc_html__('Per-rule options (JSON object keyed by rule ID, passed to axe.configure)', 'wp-accessibility-validator'),
+			esc_attr('{"color-contrast": {"excludeHidden": false}}'),
+			esc_textarea(empty($settings['options']) ? '' : wp_json_encode($settings['options'], JSON_PRETTY_PRINT))
+		);
+	}
+
+	/**
+	 * Default scan profile settings.
+	 *
+	 * @return array<string, array>
+	 */
+	private function get_scan_profile_defaults()
+	{
+		return array(
+			'profiles'  => array(),
+			'postTypes' => array(),
+			'roles'     => array(),
+		);
+	}
+
+	/**
+	 * Get the saved scan profiles and their assignments.
+	 *
+	 * @return array<string, array>
+	 */
+	private function get_scan_profile_settings()
+	{
+		$settings = get_option('wpav_scan_profiles', array());
+
+		return array_merge(
+			$this->get_scan_profile_defaults(),
+			is_array($settings) ? $settings : array()
+		);
+	}
+
+	/**
+	 * Sanitize the scan profiles and their assignments.
+	 *
+	 * @param mixed $value Raw value.
+	 *
+	 * @return array<string, array>
+	 */
+	public function sanitize_scan_profiles($value)
+	{
+		if (! is_array($value)) {
+			return $this->get_scan_profile_defaults();
+		}
+
+		$profiles = array();
+		$rows     = isset($value['profiles']) && is_array($value['profiles']) ? $value['profiles'] : array();
+
+		foreach ($rows as $row) {
+			if (! is_array($row) || ! empty($row['delete'])) {
+				continue;
+			}
+
+			$name = isset($row['name']) ? sanitize_text_field($row['name']) : '';
+
+			if ('' === $name) {
+				continue;
+			}
+
+			$id = ! empty($row['id']) ? sanitize_key($row['id']) : sanitize_title($name);
+			if ('' === $id || isset($profiles[$id])) {
+				$id = 'profile-' . (count($profiles) + 1);
+			}
+
+			$min_impact = isset($row['minImpact']) ? sanitize_key($row['minImpact']) : '';
+
+			$profiles[$id] = array(
+				'id'            => $id,
+				'name'          => $name,
+				'wcagTags'      => array_values(array_intersect(array_keys($this->wcag_options), array_map('sanitize_key', isset($row['wcagTags']) ? (array) $row['wcagTags'] : array()))),
+				'disabledRules' => $this->parse_axe_rule_ids(isset($row['disabledRules']) ? $row['disabledRules'] : ''),
+				'minImpact'     => array_key_exists($min_impact, $this->get_impact_options()) ? $min_impact : 'minor',
+				'autoScan'      => ! empty($row['autoScan']),
+			);
+		}
+
+		$assignments = array();
+		foreach (array('postTypes', 'roles') as $group) {
+			$assignments[$group] = array();
+
+			if (empty($value[$group]) || ! is_array($value[$group])) {
+				continue;
+			}
+
+			foreach ($value[$group] as $key => $profile_id) {
+				$profile_id = sanitize_key($profile_id);
+
+				if (isset($profiles[$profile_id])) {
+					$assignments[$group][sanitize_key($key)] = $profile_id;
+				}
+			}
+		}
+
+		return array(
+			'profiles'  => array_values($profiles),
+			'postTypes' => $assignments['postTypes'],
+			'roles'     => $assignments['roles'],
+		);
+	}
+
+	/**
+	 * Output one editable row per scan profile, plus an empty row for a new one.
+	 */
+	public function render_scan_profiles_field()
+	{
+		$settings = $this->get_scan_profile_settings();
+		$profiles = $settings['profiles'];
+
+		$profiles[] = array(
+			'id'            => '',
+			'name'          => '',
+			'wcagTags'      => array(),
+			'disabledRules' => array(),
+			'minImpact'     => 'minor',
+			'autoScan'      => true,
+		);
+
+		foreach ($profiles as $index => $profile) {
+			$field = 'wpav_scan_profiles[profiles][' . $index . ']';
+
+			echo '<fieldset style="margin-bottom:16px;padding:8px 12px;border:1px solid #dcdcde;">';
+
+			printf(
+				'<legend>%s</legend>',
+				'' === $profile['id'] ? esc_html__('Add a profile', 'wp-accessibility-validator') : esc_html($profile['name'])
+			);
+
+			printf(
+				'<input type="hidden" name="%1$s[id]" value="%2$s" /><label style="display:block;margin-bottom:8px;">%3$s <input type="text" class="regular-text" name="%1$s[name]" value="%4$s" /></label>',
+				esc_attr($field),
+				esc_attr($profile['id']),
+				esc_html__('Name', 'wp-accessibility-validator'),
+				esc_attr($profile['name'])
+			);
+
+			echo '<p style="margin:0 0 4px;">' . esc_html__('WCAG guidelines (none selected uses the global setting)', 'wp-accessibility-validator') . '</p>';
+			foreach ($this->wcag_options as $tag => $label) {
+				printf(
+					'<label style="display:inline-block;margin:0 12px 4px 0;"><input type="checkbox" name="%1$s[wcagTags][]" value="%2$s" %3$s/> %4$s</label>',
+					esc_attr($field),
+					esc_attr($tag),
+					checked(in_array($tag, $profile['wcagTags'], true), true, false),
+					esc_html($label)
+				);
+			}
+
+			printf(
+				'<label style="display:block;margin:8px 0;">%1$s<br /><input type="text" class="large-text" name="%2$s[disabledRules]" value="%3$s" /></label>',
+				esc_html__('Additional disabled rules (comma separated axe rule IDs)', 'wp-accessibility-validator'),
+				esc_attr($field),
+				esc_attr(implode(', ', $profile['disabledRules']))
+			);
+
+			printf(
+				'<label style="display:block;margin-bottom:8px;">%1$s <select name="%2$s[minImpact]">',
+				esc_html__('Report issues with impact at or above', 'wp-accessibility-validator'),
+				esc_attr($field)
+			);
+			foreach ($this->get_impact_options() as $impact => $label) {
+				printf(
+					'<option value="%1$s" %2$s>%3$s</option>',
+					esc_attr($impact),
+					selected($profile['minImpact'], $impact, false),
+					esc_html($label)
+				);
+			}
+			echo '</select></label>';
+
+			printf(
+				'<label style="display:block;margin-bottom:8px;"><input type="checkbox" name="%1$s[autoScan]" value="1" %2$s/> %3$s</label>',
+				esc_attr($field),
+				checked($profile['autoScan'], true, false),
+				esc_html__('Scan automatically when the editor opens', 'wp-accessibility-validator')
+			);
+
+			if ('' !== $profile['id']) {
+				printf(
+					'<label style="display:block;"><input type="checkbox" name="%1$s[delete]" value="1" /> %2$s</label>',
+					esc_attr($field),
+					esc_html__('Delete this profile', 'wp-accessibility-validator')
+				);
+			}
+
+			echo '</fieldset>';
+		}
+	}
+
+	/**
+	 * Output profile selectors for each post type and user role.
+	 */
+	public function render_scan_profile_assignments_field()
+	{
+		$settings = $this->get_scan_profile_settings();
+
+		if (empty($settings['profiles'])) {
+			echo '<p>' . esc_html__('Save a profile first to assign it.', 'wp-accessibility-validator') . '</p>';
+			return;
+		}
+
+		$groups = array(
+			'postTypes' => array(
+				'label'   => __('Post types', 'wp-accessibility-validator'),
+				'options' => $this->get_scannable_post_types(),
+			),
+			'roles'     => array(
+				'label'   => __('User roles', 'wp-accessibility-validator'),
+				'options' => array_map('translate_user_role', wp_roles()->get_names()),
+			),
+		);
+
+		foreach ($groups as $group => $config) {
+			echo '<p><strong>' . esc_html($config['label']) . '</strong></p>';
+
+			foreach ($config['options'] as $key => $label) {
+				$current = isset($settings[$group][$key]) ? $settings[$group][$key] : '';
+
+				printf(
+					'<label style="display:block;margin-bottom:4px;"><select name="wpav_scan_profiles[%1$s][%2$s]"><option value="">%3$s</option>',
+					esc_attr($group),
+					esc_attr($key),
+					esc_html__('Global settings', 'wp-accessibility-validator')
+				);
+				foreach ($settings['profiles'] as $profile) {
+					printf(
+						'<option value="%1$s" %2$s>%3$s</option>',
+						esc_attr($profile['id']),
+						selected($current, $profile['id'], false),
+						esc_html($profile['name'])
+					);
+				}
+				printf('</select> %s</label>', esc_html($label));
+			}
+		}
+	}
+
+	/**
+	 * Default publish gate settings.
+	 *
+	 * @return array<string, mixed>
+	 */
+	private function get_publish_gate_defaults()
+	{
+		return array(
+			'enabled'            => false,
+			'minImpact'          => 'serious',
+			'blockWhenStale'     => false,
+			'overrideCapability' => 'publish_others_posts',
+		);
+	}
+
+	/**
+	 * Impact levels understood by the publish gate, least severe first.
+	 *
+	 * @return array<string, string>
+	 */
+	private function get_impact_options()
+	{
+		return array(
+			'minor'    => __('Minor', 'wp-accessibility-validator'),
+			'moderate' => __('Moderate', 'wp-accessibility-validator'),
+			'serious'  => __('Serious', 'wp-accessibility-validator'),
+			'critical' => __('Critical', 'wp-accessibility-validator'),
+		);
+	}
+
+	/**
+	 * Returns the stored publish gate settings merged with defaults.
+	 *
+	 * @return array<string, mixed>
+	 */
+	private function get_publish_gate_settings()
+	{
+		$stored = get_option('wpav_publish_gate');
+
+		return $this->sanitize_publish_gate(is_array($stored) ? $stored : array());
+	}
+
+	/**
+	 * Publish gate settings exposed to the editor script.
+	 *
+	 * @return array<string, mixed>
+	 */
+	private function get_publish_gate_settings_for_editor()
+	{
+		$settings = $this->get_publish_gate_settings();
+
+		return array(
+			'enabled'        => $settings['enabled'],
+			'minImpact'      => $settings['minImpact'],
+			'blockWhenStale' => $settings['blockWhenStale'],
+			'canOverride'    => current_user_can($settings['overrideCapability']),
+		);
+	}
+
+	/**
+	 * Sanitize publish gate settings before saving.
+	 *
+	 * @param mixed $value Raw option value.
+	 *
+	 * @return array<string, mixed>
+	 */
+	public function sanitize_publish_gate($value)
+	{
+		$defaults = $this->get_publish_gate_defaults();
+
+		if (! is_array($value)) {
+			return $defaults;
+		}
+
+		$min_impact = isset($value['minImpact']) ? sanitize_key($value['minImpact']) : '';
+		$capability = isset($value['overrideCapability']) ? sanitize_key($value['overrideCapability']) : '';
+
+		return array(
+			'enabled'            => ! empty($value['enabled']),
+			'minImpact'          => array_key_exists($min_impact, $this->get_impact_options()) ? $min_impact : $defaults['minImpact'],
+			'blockWhenStale'     => ! empty($value['blockWhenStale']),
+			'overrideCapability' => '' !== $capability ? $capability : $defaults['overrideCapability'],
+		);
+	}
+
+	/**
+	 * Output controls for the publish gate policy.
+	 */
+	public function render_publish_gate_field()
+	{
+		$settings = $this->get_publish_gate_settings();
+
+		printf(
+			'<label style="display:block;margin-bottom:8px;"><input type="checkbox" name="wpav_publish_gate[enabled]" value="1" %1$s/> %2$s</label>',
+			checked($settings['enabled'], true, false),
+			esc_html__('Block publishing when the policy is not met', 'wp-accessibility-validator')
+		);
+
+		echo '<label style="display:block;margin-bottom:8px;">' . esc_html__('Block on violations with impact at or above', 'wp-accessibility-validator') . ' <select name="wpav_publish_gate[minImpact]">';
+		foreach ($this->get_impact_options() as $impact => $label) {
+			printf(
+				'<option value="%1$s" %2$s>%3$s</option>',
+				esc_attr($impact),
+				selected($settings['minImpact'], $impact, false),
+				esc_html($label)
+			);
+		}
+		echo '</select></label>';
+
+		printf(
+			'<label style="display:block;margin-bottom:8px;"><input type="checkbox" name="wpav_publish_gate[blockWhenStale]" value="1" %1$s/> %2$s</label>',
+			checked($settings['blockWhenStale'], true, false),
+			esc_html__('Block publishing when the latest scan is missing or out of date', 'wp-accessibility-validator')
+		);
+
+		printf(
+			'<label style="display:block;">%1$s <input type="text" class="regular-text" name="wpav_publish_gate[overrideCapability]" value="%2$s" /></label>',
+			esc_html__('Capability allowed to override the gate', 'wp-accessibility-validator'),
+			esc_attr($settings['overrideCapability'])
+		);
+	}
+
+	/**
+	 * Output the viewport widths input.
+	 *
+	 * @since 2.2.0
+	 */
+	public function render_scan_viewports_field()
+	{
+		printf(
+			'<input type="text" class="regular-text" name="wpav_scan_viewports" value="%1$s" /><p class="description">%2$s</p>',
+			esc_attr(implode(', ', $this->get_scan_viewports())),
+			esc_html(
+				sprintf(
+					/* translators: %d: maximum number of viewports. */
+					__('Comma-separated viewport widths in pixels, e.g. 375, 768, 1280. Each scan runs once per width (up to %d) and results are merged.', 'wp-accessibility-validator'),
+					self::MAX_SCAN_VIEWPORTS
+				)
+			)
+		);
+	}
+
+	/**
+	 * Sanitize the viewport widths before saving.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed $value Raw option value: a comma-separated string or an array.
+	 *
+	 * @return int[]
+	 */
+	public function sanitize_scan_viewports($value)
+	{
+		$widths = is_array($value) ? $value : preg_split('/[\s,]+/', (string) $value);
+		$widths = array_filter(
+			array_map('absint', $widths),
+			function ($width) {
+				return $width >= 240 && $width <= 3840;
+			}
+		);
+		$widths = array_unique($widths);
+		sort($widths);
+
+		return ! empty($widths)
+			? array_slice($widths, 0, self::MAX_SCAN_VIEWPORTS)
+			: array(self::DEFAULT_SCAN_VIEWPORT);
+	}
+
+	/**
+	 * Returns the stored viewport widths or the default.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @return int[]
+	 */
+	private function get_scan_viewports()
+	{
+		return $this->sanitize_scan_viewports(get_option('wpav_scan_viewports', array(self::DEFAULT_SCAN_VIEWPORT)));
+	}
+
+	/**
+	 * Color variants contrast rules can be rerun under.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @return array<string, string>
+	 */
+	private function get_scan_variant_options()
+	{
+		return array(
+			'dark'          => __('Dark color scheme (prefers-color-scheme: dark)', 'wp-accessibility-validator'),
+			'forced-colors' => __('Forced colors / high contrast (approximation)', 'wp-accessibility-validator'),
+		);
+	}
+
+	/**
+	 * Output checkbox controls for each color variant.
+	 *
+	 * @since 2.2.0
+	 */
+	public function render_scan_variants_field()
+	{
+		$selected = $this->get_scan_variants();
+
+		foreach ($this->get_scan_variant_options() as $variant => $label) {
+			printf(
+				'<label style="display:block;margin-bottom:4px;"><input type="checkbox" name="wpav_scan_variants[]" value="%1$s" %2$s/> %3$s</label>',
+				esc_attr($variant),
+				checked(in_array($variant, $selected, true), true, false),
+				esc_html($label)
+			);
+		}
+
+		echo '<p class="description">' . esc_html__('Contrast rules are run again with each selected variant emulated, and results are labelled by variant.', 'wp-accessibility-validator') . '</p>';
+	}
+
+	/**
+	 * Sanitize the color variants before saving.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed $value Raw option value.
+	 *
+	 * @return string[]
+	 */
+	public function sanitize_scan_variants($value)
+	{
+		if (! is_array($value)) {
+			return array();
+		}
+
+		return array_values(
+			array_intersect(
+				array_keys($this->get_scan_variant_options()),
+				array_map('sanitize_key', $value)
+			)
+		);
+	}
+
+	/**
+	 * Returns the stored color variants.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @return string[]
+	 */
+	private function get_scan_variants()
+	{
+		return $this->sanitize_scan_variants(get_option('wpav_scan_variants', array()));
+	}
+
+	/**
+	 * Ways the post can be rendered for a scan.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @return array<string, string>
+	 */
+	private function get_scan_render_mode_options()
+	{
+		return array(
+			'content'   => __('Post content only', 'wp-accessibility-validator'),
+			'full-page' => __('Full page (theme template with header, footer and template parts)', 'wp-accessibility-validator'),
+		);
+	}
+
+	/**
+	 * Output radio controls for the render mode.
+	 *
+	 * @since 2.2.0
+	 */
+	public function render_scan_render_mode_field()
+	{
+		$selected = $this->get_scan_render_mode();
+
+		foreach ($this->get_scan_render_mode_options() as $mode => $label) {
+			printf(
+				'<label style="display:block;margin-bottom:4px;"><input type="radio" name="wpav_scan_render_mode" value="%1$s" %2$s/> %3$s</label>',
+				esc_attr($mode),
+				checked($mode, $selected, false),
+				esc_html($label)
+			);
+		}
+
+		echo '<p class="description">' . esc_html__('Full page scans check landmarks, headings and duplicate IDs against the real page. Issues outside the post content are reported separately as template issues.', 'wp-accessibility-validator') . '</p>';
+	}
+
+	/**
+	 * Sanitize the render mode before saving.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed $value Raw option value.
+	 *
+	 * @return string
+	 */
+	public function sanitize_scan_render_mode($value)
+	{
+		$mode = is_string($value) ? sanitize_key($value) : '';
+
+		return array_key_exists($mode, $this->get_scan_render_mode_options()) ? $mode : 'content';
+	}
+
+	/**
+	 * Returns the stored render mode.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @return string
+	 */
+	private function get_scan_render_mode()
+	{
+		return $this->sanitize_scan_render_mode(get_option('wpav_scan_render_mode', 'content'));
+	}
+
+	/**
+	 * Output checkbox controls for each WCAG tag.
+	 */
+	public function render_wcag_tags_field()
+	{
+		$selected = $this->get_selected_wcag_tags();
+
+		foreach ($this->wcag_options as $tag => $label) {
+			printf(
+				'<label style="display:block;margin-bottom:4px;"><input type="checkbox" name="wpav_wcag_tags[]" value="%1$s" %2$s/> %3$s</label>',
+				esc_attr($tag),
+				checked(in_array($tag, $selected, true), true, false),
+				esc_html($label)
+			);
+		}
+	}
+
+	/**
+	 * Sanitize WCAG tags before saving.
+	 *
+	 * @param mixed $value Raw option value.
+	 *
+	 * @return array<string>
+	 */
+	public function sanitize_wcag_tags($value)
+	{
+		$allowed = array_keys($this->wcag_options);
+
+		if (! is_array($value)) {
+			return $allowed;
+		}
+
+		$value = array_map(
+			function ($tag) {
+				return sanitize_key($tag);
+			},
+			$value
+		);
+
+		$clean = array_values(
+			array_intersect(
+				$allowed,
+				$value
+			)
+		);
+
+		return ! empty($clean) ? $clean : $allowed;
+	}
+
+	/**
+	 * Returns stored WCAG tags or defaults.
+	 *
+	 * @return array<string>
+	 */
+	private function get_selected_wcag_tags()
+	{
+		$stored = get_option('wpav_wcag_tags');
+
+		if (! is_array($stored) || empty($stored)) {
+			return array_keys($this->wcag_options);
+		}
+
+		return array_values(
+			array_intersect(
+				array_keys($this->wcag_options),
+				array_map('sanitize_key', $stored)
+			)
+		);
+	}
+
+	/**
+	 * List of WCAG tags that axe supports.
+	 *
+	 * @return array<string, string>
+	 */
+	private function get_wcag_options()
+	{
+		return array(
+			'wcag2a'   => __('WCAG 2.0 Level A', 'wp-accessibility-validator'),
+			'wcag2aa'  => __('WCAG 2.0 Level AA', 'wp-accessibility-validator'),
+			'wcag2aaa' => __('WCAG 2.0 Level AAA', 'wp-accessibility-validator'),
+			'wcag21a'  => __('WCAG 2.1 Level A', 'wp-accessibility-validator'),
+			'wcag21aa' => __('WCAG 2.1 Level AA', 'wp-accessibility-validator'),
+			'wcag22aa' => __('WCAG 2.2 Level AA', 'wp-accessibility-validator'),
+			'best-practice' => __('Best practices (non-WCAG)', 'wp-accessibility-validator'),
+			'review-item'   => __('Manual review items', 'wp-accessibility-validator'),
+		);
+	}
+
+	/**
+	 * Adds stable block IDs to rendered block HTML for accessibility scanning.
+	 *
+	 * Uses the persisted wpavId block attribute, which is assigned in the editor
+	 * and stored with the block content. When present, the value is exposed as a
+	 * data-wpav-block-id attribute on the first HTML tag of the rendered block.
+	 * Synced patterns and template parts are wrapped in marker comments instead
+	 * (see wrap_synced_content()).
+	 *
+	 * @param string $block_content The block content.
+	 * @param array  $block         The block data.
+	 *
+	 * @return string Modified block content with stable IDs.
+	 */
+	public function add_block_stable_id($block_content, $block)
+	{
+		// Only inject when the scan render explicitly requested IDs.
+		if (! self::$force_block_ids || ! $block_content || ! is_array($block)) {
+			return $block_content;
+		}
+
+		if (isset($block['blockName']) && in_array($block['blockName'], array('core/block', 'core/template-part'), true)) {
+			return $this->wrap_synced_content($block_content, $block);
+		}
+
+		$attribute_name = 'wpavId';
+
+		if (empty($block['attrs'][$attribute_name])) {
+			return $block_content;
+		}
+
+		$block_id = sanitize_text_field($block['attrs'][$attribute_name]);
+
+		$processor = new WP_HTML_Tag_Processor($block_content);
+
+		if (! $processor->next_tag()) {
+			return $block_content;
+		}
+
+		$processor->set_attribute('data-wpav-block-id', $block_id);
+
+		return $processor->get_updated_html();
+	}
+
+	/**
+	 * Wraps the output of a synced pattern or template part in marker comments.
+	 *
+	 * Their content is edited in the original pattern or template part, so the
+	 * scanner attributes results inside the markers to the reference block and
+	 * names the source. The opening comment holds a JSON description of the
+	 * source: type, id, title, edit URL, the wpavId of the reference block and,
+	 * for patterns, the number of posts using it.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param string $block_content The rendered block.
+	 * @param array  $block         The block data.
+	 *
+	 * @return string The wrapped block content.
+	 */
+	private function wrap_synced_content($block_content, $block)
+	{
+		$attrs = isset($block['attrs']) && is_array($block['attrs']) ? $block['attrs'] : array();
+
+		if ('core/block' === $block['blockName']) {
+			if (empty($attrs['ref'])) {
+				return $block_content;
+			}
+
+			$ref    = (int) $attrs['ref'];
+			$source = array(
+				'type'    => 'pattern',
+				'id'      => (string) $ref,
+				'title'   => html_entity_decode(get_the_title($ref), ENT_QUOTES, get_bloginfo('charset')),
+				'editUrl' => (string) get_edit_post_link($ref, 'raw'),
+				'usage'   => $this->count_pattern_usage($ref),
+			);
+		} else {
+			if (empty($attrs['slug'])) {
+				return $block_content;
+			}
+
+			$theme         = ! empty($attrs['theme']) ? $attrs['theme'] : get_stylesheet();
+			$id            = $theme . '//' . $attrs['slug'];
+			$template_part = get_block_template($id, 'wp_template_part');
+			$source        = array(
+				'type'    => 'template-part',
+				'id'      => $id,
+				'title'   => $template_part && $template_part->title ? $template_part->title : $attrs['slug'],
+				'editUrl' => current_user_can('edit_theme_options')
+					? admin_url('site-editor.php?postType=wp_template_part&postId=' . rawurlencode($id) . '&canvas=edit')
+					: '',
+			);
+		}
+
+		if (! empty($attrs['wpavId'])) {
+			$source['wpavId'] = sanitize_text_field($attrs['wpavId']);
+		}
+
+		// Escape "--" as block serialization does, so a title cannot end the comment.
+		$json = str_replace('--', '\\u002d\\u002d', wp_json_encode($source));
+
+		return '<!-- wpav:synced ' . $json . ' -->' . $block_content . '<!-- /wpav:synced -->';
+	}
+
+	/**
+	 * Counts the posts that use a synced pattern.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param int $ref ID of the wp_block post.
+	 *
+	 * Counts are cached in transients until a post is saved or deleted, so
+	 * the query does not run for every render.
+	 *
+	 * @return int Number of posts, of any type, whose content references the pattern.
+	 */
+	private function count_pattern_usage($ref)
+	{
+		global $wpdb;
+
+		if (isset($this->pattern_usage[$ref])) {
+			return $this->pattern_usage[$ref];
+		}
+
+		$transient = 'wpav_pattern_usage_' . $ref . '_' . get_option(self::PATTERN_USAGE_VERSION_OPTION, '0');
+		$count     = get_transient($transient);
+
+		if (false === $count) {
+			// LIKE narrows the rows cheaply; REGEXP stops "ref":12 matching "ref":123.
+			$count = (int) $wpdb->get_var(
+				$wpdb->prepare(
+					"SELECT COUNT(ID) FROM {$wpdb->posts}
+					WHERE post_type NOT IN ('revision', 'wp_block')
+					AND post_status NOT IN ('trash', 'auto-draft', 'inherit')
+					AND post_content LIKE %s
+					AND post_content REGEXP %s",
+					'%' . $wpdb->esc_like('"ref":' . $ref) . '%',
+					'"ref":' . $ref . '[^0-9]'
+				)
+			);
+
+			set_transient($transient, $count, DAY_IN_SECONDS);
+		}
+
+		$this->pattern_usage[$ref] = (int) $count;
+
+		return $this->pattern_usage[$ref];
+	}
+
+	/**
+	 * Invalidates the cached pattern usage counts when a post changes.
+	 *
+	 * Bumping the version makes every cached count miss; the old transients
+	 * expire on their own.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param int $post_id ID of the saved or deleted post.
+	 */
+	public function flush_pattern_usage($post_id)
+	{
+		if (wp_is_post_revision($post_id) || wp_is_post_autosave($post_id)) {
+			return;
+		}
+
+		update_option(self::PATTERN_USAGE_VERSION_OPTION, uniqid('', true));
+		$this->pattern_usage = array();
+	}
+
+	/**
+	 * Render a post inside its front-end template, including template parts.
+	 *
+	 * The main query is pointed at the post while the template runs, so the
+	 * template hierarchy and template tags resolve as they would on the front
+	 * end, and the given content replaces the stored content. Block themes
+	 * render their block template through template-canvas.php; classic themes
+	 * render their PHP template. Blocks of the post content keep their
+	 * `data-wpav-block-id` markers.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param WP_Post $post    Post to render.
+	 * @param string  $content Content to render in place of the stored content.
+	 *
+	 * @return string|WP_Error Complete HTML document, or an error if the post could not be queried.
+	 */
+	private function render_full_page($post, $content)
+	{
+		global $wp_query, $wp_the_query;
+
+		$original_query      = $wp_query;
+		$original_main_query = $wp_the_query;
+		$original_post       = isset($GLOBALS['post']) ? $GLOBALS['post'] : null;
+
+		// Pages are only treated as pages when queried by page_id.
+		$query_args = 'page' === $post->post_type
+			? array('page_id' => $post->ID)
+			: array(
+				'p'         => $post->ID,
+				'post_type' => $post->post_type,
+			);
+
+		$query_args['post_status'] = $post->post_status;
+
+		$wp_the_query = new WP_Query($query_args);
+		$wp_query     = $wp_the_query;
+
+		if (empty($wp_query->posts)) {
+			$wp_the_query = $original_main_query;
+			$wp_query     = $original_query;
+
+			return new WP_Error(
+				$this->plugin_name . '_render_failed',
+				__('The post could not be rendered in its template.', $this->plugin_name),
+				array('status' => 500)
+			);
+		}
+
+		// The queried post is what the_post() sets up, so the edited content is rendered.
+		$wp_query->posts[0]->post_content = $content;
+
+		// Same lookup order as wp-includes/template-loader.php for singular requests.
+		$template = '';
+
+		if (is_page()) {
+			$template = get_page_template();
+		} elseif (is_single()) {
+			$template = get_single_template();
+		}
+
+		if (! $template) {
+			$template = get_singular_template();
+		}
+
+		if (! $template) {
+			$template = get_index_template();
+		}
+
+		/** This filter is documented in wp-includes/template-loader.php */
+		$template = apply_filters('template_include', $template);
+
+		self::$force_block_ids = true;
+
+		$ob_level = ob_get_level();
+		$html     = '';
+
+		ob_start();
+
+		// Restore the request state even if the template or a filter throws.
+		try {
+			if ($template && file_exists($template)) {
+				include $template;
+			}
+
+			$html = ob_get_clean();
+		} finally {
+			while (ob_get_level() > $ob_level) {
+				ob_end_clean();
+			}
+
+			self::$force_block_ids = false;
+
+			$wp_the_query    = $original_main_query;
+			$wp_query        = $original_query;
+			$GLOBALS['post'] = $original_post;
+		}
+
+		return $html;
+	}
+
+	public function register_rest_routes()
+	{
+		register_rest_route(
+			$this->plugin_name . '/v1',
+			'/render/(?P<id>\d+)',
+			array(
+				'methods'             => 'POST',
+				// Renders can include other users' drafts and private posts.
+				'permission_callback' => array($this, 'can_edit_post_from_request'),
+				'args'                => array(
+					'content' => array(
+						'type'     => 'string',
+						'required' => false,
+					),
+					'mode'    => array(
+						'type'     => 'string',
+						'enum'     => array('content', 'full-page'),
+						'default'  => 'content',
+						'required' => false,
+					),
+				),
+				'callback'            => function (WP_REST_Request $request) {
+					$post_id  = (int) $request['id'];
+					$content  = $request->get_param('content');
+					$post     = get_post($post_id);
+
+					if (! $post) {
+						return new WP_Error(
+							$this->plugin_name . '_invalid_post',
+							__('Invalid post.', $this->plugin_name),
+							array('status' => 404)
+						);
+					}
+
+					// Use edited content if provided, otherwise fall back to DB.
+					if ($content === null) {
+						$content = $post->post_content;
+					}
+
+					if ('full-page' === $request->get_param('mode')) {
+						$html = $this->render_full_page($post, $content);
+
+						if (is_wp_error($html)) {
+							return $html;
+						}
+
+						return array(
+							'html' => $html,
+							'mode' => 'full-page',
+						);
+					}
+
+					// Simulate the normal loop context so theme filters behave.
+					$GLOBALS['post'] = $post;
+					setup_postdata($post);
+
+					// 🔴 Force block IDs for this render only.
+					self::$force_block_ids = true;
+
+					/**
+					 * the_content hook calls do_blocks() internally, which uses
+					 * parse_blocks() + render_block() to build the HTML.
+					 * See docs for do_blocks/render_block/parse_blocks.
+					 */
+					$html = apply_filters('the_content', $content);
+
+					self::$force_block_ids = false;
+
+					wp_reset_postdata();
+
+					return array(
+						'html' => $html,
+						'mode' => 'content',
+					);
+				},
+			)
+		);
+
+		register_rest_route(
+			$this->plugin_name . '/v1',
+			'/dismissals/(?P<id>\d+)',
+			array(
+				array(
+					'methods'             => WP_REST_Server::READABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_get_dismissals'),
+				),
+				array(
+					'methods'             => WP_REST_Server::CREATABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_add_dismissal'),
+					'args'                => array(
+						'key'       => array(
+							'type'     => 'string',
+							'required' => true,
+						),
+						'ruleId'    => array(
+							'type'     => 'string',
+							'required' => true,
+						),
+						'wpavId'    => array(
+							'type'     => 'string',
+							'required' => true,
+						),
+						'target'    => array(
+							'type'     => 'string',
+							'required' => false,
+						),
+						'reason'    => array(
+							'type'     => 'string',
+							'required' => true,
+						),
+						'blockHash' => array(
+							'type'     => 'string',
+							'required' => true,
+						),
+					),
+				),
+				array(
+					'methods'             => WP_REST_Server::DELETABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_remove_dismissals'),
+					'args'                => array(
+						'keys' => array(
+							'type'     => 'array',
+							'items'    => array('type' => 'string'),
+							'required' => true,
+						),
+					),
+				),
+			)
+		);
+
+		register_rest_route(
+			$this->plugin_name . '/v1',
+			'/review-decisions/(?P<id>\d+)',
+			array(
+				array(
+					'methods'             => WP_REST_Server::READABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_get_review_decisions'),
+				),
+				array(
+					'methods'             => WP_REST_Server::CREATABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_update_review_decisions'),
+					'args'                => array(
+						'decisions' => array(
+							'type'                 => 'object',
+							'required'             => true,
+							'additionalProperties' => array(
+								'type' => array('string', 'null'),
+								'enum' => array('passed', 'failed', null),
+							),
+						),
+					),
+				),
+			)
+		);
+
+		register_rest_route(
+			$this->plugin_name . '/v1',
+			'/scans/(?P<id>\d+)',
+			array(
+				array(
+					'methods'             => WP_REST_Server::READABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_get_scans'),
+				),
+				array(
+					'methods'             => WP_REST_Server::CREATABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_add_scan'),
+					'args'                => array(
+						'scan' => array(
+							'type'     => 'object',
+							'required' => true,
+						),
+					),
+				),
+			)
+		);
+
+		register_rest_route(
+			$this->plugin_name . '/v1',
+			'/publish-overrides/(?P<id>\d+)',
+			array(
+				array(
+					'methods'             => WP_REST_Server::READABLE,
+					'permission_callback' => array($this, 'can_edit_post_from_request'),
+					'callback'            => array($this, 'rest_get_publish_overrides'),
+				),
+				array(
+					'methods'             => WP_REST_Server::CREATABLE,
+					'permission_callback' => array($this, 'can_override_publish_gate'),
+					'callback'            => array($this, 'rest_add_publish_override'),
+					'args'                => array(
+						'reason'      => array(
+							'type'     => 'string',
+							'required' => true,
+						),
+						'contentHash' => array(
+							'type'     => 'string',
+							'required' => true,
+						),
+						'issues'      => array(
+							'type'     => 'array',
+							'items'    => array('type' => 'string'),
+							'required' => false,
+						),
+					),
+				),
+			)
+		);
+
+		register_rest_route(
+			$this->plugin_name . '/v1',
+			'/bulk/posts',
+			array(
+				'methods'             => WP_REST_Server::READABLE,
+				'permission_callback' => function () {
+					return current_user_can('edit_others_posts');
+				},
+				'callback'            => array($this, 'rest_get_bulk_posts'),
+				'args'                => array(
+					'postType' => array(
+						'type'              => 'string',
+						'required'          => false,
+						'validate_callback' => array($this, 'validate_bulk_post_type'),
+					),
+					'status'   => array(
+						'type'     => 'string',
+						'required' => false,
+						'default'  => 'any',
+					),
+					'after'    => array(
+						'type'              => 'string',
+						'required'          => false,
+						'validate_callback' => array($this, 'validate_bulk_date'),
+					),
+					'before'   => array(
+						'type'              => 'string',
+						'required'          => false,
+						'validate_callback' => array($this, 'validate_bulk_date'),
+					),
+					'page'     => array(
+						'type'     => 'integer',
+						'required' => false,
+						'default'  => 1,
+						'minimum'  => 1,
+					),
+					'perPage'  => array(
+						'type'     => 'integer',
+						'required' => false,
+						'default'  => 100,
+						'minimum'  => 1,
+						'maximum'  => 500,
+					),
+				),
+			)
+		);
+	}
+
+	/**
+	 * Checks that the current user may edit the post addressed by a REST request.
+	 *
+	 * @param WP_REST_Request $request REST request with an `id` parameter.
+	 *
+	 * @return bool
+	 */
+	public function can_edit_post_from_request(WP_REST_Request $request)
+	{
+		return current_user_can('edit_post', (int) $request['id']);
+	}
+
+	/**
+	 * Returns the stored dismissals for a post.
+	 *
+	 * @param int $post_id Post ID.
+	 *
+	 * @return array<int, array<string, mixed>>
+	 */
+	private function get_dismissals($post_id)
+	{
+		$stored = get_post_meta($post_id, self::DISMISSALS_META_KEY, true);
+
+		return is_array($stored) ? array_values($stored) : array();
+	}
+
+	/**
+	 * REST callback: list dismissed violations for a post.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array|WP_Error
+	 */
+	public function rest_get_dismissals(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+
+		if (! get_post($post_id)) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_post',
+				__('Invalid post.', $this->plugin_name),
+				array('status' => 404)
+			);
+		}
+
+		return array(
+			'dismissals' => $this->get_dismissals($post_id),
+		);
+	}
+
+	/**
+	 * REST callback: dismiss a violation instance with a justification.
+	 *
+	 * A dismissal for the same instance key replaces the previous one.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array|WP_Error
+	 */
+	public function rest_add_dismissal(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+
+		if (! get_post($post_id)) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_post',
+				__('Invalid post.', $this->plugin_name),
+				array('status' => 404)
+			);
+		}
+
+		$reason = sanitize_textarea_field((string) $request->get_param('reason'));
+
+		if ('' === trim($reason)) {
+			return new WP_Error(
+				$this->plugin_name . '_missing_reason',
+				__('A reason is required to dismiss a violation.', $this->plugin_name),
+				array('status' => 400)
+			);
+		}
+
+		$user      = wp_get_current_user();
+		$dismissal = array(
+			'key'         => sanitize_text_field((string) $request->get_param('key')),
+			'ruleId'      => sanitize_text_field((string) $request->get_param('ruleId')),
+			'wpavId'      => sanitize_text_field((string) $request->get_param('wpavId')),
+			'target'      => sanitize_text_field((string) $request->get_param('target')),
+			'reason'      => $reason,
+			'blockHash'   => sanitize_text_field((string) $request->get_param('blockHash')),
+			'dismissedBy' => $user->display_name,
+			'userId'      => $user->ID,
+			'dismissedAt' => gmdate('c'),
+		);
+
+		$dismissals = array_values(
+			array_filter(
+				$this->get_dismissals($post_id),
+				function ($existing) use ($dismissal) {
+					return ! isset($existing['key']) || $existing['key'] !== $dismissal['key'];
+				}
+			)
+		);
+
+		$dismissals[] = $dismissal;
+
+		update_post_meta($post_id, self::DISMISSALS_META_KEY, wp_slash($dismissals));
+
+		return array(
+			'dismissals' => $dismissals,
+		);
+	}
+
+	/**
+	 * REST callback: remove dismissals by instance key.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array
+	 */
+	public function rest_remove_dismissals(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+		$keys    = array_map('sanitize_text_field', (array) $request->get_param('keys'));
+
+		$dismissals = array_values(
+			array_filter(
+				$this->get_dismissals($post_id),
+				function ($existing) use ($keys) {
+					return ! isset($existing['key']) || ! in_array($existing['key'], $keys, true);
+				}
+			)
+		);
+
+		update_post_meta($post_id, self::DISMISSALS_META_KEY, wp_slash($dismissals));
+
+		return array(
+			'dismissals' => $dismissals,
+		);
+	}
+
+	/**
+	 * Returns the stored review decisions for a post.
+	 *
+	 * @param int $post_id Post ID.
+	 *
+	 * @return array<int, array<string, mixed>>
+	 */
+	private function get_review_decisions($post_id)
+	{
+		$stored = get_post_meta($post_id, self::REVIEW_DECISIONS_META_KEY, true);
+
+		return is_array($stored) ? array_values($stored) : array();
+	}
+
+	/**
+	 * REST callback: list manual review decisions for a post.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array|WP_Error
+	 */
+	public function rest_get_review_decisions(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+
+		if (! get_post($post_id)) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_post',
+				__('Invalid post.', $this->plugin_name),
+				array('status' => 404)
+			);
+		}
+
+		return array(
+			'decisions' => $this->get_review_decisions($post_id),
+		);
+	}
+
+	/**
+	 * REST callback: record or clear manual review decisions.
+	 *
+	 * Decisions are keyed by violation instance key; a null decision clears
+	 * the stored one.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array|WP_Error
+	 */
+	public function rest_update_review_decisions(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+
+		if (! get_post($post_id)) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_post',
+				__('Invalid post.', $this->plugin_name),
+				array('status' => 404)
+			);
+		}
+
+		$changes = array();
+
+		foreach ((array) $request->get_param('decisions') as $key => $decision) {
+			$key = sanitize_text_field((string) $key);
+
+			if ('' !== $key) {
+				$changes[$key] = in_array($decision, array('passed', 'failed'), true) ? $decision : null;
+			}
+		}
+
+		$decisions = array_values(
+			array_filter(
+				$this->get_review_decisions($post_id),
+				function ($existing) use ($changes) {
+					return ! isset($existing['key']) || ! array_key_exists($existing['key'], $changes);
+				}
+			)
+		);
+
+		$user = wp_get_current_user();
+
+		foreach ($changes as $key => $decision) {
+			if (null === $decision) {
+				continue;
+			}
+
+			$decisions[] = array(
+				'key'        => $key,
+				'decision'   => $decision,
+				'reviewedBy' => $user->display_name,
+				'userId'     => $user->ID,
+				'reviewedAt' => gmdate('c'),
+			);
+		}
+
+		update_post_meta($post_id, self::REVIEW_DECISIONS_META_KEY, wp_slash($decisions));
+
+		return array(
+			'decisions' => $decisions,
+		);
+	}
+
+	/**
+	 * Returns the stored scan history for a post, newest first.
+	 *
+	 * @param int $post_id Post ID.
+	 *
+	 * @return array<int, array<string, mixed>>
+	 */
+	private function get_scan_history($post_id)
+	{
+		$stored = get_post_meta($post_id, self::SCAN_HISTORY_META_KEY, true);
+
+		return is_array($stored) ? array_values($stored) : array();
+	}
+
+	/**
+	 * REST callback: list the stored scan runs for a post.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array|WP_Error
+	 */
+	public function rest_get_scans(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+
+		if (! get_post($post_id)) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_post',
+				__('Invalid post.', $this->plugin_name),
+				array('status' => 404)
+			);
+		}
+
+		return array(
+			'scans' => $this->get_scan_history($post_id),
+		);
+	}
+
+	/**
+	 * REST callback: store a completed scan run for a post.
+	 *
+	 * The run is stamped with the current user and prepended to the history,
+	 * which is trimmed to the configured limit.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array|WP_Error
+	 */
+	public function rest_add_scan(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+
+		if (! get_post($post_id)) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_post',
+				__('Invalid post.', $this->plugin_name),
+				array('status' => 404)
+			);
+		}
+
+		$scan = $request->get_param('scan');
+
+		if (
+			! is_array($scan)
+			|| ! isset($scan['violations'], $scan['contentHash'], $scan['completedAt'])
+			|| ! is_array($scan['violations'])
+		) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_scan',
+				__('Invalid scan data.', $this->plugin_name),
+				array('status' => 400)
+			);
+		}
+
+		$user = wp_get_current_user();
+
+		$scan             = $this->sanitize_stored_scan($scan);
+		$scan['author']   = $user->display_name;
+		$scan['authorId'] = $user->ID;
+
+		/**
+		 * Filters the number of scan runs kept per post.
+		 *
+		 * @since 2.2.0
+		 *
+		 * @param int $limit   Number of runs to keep.
+		 * @param int $post_id Post ID.
+		 */
+		$limit = max(1, (int) apply_filters('wpav_scan_history_limit', self::SCAN_HISTORY_LIMIT, $post_id));
+
+		$history = array_slice(
+			array_merge(array($scan), $this->get_scan_history($post_id)),
+			0,
+			$limit
+		);
+
+		update_post_meta($post_id, self::SCAN_HISTORY_META_KEY, wp_slash($history));
+
+		return array(
+			'scans' => $history,
+		);
 	}
 
 	/**
-	 * Returns stored WCAG tags or defaults.
+	 * Sanitizes a scan run sent by the editor before it is stored.
 	 *
-	 * @return array<string>
+	 * Stored runs are shown to every editor of the post, so only known fields
+	 * are kept, URLs are limited to http(s) and the number and size of the
+	 * results are capped.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param array $scan Scan run from the request.
+	 *
+	 * @return array The sanitized scan run.
 	 */
-	private function get_selected_wcag_tags()
+	private function sanitize_stored_scan($scan)
 	{
-		$stored = get_option('wpav_wcag_tags');
+		$violations = array_slice(array_values($scan['violations']), 0, self::SCAN_MAX_VIOLATIONS);
 
-		if (! is_array($stored) || empty($stored)) {
-			return array_keys($this->wcag_options);
+		$sanitized = array(
+			'contentHash'   => sanitize_text_field((string) $scan['contentHash']),
+			'completedAt'   => sanitize_text_field((string) $scan['completedAt']),
+			'totalBlocks'   => isset($scan['totalBlocks']) ? absint($scan['totalBlocks']) : 0,
+			'scannedBlocks' => isset($scan['scannedBlocks']) ? absint($scan['scannedBlocks']) : 0,
+			'skippedBlocks' => isset($scan['skippedBlocks']) ? absint($scan['skippedBlocks']) : 0,
+			'violations'    => array_values(
+				array_filter(array_map(array($this, 'sanitize_stored_violation'), $violations))
+			),
+			'errors'        => $this->sanitize_string_list(isset($scan['errors']) ? $scan['errors'] : array()),
+			'wcagTags'      => $this->sanitize_string_list(isset($scan['wcagTags']) ? $scan['wcagTags'] : array()),
+			'axeVersion'    => isset($scan['axeVersion']) ? sanitize_text_field((string) $scan['axeVersion']) : '',
+			'viewports'     => isset($scan['viewports']) && is_array($scan['viewports'])
+				? array_values(array_map('absint', $scan['viewports']))
+				: array(),
+			'variants'      => isset($scan['variants']) && is_array($scan['variants'])
+				? array_values(array_map('sanitize_key', $scan['variants']))
+				: array(),
+			'renderMode'    => isset($scan['renderMode']) ? $this->sanitize_scan_render_mode($scan['renderMode']) : 'content',
+		);
+
+		if (isset($scan['structure']) && is_array($scan['structure'])) {
+			$sanitized['structure'] = $this->sanitize_stored_structure($scan['structure']);
+		}
+
+		if (isset($scan['dismissedViolations']) && is_array($scan['dismissedViolations'])) {
+			$dismissed = array_slice(array_values($scan['dismissedViolations']), 0, self::SCAN_MAX_VIOLATIONS);
+
+			$sanitized['dismissedViolations'] = array_values(
+				array_filter(array_map(array($this, 'sanitize_stored_violation'), $dismissed))
+			);
+		}
+
+		return $sanitized;
+	}
+
+	/**
+	 * Sanitizes one result of a stored scan run.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed $violation Result from the request.
+	 *
+	 * @return array|null The sanitized result, or null if it is not a result.
+	 */
+	private function sanitize_stored_violation($violation)
+	{
+		if (! is_array($violation) || empty($violation['id']) || ! isset($violation['nodes']) || ! is_array($violation['nodes'])) {
+			return null;
+		}
+
+		$nodes = array();
+
+		foreach (array_slice(array_values($violation['nodes']), 0, self::SCAN_MAX_NODES) as $node) {
+			if (! is_array($node)) {
+				continue;
+			}
+
+			$nodes[] = array(
+				'html'           => isset($node['html']) && is_string($node['html'])
+					? mb_substr(wp_check_invalid_utf8($node['html']), 0, self::SCAN_MAX_NODE_HTML_LENGTH)
+					: '',
+				'target'         => $this->sanitize_node_target(isset($node['target']) ? $node['target'] : array()),
+				'failureSummary' => isset($node['failureSummary']) ? sanitize_textarea_field((string) $node['failureSummary']) : '',
+				'impact'         => isset($node['impact']) ? $this->sanitize_enum($node['impact'], array('minor', 'moderate', 'serious', 'critical')) : null,
+			);
+		}
+
+		$sanitized = array(
+			'id'          => sanitize_text_field((string) $violation['id']),
+			'impact'      => isset($violation['impact']) ? $this->sanitize_enum($violation['impact'], array('minor', 'moderate', 'serious', 'critical')) : null,
+			'tags'        => $this->sanitize_string_list(isset($violation['tags']) ? $violation['tags'] : array()),
+			'description' => isset($violation['description']) ? sanitize_text_field((string) $violation['description']) : '',
+			'help'        => isset($violation['help']) ? sanitize_text_field((string) $violation['help']) : '',
+			'helpUrl'     => isset($violation['helpUrl']) ? $this->sanitize_http_url($violation['helpUrl']) : '',
+			'nodes'       => $nodes,
+		);
+
+		foreach (array('blockName', 'blockClientId', 'blockWpavId', 'nodeFingerprint') as $key) {
+			if (isset($violation[$key])) {
+				$sanitized[$key] = sanitize_text_field((string) $violation[$key]);
+			}
+		}
+
+		$enums = array(
+			'kind'           => array('violation', 'incomplete'),
+			'source'         => array('axe', 'editorial'),
+			'location'       => array('content', 'template'),
+			'unmappedReason' => array('no-marker', 'unknown-block', 'invalid-selector'),
+		);
+
+		foreach ($enums as $key => $allowed) {
+			if (isset($violation[$key]) && null !== $this->sanitize_enum($violation[$key], $allowed)) {
+				$sanitized[$key] = $violation[$key];
+			}
+		}
+
+		if (isset($violation['blockPath'])) {
+			$sanitized['blockPath'] = $this->sanitize_string_list($violation['blockPath']);
+		}
+
+		if (isset($violation['viewports']) && is_array($violation['viewports'])) {
+			$sanitized['viewports'] = array_values(array_map('absint', $violation['viewports']));
+		}
+
+		if (isset($violation['variants']) && is_array($violation['variants'])) {
+			$sanitized['variants'] = array_values(array_map('sanitize_key', $violation['variants']));
+		}
+
+		if (
+			isset($violation['syncedSource']['type'], $violation['syncedSource']['id'])
+			&& null !== $this->sanitize_enum($violation['syncedSource']['type'], array('pattern', 'template-part'))
+		) {
+			$source = $violation['syncedSource'];
+
+			$sanitized['syncedSource'] = array(
+				'type'    => $source['type'],
+				'id'      => sanitize_text_field((string) $source['id']),
+				'title'   => isset($source['title']) ? sanitize_text_field((string) $source['title']) : '',
+				'editUrl' => isset($source['editUrl']) ? $this->sanitize_http_url($source['editUrl']) : '',
+			);
+
+			if (isset($source['usage'])) {
+				$sanitized['syncedSource']['usage'] = absint($source['usage']);
+			}
+		}
+
+		return $sanitized;
+	}
+
+	/**
+	 * Sanitizes the heading outline and landmarks of a stored scan run.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param array $structure Structure from the request.
+	 *
+	 * @return array The sanitized structure.
+	 */
+	private function sanitize_stored_structure($structure)
+	{
+		$headings  = isset($structure['headings']) && is_array($structure['headings']) ? $structure['headings'] : array();
+		$landmarks = isset($structure['landmarks']) && is_array($structure['landmarks']) ? $structure['landmarks'] : array();
+
+		return array(
+			'headings'  => array_values(
+				array_map(
+					function ($heading) {
+						$heading = is_array($heading) ? $heading : array();
+
+						return array(
+							'level'       => isset($heading['level']) ? min(6, max(1, (int) $heading['level'])) : 1,
+							'text'        => isset($heading['text']) ? sanitize_text_field((string) $heading['text']) : '',
+							'blockWpavId' => isset($heading['blockWpavId']) ? sanitize_text_field((string) $heading['blockWpavId']) : null,
+							'isTitle'     => ! empty($heading['isTitle']),
+							'issues'      => isset($heading['issues']) && is_array($heading['issues'])
+								? array_values(array_map('sanitize_key', $heading['issues']))
+								: array(),
+						);
+					},
+					$headings
+				)
+			),
+			'landmarks' => array_values(
+				array_map(
+					function ($landmark) {
+						$landmark = is_array($landmark) ? $landmark : array();
+
+						return array(
+							'role'        => isset($landmark['role']) ? sanitize_key($landmark['role']) : '',
+							'label'       => isset($landmark['label']) ? sanitize_text_field((string) $landmark['label']) : '',
+							'blockWpavId' => isset($landmark['blockWpavId']) ? sanitize_text_field((string) $landmark['blockWpavId']) : null,
+						);
+					},
+					$landmarks
+				)
+			),
+		);
+	}
+
+	/**
+	 * Sanitizes the target selectors of an affected node.
+	 *
+	 * Selectors are strings, or lists of strings for nodes inside shadow DOM.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed $target Target from the request.
+	 *
+	 * @return array The sanitized selectors.
+	 */
+	private function sanitize_node_target($target)
+	{
+		if (! is_array($target)) {
+			return array();
 		}
 
 		return array_values(
-			array_intersect(
-				array_keys($this->wcag_options),
-				array_map('sanitize_key', $stored)
+			array_map(
+				function ($selector) {
+					return is_array($selector)
+						? $this->sanitize_string_list($selector)
+						: sanitize_text_field((string) $selector);
+				},
+				$target
 			)
 		);
 	}
 
 	/**
-	 * List of WCAG tags that axe supports.
+	 * Sanitizes a list of plain text values.
 	 *
-	 * @return array<string, string>
+	 * @since 2.2.0
+	 *
+	 * @param mixed $values Values from the request.
+	 *
+	 * @return string[] The sanitized values.
 	 */
-	private function get_wcag_options()
+	private function sanitize_string_list($values)
 	{
-		return array(
-			'wcag2a'   => __('WCAG 2.0 Level A', 'wp-accessibility-validator'),
-			'wcag2aa'  => __('WCAG 2.0 Level AA', 'wp-accessibility-validator'),
-			'wcag2aaa' => __('WCAG 2.0 Level AAA', 'wp-accessibility-validator'),
-			'wcag21a'  => __('WCAG 2.1 Level A', 'wp-accessibility-validator'),
-			'wcag21aa' => __('WCAG 2.1 Level AA', 'wp-accessibility-validator'),
-			'wcag22aa' => __('WCAG 2.2 Level AA', 'wp-accessibility-validator'),
-			'best-practice' => __('Best practices (non-WCAG)', 'wp-accessibility-validator'),
-			'review-item'   => __('Manual review items', 'wp-accessibility-validator'),
+		if (! is_array($values)) {
+			return array();
+		}
+
+		return array_values(
+			array_map(
+				function ($value) {
+					return sanitize_text_field(is_scalar($value) ? (string) $value : '');
+				},
+				$values
+			)
 		);
 	}
 
 	/**
-	 * Adds stable block IDs to rendered block HTML for accessibility scanning.
+	 * Returns a value if it is one of the allowed strings.
 	 *
-	 * Uses the persisted wpavId block attribute, which is assigned in the editor
-	 * and stored with the block content. When present, the value is exposed as a
-	 * data-wpav-block-id attribute on the first HTML tag of the rendered block.
+	 * @since 2.2.0
 	 *
-	 * @param string $block_content The block content.
-	 * @param array  $block         The block data.
+	 * @param mixed    $value   Value from the request.
+	 * @param string[] $allowed Allowed values.
 	 *
-	 * @return string Modified block content with stable IDs.
+	 * @return string|null The value, or null if it is not allowed.
 	 */
-	public function add_block_stable_id($block_content, $block)
+	private function sanitize_enum($value, $allowed)
 	{
-		// Only inject when the scan render explicitly requested IDs.
-		if (! self::$force_block_ids || ! $block_content || ! is_array($block)) {
-			return $block_content;
+		return is_string($value) && in_array($value, $allowed, true) ? $value : null;
+	}
+
+	/**
+	 * Sanitizes a URL, keeping only http(s) URLs.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed $url URL from the request.
+	 *
+	 * @return string The URL, or an empty string if it is not an http(s) URL.
+	 */
+	private function sanitize_http_url($url)
+	{
+		return is_string($url) ? esc_url_raw($url, array('http', 'https')) : '';
+	}
+
+	/**
+	 * Checks that the current user may override the publish gate for a post.
+	 *
+	 * @param WP_REST_Request $request REST request with an `id` parameter.
+	 *
+	 * @return bool
+	 */
+	public function can_override_publish_gate(WP_REST_Request $request)
+	{
+		$settings = $this->get_publish_gate_settings();
+
+		return $this->can_edit_post_from_request($request)
+			&& current_user_can($settings['overrideCapability']);
+	}
+
+	/**
+	 * Returns the recorded publish gate overrides for a post, newest first.
+	 *
+	 * @param int $post_id Post ID.
+	 *
+	 * @return array<int, array<string, mixed>>
+	 */
+	private function get_publish_overrides($post_id)
+	{
+		$stored = get_post_meta($post_id, self::PUBLISH_OVERRIDES_META_KEY, true);
+
+		return is_array($stored) ? array_values($stored) : array();
+	}
+
+	/**
+	 * REST callback: list publish gate overrides for a post.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array
+	 */
+	public function rest_get_publish_overrides(WP_REST_Request $request)
+	{
+		return array(
+			'overrides' => $this->get_publish_overrides((int) $request['id']),
+		);
+	}
+
+	/**
+	 * REST callback: record who overrode the publish gate and why.
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array|WP_Error
+	 */
+	public function rest_add_publish_override(WP_REST_Request $request)
+	{
+		$post_id = (int) $request['id'];
+
+		if (! get_post($post_id)) {
+			return new WP_Error(
+				$this->plugin_name . '_invalid_post',
+				__('Invalid post.', $this->plugin_name),
+				array('status' => 404)
+			);
 		}
 
-		$attribute_name = 'wpavId';
+		$reason = sanitize_textarea_field((string) $request->get_param('reason'));
 
-		if (empty($block['attrs'][$attribute_name])) {
-			return $block_content;
+		if ('' === trim($reason)) {
+			return new WP_Error(
+				$this->plugin_name . '_missing_reason',
+				__('A reason is required to override the publish gate.', $this->plugin_name),
+				array('status' => 400)
+			);
 		}
 
-		$block_id = sanitize_text_field($block['attrs'][$attribute_name]);
+		$user     = wp_get_current_user();
+		$override = array(
+			'reason'       => $reason,
+			'contentHash'  => sanitize_text_field((string) $request->get_param('contentHash')),
+			'issues'       => array_map('sanitize_text_field', (array) $request->get_param('issues')),
+			'overriddenBy' => $user->display_name,
+			'userId'       => $user->ID,
+			'overriddenAt' => gmdate('c'),
+		);
 
-		$processor = new WP_HTML_Tag_Processor($block_content);
+		$overrides = array_merge(array($override), $this->get_publish_overrides($post_id));
 
-		if (! $processor->next_tag()) {
-			return $block_content;
+		update_post_meta($post_id, self::PUBLISH_OVERRIDES_META_KEY, wp_slash($overrides));
+
+		return array(
+			'overrides' => $overrides,
+		);
+	}
+
+	/**
+	 * Validates a date filter of the bulk scan post list.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed           $value   Parameter value.
+	 * @param WP_REST_Request $request REST request.
+	 * @param string          $param   Parameter name.
+	 *
+	 * @return true|WP_Error True for an empty value or a valid YYYY-MM-DD date.
+	 */
+	public function validate_bulk_date($value, $request, $param)
+	{
+		if ('' === $value || null === $value) {
+			return true;
 		}
 
-		$processor->set_attribute('data-wpav-block-id', $block_id);
+		$date = is_string($value) ? DateTime::createFromFormat('!Y-m-d', $value) : false;
 
-		return $processor->get_updated_html();
+		if (! $date || $date->format('Y-m-d') !== $value) {
+			return new WP_Error(
+				'rest_invalid_param',
+				/* translators: %s: Parameter name. */
+				sprintf(__('%s must be a date in the format YYYY-MM-DD.', $this->plugin_name), $param),
+				array('status' => 400)
+			);
+		}
+
+		return true;
 	}
 
-	public function register_rest_routes()
+	/**
+	 * Validate the post type filter of the bulk posts route.
+	 *
+	 * Only post types that can be rendered and scanned are accepted.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param mixed           $value   Parameter value.
+	 * @param WP_REST_Request $request REST request.
+	 * @param string          $param   Parameter name.
+	 *
+	 * @return true|WP_Error True for an empty value or a scannable post type.
+	 */
+	public function validate_bulk_post_type($value, $request, $param)
 	{
-		register_rest_route(
-			$this->plugin_name . '/v1',
-			'/render/(?P<id>\d+)',
-			array(
-				'methods'             => 'POST',
-				'permission_callback' => function () {
-					// Only editors/authors etc. should call this.
-					return current_user_can('edit_posts');
-				},
-				'args'                => array(
-					'content' => array(
-						'type'     => 'string',
-						'required' => false,
-					),
-				),
-				'callback'            => function (WP_REST_Request $request) {
-					$post_id  = (int) $request['id'];
-					$content  = $request->get_param('content');
-					$post     = get_post($post_id);
+		if ('' === $value || null === $value) {
+			return true;
+		}
 
-					if (! $post) {
-						return new WP_Error(
-							$this->plugin_name . '_invalid_post',
-							__('Invalid post.', $this->plugin_name),
-							array('status' => 404)
-						);
-					}
+		if (! is_string($value) || ! array_key_exists($value, $this->get_scannable_post_types())) {
+			return new WP_Error(
+				'rest_invalid_param',
+				/* translators: %s: Parameter name. */
+				sprintf(__('%s must be a post type that can be scanned.', $this->plugin_name), $param),
+				array('status' => 400)
+			);
+		}
 
-					// Use edited content if provided, otherwise fall back to DB.
-					if ($content === null) {
-						$content = $post->post_content;
-					}
+		return true;
+	}
 
-					// Simulate the normal loop context so theme filters behave.
-					$GLOBALS['post'] = $post;
-					setup_postdata($post);
+	/**
+	 * REST callback: list posts to queue for a bulk scan.
+	 *
+	 * Without a post type filter, every scannable post type is listed.
+	 *
+	 * @since 2.2.0
+	 *
+	 * @param WP_REST_Request $request REST request.
+	 *
+	 * @return array
+	 */
+	public function rest_get_bulk_posts(WP_REST_Request $request)
+	{
+		$post_types = $request->get_param('postType')
+			? array(sanitize_key($request->get_param('postType')))
+			: array_keys($this->get_scannable_post_types());
 
-					// 🔴 Force block IDs for this render only.
-					self::$force_block_ids = true;
+		if (empty($post_types)) {
+			return array(
+				'posts'      => array(),
+				'total'      => 0,
+				'totalPages' => 0,
+			);
+		}
 
-					/**
-					 * the_content hook calls do_blocks() internally, which uses
-					 * parse_blocks() + render_block() to build the HTML.
-					 * See docs for do_blocks/render_block/parse_blocks.
-					 */
-					$html = apply_filters('the_content', $content);
+		$query_args = array(
+			'post_type'      => $post_types,
+			'post_status'    => sanitize_key($request->get_param('status')),
+			'posts_per_page' => (int) $request->get_param('perPage'),
+			'paged'          => (int) $request->get_param('page'),
+			'orderby'        => 'date',
+			'order'          => 'DESC',
+			'perm'           => 'editable',
+			'no_found_rows'  => false,
+		);
 
-					self::$force_block_ids = false;
+		$date_query = array();
+		if ($request->get_param('after')) {
+			$date_query['after'] = $request->get_param('after');
+		}
+		if ($request->get_param('before')) {
+			$date_query['before'] = $request->get_param('before');
+		}
+		if (! empty($date_query)) {
+			$date_query['inclusive']  = true;
+			$query_args['date_query'] = array($date_query);
+		}
 
-					wp_reset_postdata();
+		$query = new WP_Query($query_args);
 
-					return array(
-						'html' => $html,
-					);
-				},
-			)
+		$posts = array_map(
+			function ($post) {
+				return array(
+					'id'       => $post->ID,
+					'title'    => html_entity_decode(get_the_title($post), ENT_QUOTES, get_bloginfo('charset')),
+					'type'     => $post->post_type,
+					'status'   => $post->post_status,
+					'date'     => mysql_to_rfc3339($post->post_date),
+					'editLink' => (string) get_edit_post_link($post->ID, 'raw'),
+					'scanSettings' => $this->get_resolved_scan_settings($post->post_type),
+				);
+			},
+			$query->posts
+		);
+
+		return array(
+			'posts'      => $posts,
+			'total'      => (int) $query->found_posts,
+			'totalPages' => (int) $query->max_num_pages,
 		);
 	}
 }
@@ -0,0 +1,20 @@
+/**
+ * WP Accessibility Validator bulk scan dashboard.
+ *
+ * Mounts the site-wide bulk scanning dashboard on its wp-admin page.
+ * Styles come from the editor stylesheet, which the page also enqueues.
+ */
+
+import { createElement, createRoot } from '@wordpress/element';
+
+import { BulkScanDashboard } from './components/BulkScanDashboard';
+import { registerA11yRule, unregisterA11yRule } from './utils/customRules';
+
+// Expose the custom rule API to themes and plugins
+window.wpav = { ...(window.wpav || {}), registerA11yRule, unregisterA11yRule };
+
+const root = document.getElementById('wpav-bulk-scan-root');
+
+if (root) {
+  createRoot(root).render(<BulkScanDashboard />);
+}
@@ -9,25 +9,37 @@ import {
   useMemo,
   useEffect,
   useRef,
+  useState,
 } from '@wordpress/element';
-import { useSelect } from '@wordpress/data';
+import { dispatch, select, useSelect } from '@wordpress/data';
 import { serialize } from '@wordpress/blocks';
 import {
+  PluginBlockSettingsMenuItem,
   PluginDocumentSettingPanel,
   PluginPostStatusInfo,
   PluginPrePublishPanel,
 } from '@wordpress/editor';
 import {
   Button,
-  Card,
-  CardBody,
   Notice,
   PanelBody,
+  SelectControl,
   Spinner,
+  TabPanel,
+  TextControl,
+  ToggleControl,
 } from '@wordpress/components';
 import { Icon } from '@wordpress/icons';
 import universalAccessIcon from '../icons/universal-access-icon';
-import type { WPEditorStore, WPBlockEditorStore, WPBlock } from '../types';
+import type {
+  WPEditorStore,
+  WPBlockEditorStore,
+  WPBlock,
+  ScanDiffFilter,
+  ScanVariant,
+  StoredScan,
+  ViolationGrouping,
+} from '../types';
 import {
   useHeaderButtonSlot,
   useStoredScan,
@@ -35,14 +47,48 @@ import {
   useBlockViolations,
   useEditorReady,
   usePreviewUrlWithNonce,
+  useReviewDecisions,
+  useDismissals,
+  useCurrentBlocks,
+  usePublishGate,
+  useLiveScan,
 } from '../hooks';
 import {
   getAvailableWcagLabels,
   getConfiguredWcagTags,
   formatWcagLabelList,
-  focusBlockById,
+  getViolationInstanceKey,
+  diffScans,
+  matchesViolationFilter,
+  formatScanDuration,
+  getTotalScanDuration,
+  getAxeRuleSettings,
+  getScanProfile,
+  countHeadingIssues,
+  formatViewport,
+  matchesViewport,
+  formatScanVariant,
+  formatRenderMode,
+  getViolationBlockLabel,
+  groupSyncedFindings,
+  haveSameWcagTags,
+  matchesScanVariant,
+  applyDismissals,
+  findDismissal,
+  isTemplateIssue,
+  isUnmappedFinding,
+  resolveViolationKind,
 } from '../utils';
-import { PANEL_NAME, CSS_CLASSES, DATA_ATTRIBUTES } from '../constants';
+import { PANEL_NAME, STORE_NAME, CSS_CLASSES } from '../constants';
+import { ViolationCard } from './ViolationCard';
+import { SyncedFindings } from './SyncedFindings';
+import { PublishGateStatus } from './PublishGateStatus';
+import { ScanDiffSummary } from './ScanDiffSummary';
+import { ExportScanMenu } from './ExportScanMenu';
+import { ScanProgressStatus } from './ScanProgressStatus';
+import { AdHocScanControl } from './AdHocScanControl';
+import { DocumentStructurePanel } from './DocumentStructurePanel';
+import { VisualPreviewModal } from './VisualPreviewModal';
 
 /**
  * Accessibility Checker Sidebar Component.
@@ -56,6 +102,8 @@ export const AccessibilityCheckerSidebar = () => {
     const text = formatWcagLabelList(activeWcagTags, wcagLabelMap);
     return text || 'All available WCAG guidelines';
   }, [activeWcagTags, wcagLabelMap]);
+  const axeRuleSettings = useMemo(() => getAxeRuleSettings(), []);
+  const scanProfile = useMemo(() => getScanProfile(), []);
 
   // Blocks (content snapshot)
   const { blocks } = useSelect((selectFn) => {
@@ -68,6 +116,16 @@ export const AccessibilityCheckerSidebar = () => {
     };
   }, []);
 
+  // Post details for exported reports
+  const { postTitle, postUrl } = useSelect((selectFn) => {
+    const editorStore = selectFn('core/editor') as Partial<WPEditorStore>;
+
+    return {
+      postTitle: String(editorStore?.getEditedPostAttribute?.('title') ?? ''),
+      postUrl: editorStore?.getPermalink?.() ?? undefined,
+    };
+  }, []);
+
   // Check if all blocks have a wpavId attribute
   const allBlocksHaveIds = useMemo(() => {
     const typedBlocks = blocks as WPBlock[];
@@ -88,10 +146,17 @@ export const AccessibilityCheckerSidebar = () => {
   const headerSlot = useHeaderButtonSlot();
 
   // Stored scan management
-  const { storedScan, isScanStale, persistScan } = useStoredScan(
-    postId,
-    contentSnapshot
-  );
+  const {
+    storedScan,
+    history,
+    isScanStale,
+    hasTagChange,
+    contentHash,
+    persistScan,
+  } = useStoredScan(postId, contentSnapshot, activeWcagTags);
+
+  // Viewport filter of the results; block rescans run at this width
+  const [selectedViewport, setViewportFilter] = useState<number | null>(null);
 
   // Scan execution
   const {
@@ -100,11 +165,18 @@ export const AccessibilityCheckerSidebar = () => {
     runError,
     completedAt,
     handleScanClick,
+    handleAdHocScan,
+    runLiveScan,
+    cancelScan,
+    handleCancelClick,
+    scanProgress,
+    lastScanTimings,
     setScanSummary,
     setCompletedAt,
   } = useAccessibilityScan({
     contentSnapshot,
     persistScan,
+    activeViewport: selectedViewport,
   });
 
   // Track whether we've auto-run the scan for this editor session/post
@@ -115,7 +187,13 @@ export const AccessibilityCheckerSidebar = () => {
     // - the editor is ready
     // - all blocks have a stable wpavId assigned
     // - we haven't already auto-run for this session
-    if (!isEditorReady || hasAutoRunRef.current || !allBlocksHaveIds) {
+    // - the scan profile, if any, allows automatic scans
+    if (
+      !isEditorReady ||
+      hasAutoRunRef.current ||
+      !allBlocksHaveIds ||
+      scanProfile?.autoScan === false
+    ) {
       return;
     }
 
@@ -127,20 +205,220 @@ export const AccessibilityCheckerSidebar = () => {
     return () => {
       window.clearTimeout(timeoutId);
     };
-  }, [isEditorReady, allBlocksHaveIds, handleScanClick]);
+  }, [isEditorReady, allBlocksHaveIds, handleScanClick, scanProfile]);
 
   const scanDisabled = isScanning || !isEditorReady || !allBlocksHaveIds;
 
-  // Load stored scan on mount
+  // Live mode: rescan automatically once editing pauses
+  const { isLiveScanEnabled, setLiveScanEnabled } = useLiveScan({
+    isAvailable: isEditorReady && allBlocksHaveIds,
+    contentHash,
+    scannedHash: storedScan?.contentHash ?? null,
+    runLiveScan,
+    cancelScan,
+  });
+
+  // Load the stored scan on mount, or when a newer one arrives from the server
   useMemo(() => {
-    if (storedScan && !scanSummary) {
+    if (!storedScan) {
+      return;
+    }
+
+    const storedCompletedAt = new Date(storedScan.completedAt);
+
+    if (!scanSummary || (completedAt && storedCompletedAt > completedAt)) {
       setScanSummary(storedScan);
-      setCompletedAt(new Date(storedScan.completedAt));
+      setCompletedAt(storedCompletedAt);
     }
-  }, [storedScan, scanSummary, setScanSummary, setCompletedAt]);
+  }, [storedScan, scanSummary, completedAt, setScanSummary, setCompletedAt]);
+
+  // Results of a one-off scan with other guidelines are not stored
+  const isAdHocResult =
+    !!scanSummary?.wcagTags &&
+    scanSummary !== storedScan &&
+    !haveSameWcagTags(scanSummary.wcagTags, activeWcagTags);
+
+  // Manual review decisions for "needs review" results
+  useReviewDecisions(postId);
+
+  // Dismissed ("won't fix") violations stored in post meta
+  const flattenedBlocks = useCurrentBlocks();
+  const dismissals = useDismissals(postId, flattenedBlocks);
+
+  // Dismissals recorded since the scan ran apply right away
+  const currentScan = useMemo(
+    () => (scanSummary ? applyDismissals(scanSummary, dismissals) : null),
+    [scanSummary, dismissals]
+  );
 
   // Block violation tracking
-  const { violationsByBlock } = useBlockViolations(scanSummary);
+  const {
+    violations,
+    reviewItems,
+    passedReviewItems,
+    dismissedViolations,
+    templateIssues,
+    unmappedFindings,
+    violationsByBlock,
+    violationsByRule,
+    violationsByImpact,
+    violationsByCriterion,
+    reviewItemsByBlock,
+    reviewDecisions,
+  } = useBlockViolations(currentScan);
+
+  // Result grouping and text filter
+  const [grouping, setGrouping] = useState<ViolationGrouping>('block');
+  const [filterText, setFilterText] = useState('');
+  const scannedViewports = scanSummary?.viewports ?? [];
+  // A new scan may not include the selected viewport.
+  const viewportFilter =
+    selectedViewport !== null && scannedViewports.includes(selectedViewport)
+      ? selectedViewport
+      : null;
+  const [selectedVariant, setVariantFilter] = useState<ScanVariant | null>(
+    null
+  );
+  const scannedVariants = scanSummary?.variants ?? [];
+  const variantFilter =
+    selectedVariant !== null && scannedVariants.includes(selectedVariant)
+      ? selectedVariant
+      : null;
+
+  const violationGroups = {
+    block: violationsByBlock,
+    rule: violationsByRule,
+    impact: violationsByImpact,
+    criterion: violationsByCriterion,
+  }[grouping];
+
+  // Visual preview of the results on the rendered post
+  const [isVisualPreviewOpen, setIsVisualPreviewOpen] = useState(false);
+
+  // Diff against the previous scan run
+  const [diffFilter, setDiffFilter] = useState<ScanDiffFilter>('all');
+
+  const scanDiff = useMemo(() => {
+    if (!currentScan || !completedAt) {
+      return null;
+    }
+
+    const previousScan = history.find(
+      (run) => Date.parse(run.completedAt) < completedAt.getTime()
+    );
+
+    return previousScan
+      ? diffScans(currentScan, applyDismissals(previousScan, dismissals))
+      : null;
+  }, [currentScan, completedAt, history, dismissals]);
+
+  // Scan data and post details offered by the export menu
+  const exportableScan = useMemo<StoredScan | null>(() => {
+    if (!currentScan) {
+      return null;
+    }
+
+    return {
+      ...currentScan,
+      contentHash: storedScan?.contentHash ?? contentHash,
+      completedAt: (completedAt ?? new Date()).toISOString(),
+    };
+  }, [currentScan, storedScan, contentHash, completedAt]);
+
+  const exportContext = useMemo(
+    () => ({
+      postTitle: postTitle || `Post ${postId ?? ''}`.trim(),
+      postUrl,
+      wcagLabels: wcagLabelMap,
+    }),
+    [postTitle, postUrl, postId, wcagLabelMap]
+  );
+
+  const visibleViolationGroups = useMemo(() => {
+    const diffKeys =
+      scanDiff && (diffFilter === 'new' || diffFilter === 'unchanged')
+        ? new Set(
+            (diffFilter === 'new' ? scanDiff.added : scanDiff.unchanged).map(
+              getViolationInstanceKey
+            )
+          )
+        : null;
+
+    if (
+      !diffKeys &&
+      !filterText.trim() &&
+      viewportFilter === null &&
+      variantFilter === null
+    ) {
+      return violationGroups;
+    }
+
+    return violationGroups
+      .map((group) => ({
+        ...group,
+        violations: group.violations.filter(
+          (violation) =>
+            (!diffKeys || diffKeys.has(getViolationInstanceKey(violation))) &&
+            matchesViolationFilter(violation, filterText) &&
+            matchesViewport(violation, viewportFilter) &&
+            matchesScanVariant(violation, variantFilter)
+        ),
+      }))
+      .filter((group) => group.violations.length > 0);
+  }, [
+    scanDiff,
+    diffFilter,
+    filterText,
+    viewportFilter,
+    variantFilter,
+    violationGroups,
+  ]);
+
+  // Results in synced patterns, reported once per pattern
+  const syncedPatternGroups = useMemo(
+    () =>
+      groupSyncedFindings(
+        [
+          {
+            postId: postId ?? 0,
+            violations: [...violations, ...reviewItems, ...unmappedFindings],
+          },
+        ],
+        'pattern'
+      ),
+    [postId, violations, reviewItems, unmappedFindings]
+  );
+
+  const headingIssueCount = useMemo(
+    () => countHeadingIssues(scanSummary?.structure),
+    [scanSummary]
+  );
+
+  // A one-off scan with other guidelines never clears the gate, so the gate
+  // checks the stored scan, which ran with the configured guidelines.
+  const gateViolations = useMemo(() => {
+    if (!isAdHocResult) {
+      return violations;
+    }
+
+    return storedScan
+      ? applyDismissals(storedScan, dismissals).violations.filter(
+          (violation) =>
+            !isTemplateIssue(violation) &&
+            !isUnmappedFinding(violation) &&
+            resolveViolationKind(violation, reviewDecisions) === 'violation'
+        )
+      : [];
+  }, [isAdHocResult, violations, storedScan, dismissals, reviewDecisions]);
+
+  // Publish gate policy
+  const publishGate = usePublishGate({
+    postId,
+    violations: gateViolations,
+    hasScan: isAdHocResult ? !!storedScan : !!scanSummary,
+    isScanStale: !!storedScan && isScanStale,
+    contentHash,
+  });
 
   return (
     <Fragment>
@@ -172,6 +450,23 @@ export const AccessibilityCheckerSidebar = () => {
         </PluginPostStatusInfo>
       )}
 
+      {/* Block settings menu: rescan the selected block only */}
+      {scanSummary && (
+        <PluginBlockSettingsMenuItem
+          icon={<Icon icon={universalAccessIcon} />}
+          label="Rescan this block"
+          onClick={() => {
+            const clientId = (
+              select('core/block-editor') as WPBlockEditorStore
+            ).getSelectedBlockClientId();
+
+            if (clientId) {
+              (dispatch(STORE_NAME) as any).requestBlockRescan(clientId);
+            }
+          }}
+        />
+      )}
+
       {/* Document settings panel */}
       <PluginDocumentSettingPanel
         name={PANEL_NAME}
@@ -186,9 +481,10 @@ export const AccessibilityCheckerSidebar = () => {
           aria-live="polite"
         >
           {isScanning && (
-            <Notice status="info" isDismissible={false}>
-              Running accessibility scan…
-            </Notice>
+            <ScanProgressStatus
+              progress={scanProgress}
+              onCancel={handleCancelClick}
+            />
           )}
 
           {!isEditorReady && (
@@ -212,13 +508,50 @@ export const AccessibilityCheckerSidebar = () => {
           )}
         </div>
 
+        {/* Publish gate */}
+        {publishGate.isEnabled && <PublishGateStatus {...publishGate} />}
+
         {/* WCAG filter info */}
         <div className={CSS_CLASSES.panelFilters}>
+          {scanProfile && (
+            <p>
+              <strong>Scan profile:</strong> {scanProfile.name}
+              {scanProfile.minImpact !== 'minor' &&
+                ` (reporting ${scanProfile.minImpact} impact and above)`}
+            </p>
+          )}
           <p>
             <strong>Active WCAG filters:</strong> {wcagLabelText}
           </p>
+          {axeRuleSettings.disabled.length > 0 && (
+            <p>
+              <strong>Skipped rules:</strong>{' '}
+              {axeRuleSettings.disabled.join(', ')}
+            </p>
+          )}
+          {axeRuleSettings.enabled.length > 0 && (
+            <p>
+              <strong>Always-enabled rules:</strong>{' '}
+              {axeRuleSettings.enabled.join(', ')}
+            </p>
+          )}
+          <AdHocScanControl
+            labels={wcagLabelMap}
+            configuredTags={activeWcagTags}
+            disabled={scanDisabled}
+            onRun={handleAdHocScan}
+          />
         </div>
 
+        {/* Live mode */}
+        <ToggleControl
+          label="Live mode"
+          help="Rescan automatically when you pause editing."
+          checked={isLiveScanEnabled}
+          onChange={setLiveScanEnabled}
+          __nextHasNoMarginBottom
+        />
+
         {/* Results */}
         <div className={CSS_CLASSES.panelContent}>
           {scanSummary ? (
@@ -235,111 +568,472 @@ export const AccessibilityCheckerSidebar = () => {
                   <strong>Skipped:</strong> {scanSummary.skippedBlocks}
                 </p>
                 <p>
-                  <strong>Violations:</strong> {scanSummary.violations.length}
+                  <strong>Violations:</strong> {violations.length}
                 </p>
+                <p>
+                  <strong>Needs review:</strong> {reviewItems.length}
+                </p>
+                {passedReviewItems.length > 0 && (
+                  <p>
+                    <strong>Reviewed as passed:</strong>{' '}
+                    {passedReviewItems.length}
+                  </p>
+                )}
+                {dismissedViolations.length > 0 && (
+                  <p>
+                    <strong>Dismissed:</strong> {dismissedViolations.length}
+                  </p>
+                )}
+                {unmappedFindings.length > 0 && (
+                  <p>
+                    <strong>Unmapped:</strong> {unmappedFindings.length}
+                  </p>
+                )}
+                {scanSummary.renderMode === 'full-page' && (
+                  <p>
+                    <strong>Template issues:</strong> {templateIssues.length}
+                  </p>
+                )}
                 {completedAt && (
                   <p>
                     <strong>Last run:</strong>{' '}
                     {completedAt.toLocaleTimeString()}
                   </p>
                 )}
+                {lastScanTimings && (
+                  <p>
+                    <strong>Duration:</strong>{' '}
+                    {formatScanDuration(getTotalScanDuration(lastScanTimings))}
+                  </p>
+                )}
+                {scanSummary.wcagTags && (
+                  <p>
+                    <strong>Standard:</strong>{' '}
+                    {formatWcagLabelList(scanSummary.wcagTags, wcagLabelMap) ||
+                      'All available WCAG guidelines'}
+                  </p>
+                )}
+                {scannedViewports.length > 0 && (
+                  <p>
+                    <strong>Viewports:</strong>{' '}
+                    {scannedViewports.map(formatViewport).join(', ')}
+                  </p>
+                )}
+                {scanSummary.renderMode && (
+                  <p>
+                    <strong>Rendered:</strong>{' '}
+                    {formatRenderMode(scanSummary.renderMode)}
+                  </p>
+                )}
+                {scannedVariants.length > 1 && (
+                  <p>
+                    <strong>Color variants:</strong>{' '}
+                    {scannedVariants.map(formatScanVariant).join(', ')}
+                  </p>
+                )}
+                {scanSummary.axeVersion && (
+                  <p>
+                    <strong>Engine:</strong> axe-core {scanSummary.axeVersion}
+                  </p>
+                )}
               </div>
 
-              {/* Staleness warning */}
-              {storedScan && isScanStale && (
-                <Notice status="info" isDismissible={false}>
-                  The post has changed since the last scan. Run the checker
-                  again to refresh these results.
-                </Notice>
+              {exportableScan && (
+                <div className={CSS_CLASSES.export}>
+                  <span>Export results</span>
+                  <ExportScanMenu
+                    scan={exportableScan}
+                    context={exportContext}
+                    postId={postId}
+                  />
+                </div>
               )}
 
-              {/* Results or success message */}
-              {scanSummary.violations.length === 0 ? (
-                <Notice status="success" isDismissible={false}>
-                  No accessibility violations were detected in the scanned
-                  blocks.
-                </Notice>
-              ) : (
-                <>
-                  <Notice status="warning" isDismissible={false}>
-                    Found {scanSummary.violations.length} violation
-                    {scanSummary.violations.length === 1 ? '' : 's'} across{' '}
-                    {violationsByBlock.length} block
-                    {violationsByBlock.length === 1 ? '' : 's'}.
-                  </Notice>
+              {violations.length +
+                reviewItems.length +
+                templateIssues.length +
+                unmappedFindings.length >
+                0 && (
+                <Button
+                  variant="secondary"
+                  onClick={() => setIsVisualPreviewOpen(true)}
+                >
+                  Visual preview
+                </Button>
+              )}
 
-                  {/* Violation details by block */}
-                  {violationsByBlock.map(({ key, label, violations }) => (
-                    <PanelBody
-                      key={key}
-                      title={`${label} (${violations.length})`}
-                      initialOpen={false}
-                    >
-                      {violations.map((violation, index) => (
-                        <Card
-                          key={`${violation.id}-${index}`}
-                          {...{ [DATA_ATTRIBUTES.violationId]: violation.id }}
-                        >
-                          <CardBody>
-                            <p>
-                              <strong>{violation.help}</strong>
-                            </p>
-                            <p>{violation.description}</p>
-                            <p>
-                              <strong>Impact:</strong>{' '}
-                              {violation.impact || 'Not provided'}
-                            </p>
-                            <div>
-                              <strong>Affected elements:</strong>
-                              <ul>
-                                {violation.nodes.map((node, nodeIndex) => (
-                                  <li key={nodeIndex}>
-                                    <code>
-                                      {node.target?.join(' ') ||
-                                        node.html ||
-                                        'Unknown'}
-                                    </code>
-                                  </li>
-                                ))}
-                              </ul>
-                            </div>
-                            <div className={CSS_CLASSES.cardActions}>
-                              <Button
-                                onClick={() =>
-                                  focusBlockById(violation.blockClientId)
-                                }
-                                variant="primary"
-                              >
-                                Go to block
-                              </Button>
-                              <Button
-                                href={violation.helpUrl}
-                                target="_blank"
-                                rel="noreferrer noopener"
-                                variant="secondary"
-                              >
-                                View fix guidance
-                              </Button>
-                            </div>
-                          </CardBody>
-                        </Card>
-                      ))}
-                    </PanelBody>
-                  ))}
-                </>
+              {isVisualPreviewOpen && (
+                <VisualPreviewModal
+                  violations={[
+                    ...violations,
+                    ...reviewItems,
+                    ...templateIssues,
+                    ...unmappedFindings,
+                  ]}
+                  isScanStale={!!storedScan && isScanStale}
+                  renderMode={scanSummary.renderMode}
+                  onClose={() => setIsVisualPreviewOpen(false)}
+                />
               )}
 
-              {/* Error list */}
-              {scanSummary.errors.length > 0 && (
+              {isAdHocResult && (
                 <Notice status="info" isDismissible={false}>
-                  <strong>Some blocks were skipped:</strong>
-                  <ul>
-                    {scanSummary.errors.map((message, index) => (
-                      <li key={index}>{message}</li>
-                    ))}
-                  </ul>
+                  These results come from a one-off scan with other
+                  guidelines. They are not saved; run the checker again to
+                  scan against {wcagLabelText}.
                 </Notice>
               )}
+
+              {/* Staleness warning */}
+              {!isAdHocResult &&
+                storedScan &&
+                isScanStale &&
+                (storedScan.contentHash === contentHash && hasTagChange ? (
+                  <Notice status="info" isDismissible={false}>
+                    These results used different WCAG guidelines than the site
+                    setting. Run the checker again to scan against{' '}
+                    {wcagLabelText}.
+                  </Notice>
+                ) : (
+                  <Notice status="info" isDismissible={false}>
+                    The post has changed since the last scan. Run the checker
+                    again to refresh these results.
+                  </Notice>
+                ))}
+
+              {/* Issues and document structure */}
+              <TabPanel
+                className={CSS_CLASSES.resultTabs}
+                tabs={[
+                  { name: 'issues', title: 'Issues' },
+                  {
+                    name: 'structure',
+                    title:
+                      headingIssueCount > 0
+                        ? `Structure (${headingIssueCount})`
+                        : 'Structure',
+                  },
+                ]}
+              >
+                {(tab: { name: string }) =>
+                  tab.name === 'structure' ? (
+                    <DocumentStructurePanel
+                      structure={scanSummary.structure}
+                    />
+                  ) : (
+                    <>
+                      {/* Changes since the previous scan */}
+                      {scanDiff && (
+                        <ScanDiffSummary
+                          diff={scanDiff}
+                          filter={diffFilter}
+                          onFilterChange={setDiffFilter}
+                        />
+                      )}
+
+                      {/* Results or success message */}
+                      {violations.length === 0 ? (
+                        <Notice status="success" isDismissible={false}>
+                          No accessibility violations were detected in the scanned
+                          blocks.
+                        </Notice>
+                      ) : (
+                        <>
+                          <Notice status="warning" isDismissible={false}>
+                            Found {violations.length} violation
+                            {violations.length === 1 ? '' : 's'} across{' '}
+                            {violationsByBlock.length} block
+                            {violationsByBlock.length === 1 ? '' : 's'}.
+                          </Notice>
+
+                          {/* Grouping and filtering */}
+                          <div className={CSS_CLASSES.resultControls}>
+                            <SelectControl
+                              label="Group results by"
+                              value={grouping}
+                              options={[
+                                { label: 'Block', value: 'block' },
+                                { label: 'Rule', value: 'rule' },
+                                { label: 'Impact', value: 'impact' },
+                                { label: 'WCAG success criterion', value: 'criterion' },
+                              ]}
+                              onChange={(value: string) =>
+                                setGrouping(value as ViolationGrouping)
+                              }
+                              __nextHasNoMarginBottom
+                            />
+                            <TextControl
+                              label="Filter results"
+                              type="search"
+                              value={filterText}
+                              onChange={(value: string) => setFilterText(value)}
+                              __nextHasNoMarginBottom
+                            />
+                            {scannedViewports.length > 1 && (
+                              <SelectControl
+                                label="Viewport"
+                                value={
+                                  viewportFilter === null
+                                    ? ''
+                                    : String(viewportFilter)
+                                }
+                                options={[
+                                  { label: 'All viewports', value: '' },
+                                  ...scannedViewports.map((width) => ({
+                                    label: formatViewport(width),
+                                    value: String(width),
+                                  })),
+                                ]}
+                                onChange={(value: string) =>
+                                  setViewportFilter(value ? Number(value) : null)
+                                }
+                                __nextHasNoMarginBottom
+                              />
+                            )}
+                            {scannedVariants.length > 1 && (
+                              <SelectControl
+                                label="Color variant"
+                                value={variantFilter ?? ''}
+                                options={[
+                                  { label: 'All color variants', value: '' },
+                                  ...scannedVariants.map((variant) => ({
+                                    label: formatScanVariant(variant),
+                                    value: variant,
+                                  })),
+                                ]}
+                                onChange={(value: string) =>
+                                  setVariantFilter(
+                                    value ? (value as ScanVariant) : null
+                                  )
+                                }
+                                __nextHasNoMarginBottom
+                              />
+                            )}
+                          </div>
+
+                          {diffFilter !== 'fixed' &&
+                            (filterText.trim() ||
+                              viewportFilter !== null ||
+                              variantFilter !== null) &&
+                            visibleViolationGroups.length === 0 && (
+                              <p>No violations match the current filter.</p>
+                            )}
+
+                          {/* Violation details by group */}
+                          {diffFilter !== 'fixed' &&
+                            visibleViolationGroups.map(
+                              ({ key, label, violations }) => (
+                                <PanelBody
+                                  key={key}
+                                  title={`${label} (${violations.length})`}
+                                  initialOpen={false}
+                                >
+                                  {violations.map((violation, index) => (
+                                    <ViolationCard
+                                      key={`${violation.id}-${index}`}
+                                      violation={violation}
+                                      showBlockName={grouping !== 'block'}
+                                      reviewDecision={
+                                        reviewDecisions[
+                                          getViolationInstanceKey(violation)
+                                        ]
+                                      }
+                                    />
+                                  ))}
+                                </PanelBody>
+                              )
+                            )}
+                        </>
+                      )}
+
+                      {/* Violations fixed since the previous scan */}
+                      {scanDiff && diffFilter === 'fixed' && (
+                        <PanelBody
+                          title={`Fixed since previous scan (${scanDiff.fixed.length})`}
+                        >
+                          {scanDiff.fixed.length === 0 ? (
+                            <p>No violations were fixed since the previous scan.</p>
+                          ) : (
+                            <ul>
+                              {scanDiff.fixed.map((violation, index) => (
+                                <li key={`${violation.id}-${index}`}>
+                                  <strong>{violation.help}</strong>
+                                  {violation.blockName &&
+                                    ` (${getViolationBlockLabel(violation)})`}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </PanelBody>
+                      )}
+
+                      {/* Results that need manual review */}
+                      {reviewItems.length > 0 && (
+                        <>
+                          <h3>Needs review</h3>
+                          <Notice status="info" isDismissible={false}>
+                            {reviewItems.length} result
+                            {reviewItems.length === 1 ? '' : 's'} could not be
+                            verified automatically. Check each one and mark it as
+                            passed or failed.
+                          </Notice>
+
+                          {reviewItemsByBlock.map(({ key, label, violations }) => (
+                            <PanelBody
+                              key={`review-${key}`}
+                              title={`${label} (${violations.length})`}
+                              initialOpen={false}
+                            >
+                              {violations.map((violation, index) => (
+                                <ViolationCard
+                                  key={`${violation.id}-${index}`}
+                                  violation={violation}
+                                />
+                              ))}
+                            </PanelBody>
+                          ))}
+                        </>
+                      )}
+
+                      {/* Review items marked as passed */}
+                      {passedReviewItems.length > 0 && (
+                        <PanelBody
+                          title={`Reviewed as passed (${passedReviewItems.length})`}
+                          initialOpen={false}
+                        >
+                          {passedReviewItems.map((violation, index) => (
+                            <ViolationCard
+                              key={`${violation.id}-${index}`}
+                              violation={violation}
+                              reviewDecision="passed"
+                            />
+                          ))}
+                        </PanelBody>
+                      )}
+
+                      {/* Results in synced patterns */}
+                      {syncedPatternGroups.length > 0 && (
+                        <PanelBody
+                          title={`Synced patterns (${syncedPatternGroups.length})`}
+                          initialOpen={false}
+                        >
+                          <Notice status="info" isDismissible={false}>
+                            These come from synced patterns, so fixing them
+                            means editing the original pattern, which updates
+                            every post that uses it.
+                          </Notice>
+                          <SyncedFindings groups={syncedPatternGroups} />
+                        </PanelBody>
+                      )}
+
+                      {/* Results that could not be mapped to a block */}
+                      {unmappedFindings.length > 0 && (
+                        <PanelBody
+                          title={`Unmapped results (${unmappedFindings.length})`}
+                          initialOpen={false}
+                        >
+                          <Notice status="info" isDismissible={false}>
+                            These were found in the rendered post but could not
+                            be linked to a block in the editor. Each one lists
+                            the reason. They do not count towards the publish
+                            check.
+                          </Notice>
+                          {unmappedFindings.map((violation, index) => (
+                            <ViolationCard
+                              key={`${violation.id}-${index}`}
+                              violation={violation}
+                            />
+                          ))}
+                        </PanelBody>
+                      )}
+
+                      {/* Results in the theme template (full page scans) */}
+                      {templateIssues.length > 0 && (
+                        <PanelBody
+                          title={`Template issues (${templateIssues.length})`}
+                          initialOpen={false}
+                        >
+                          <Notice status="info" isDismissible={false}>
+                            These were found in the theme template around the
+                            post content, such as the header, footer or template
+                            parts. Fix them in the Site Editor or the theme. They
+                            do not count towards the publish check.
+                          </Notice>
+                          {templateIssues.map((violation, index) => (
+                            <ViolationCard
+                              key={`${violation.id}-${index}`}
+                              violation={violation}
+                            />
+                          ))}
+                        </PanelBody>
+                      )}
+
+                      {/* Dismissed ("won't fix") results */}
+                      {dismissedViolations.length > 0 && (
+                        <PanelBody
+                          title={`Dismissed (${dismissedViolations.length})`}
+                          initialOpen={false}
+                        >
+                          {dismissedViolations.map((violation, index) => (
+                            <ViolationCard
+                              key={`${violation.id}-${index}`}
+                              violation={violation}
+                              dismissal={findDismissal(dismissals, violation)}
+                            />
+                          ))}
+                        </PanelBody>
+                      )}
+
+                      {/* Scan history */}
+                      {history.length > 0 && (
+                        <PanelBody
+                          title={`Scan history (${history.length})`}
+                          initialOpen={false}
+                        >
+                          <ul className={CSS_CLASSES.history}>
+                            {history.map((run) => {
+                              const runViolations = run.violations.filter(
+                                (violation) => violation.kind !== 'incomplete'
+                              ).length;
+
+                              return (
+                                <li key={run.completedAt}>
+                                  <strong>
+                                    {new Date(run.completedAt).toLocaleString()}
+                                  </strong>
+                                  {run.author && ` by ${run.author}`}
+                                  <br />
+                                  {runViolations} violation
+                                  {runViolations === 1 ? '' : 's'}
+                                  {run.axeVersion && `, axe-core ${run.axeVersion}`}
+                                  {run.wcagTags && run.wcagTags.length > 0 && (
+                                    <>
+                                      <br />
+                                      {formatWcagLabelList(run.wcagTags, wcagLabelMap)}
+                                    </>
+                                  )}
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        </PanelBody>
+                      )}
+
+                      {/* Error list */}
+                      {scanSummary.errors.length > 0 && (
+                        <Notice status="info" isDismissible={false}>
+                          <strong>Some results could not be mapped to blocks:</strong>
+                          <ul>
+                            {scanSummary.errors.map((message, index) => (
+                              <li key={index}>{message}</li>
+                            ))}
+                          </ul>
+                        </Notice>
+                      )}
+                    </>
+                  )
+                }
+              </TabPanel>
             </>
           ) : (
             <p>Run the accessibility checker to view results.</p>
@@ -352,6 +1046,7 @@ export const AccessibilityCheckerSidebar = () => {
         title="Accessibility scan status"
         icon={<Icon icon={universalAccessIcon} />}
       >
+        {publishGate.isEnabled && <PublishGateStatus {...publishGate} />}
         {scanSummary ? (
           <>
             {storedScan && isScanStale ? (
@@ -366,8 +1061,13 @@ export const AccessibilityCheckerSidebar = () => {
               </p>
             )}
             <p>
-              Detected {scanSummary.violations.length} violation
-              {scanSummary.violations.length === 1 ? '' : 's'}.
+              Detected {violations.length} violation
+              {violations.length === 1 ? '' : 's'}
+              {reviewItems.length > 0 &&
+                ` and ${reviewItems.length} item${
+                  reviewItems.length === 1 ? '' : 's'
+                } needing manual review`}
+              .
             </p>
           </>
         ) : (
@@ -0,0 +1,79 @@
+/**
+ * Ad-hoc scan control component.
+ * Lets the user run a single scan with a different WCAG tag selection
+ * without changing the site setting.
+ */
+
+import { createElement, useState } from '@wordpress/element';
+import { Button, CheckboxControl } from '@wordpress/components';
+import { CSS_CLASSES } from '../constants';
+
+interface AdHocScanControlProps {
+  labels: Record<string, string>;
+  configuredTags: string[];
+  disabled: boolean;
+  onRun: (wcagTags: string[]) => void;
+}
+
+/**
+ * Ad-hoc Scan Control Component.
+ */
+export const AdHocScanControl = ({
+  labels,
+  configuredTags,
+  disabled,
+  onRun,
+}: AdHocScanControlProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>(configuredTags);
+
+  if (!isOpen) {
+    return (
+      <Button
+        variant="link"
+        onClick={() => {
+          setSelectedTags(configuredTags);
+          setIsOpen(true);
+        }}
+      >
+        Scan once with other guidelines…
+      </Button>
+    );
+  }
+
+  const toggleTag = (tag: string, checked: boolean) =>
+    setSelectedTags((current) =>
+      checked ? [...current, tag] : current.filter((item) => item !== tag)
+    );
+
+  return (
+    <fieldset className={CSS_CLASSES.adHocScan}>
+      <legend>Guidelines for one scan</legend>
+      {Object.entries(labels).map(([tag, label]) => (
+        <CheckboxControl
+          key={tag}
+          label={label}
+          checked={selectedTags.includes(tag)}
+          onChange={(checked: boolean) => toggleTag(tag, checked)}
+          __nextHasNoMarginBottom
+        />
+      ))}
+      <div className={CSS_CLASSES.cardActions}>
+        <Button
+          variant="primary"
+          size="small"
+          disabled={disabled || selectedTags.length === 0}
+          onClick={() => {
+            onRun(selectedTags);
+            setIsOpen(false);
+          }}
+        >
+          Run scan
+        </Button>
+        <Button variant="tertiary" size="small" onClick={() => setIsOpen(false)}>
+          Cancel
+        </Button>
+      </div>
+    </fieldset>
+  );
+};
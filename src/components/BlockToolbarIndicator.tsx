@@ -8,9 +8,10 @@
 import { Fragment, createElement } from '@wordpress/element';
 import { createHigherOrderComponent } from '@wordpress/compose';
 import { addFilter } from '@wordpress/hooks';
-import { useSelect } from '@wordpress/data';
+import { dispatch, useSelect } from '@wordpress/data';
 import { BlockControls } from '@wordpress/block-editor';
 import {
+  Button,
   ToolbarButton,
   ToolbarGroup,
   Dropdown,
@@ -28,8 +29,80 @@ import {
   focusBlockById,
   openResultsPanel,
   highlightViolations,
+  setReviewDecision,
+  getSafeUrl,
 } from '../utils';
 import { getImpactMeta } from '../utils/impact';
+import { DismissViolationForm } from './DismissViolationForm';
+
+/**
+ * Renders a single result entry in the toolbar dropdown.
+ *
+ * @param {ViolationWithContext} violation The result to render.
+ * @param {number}               index     Position in the list, used for keys.
+ * @return {JSX.Element} The dropdown entry.
+ */
+const renderViolationEntry = (
+  violation: ViolationWithContext,
+  index: number
+) => {
+  const impactMeta = getImpactMeta(violation.impact);
+  const isReviewItem = violation.kind === 'incomplete';
+  const helpUrl = getSafeUrl(violation.helpUrl);
+
+  return (
+    <Flex align="top" key={`${violation.id}-${index}`}>
+      <FlexItem style={{ flexShrink: 0 }}>
+        <Icon icon={caution} style={{ fill: impactMeta.color }} />
+      </FlexItem>
+      <FlexItem>
+        <Text isBlock>{violation.help}</Text>
+        {violation.source === 'editorial' && (
+          <Text isBlock variant="muted">
+            Editorial check
+          </Text>
+        )}
+        {violation.nodes.map((node, nodeIndex) => (
+          <Text isBlock variant="muted" key={nodeIndex}>
+            {node.failureSummary}
+          </Text>
+        ))}
+
+        {helpUrl && (
+          <Text isBlock>
+            <a
+              href={helpUrl}
+              target="_blank"
+              rel="noreferrer noopener"
+            >
+              View guidance
+            </a>
+          </Text>
+        )}
+
+        {isReviewItem && (
+          <Flex justify="flex-start">
+            <Button
+              variant="link"
+              onClick={() => setReviewDecision(violation, 'passed')}
+            >
+              Mark as passed
+            </Button>
+            <Button
+              variant="link"
+              isDestructive
+              onClick={() => setReviewDecision(violation, 'failed')}
+            >
+              Mark as failed
+            </Button>
+          </Flex>
+        )}
+
+        <DismissViolationForm violation={violation} />
+      </FlexItem>
+    </Flex>
+  );
+};
 
 /**
  * Higher-order component that adds a toolbar indicator to blocks with violations.
@@ -37,29 +110,52 @@ import { getImpactMeta } from '../utils/impact';
 const withBlockToolbarIndicator = createHigherOrderComponent(
   (BlockEdit: React.ComponentType<BlockEditProps>) => {
     return (props: BlockEditProps) => {
-      const { violationCount, violationDetails } = useSelect(
+      const {
+        violationCount,
+        violationDetails,
+        reviewDetails,
+        isRescanPending,
+      } = useSelect(
         (selectFn) => {
           const store = selectFn(STORE_NAME) as any;
           if (!store?.getBlockViolations) {
-            return { violationCount: 0, violationDetails: [] };
+            return {
+              violationCount: 0,
+              violationDetails: [],
+              reviewDetails: [],
+              isRescanPending: false,
+            };
           }
           const counts = store.getBlockViolations() as Record<string, number>;
           const details = store.getBlockViolationDetails
             ? store.getBlockViolationDetails()
             : {};
+          const review = store.getBlockReviewDetails
+            ? store.getBlockReviewDetails()
+            : {};
           return {
             violationCount: counts?.[props.clientId] || 0,
             violationDetails: details?.[props.clientId] || [],
+            reviewDetails: review?.[props.clientId] || [],
+            isRescanPending: !!store.isBlockRescanPending?.(props.clientId),
           };
         },
         [props.clientId]
       );
 
-      const hasViolations = violationCount > 0;
-      const label =
-        violationCount === 1
-          ? 'Accessibility checker: 1 issue detected'
-          : `Accessibility checker: ${violationCount} issues detected`;
+      const reviewCount = reviewDetails.length;
+      const hasViolations = violationCount > 0 || reviewCount > 0;
+      const issueText =
+        violationCount === 1 ? '1 issue' : `${violationCount} issues`;
+      const reviewText =
+        reviewCount === 1
+          ? '1 item needs review'
+          : `${reviewCount} items need review`;
+      const summary = [
+        ...(violationCount > 0 ? [`${issueText} detected`] : []),
+        ...(reviewCount > 0 ? [reviewText] : []),
+      ].join(', ');
+      const label = `Accessibility checker: ${summary}`;
 
       const handleViewPanel = (targetViolationIds?: string[]) => {
         focusBlockById(props.clientId);
@@ -67,7 +163,7 @@ const withBlockToolbarIndicator = createHigherOrderComponent(
 
         const detailIds = (
           targetViolationIds ||
-          violationDetails.map(
+          [...violationDetails, ...reviewDetails].map(
             (violation: ViolationWithContext) => violation.id
           )
         ).filter(Boolean) as string[];
@@ -101,50 +197,34 @@ const withBlockToolbarIndicator = createHigherOrderComponent(
                 )}
                 renderContent={({ onClose }) => (
                   <div className={CSS_CLASSES.toolbarDropdownContent}>
-                    <MenuGroup
-                      label={
-                        violationCount === 1
-                          ? '1 issue found in this block'
-                          : `${violationCount} issues found in this block`
-                      }
-                    >
-                      {violationDetails.map(
-                        (violation: ViolationWithContext, index: number) => {
-                          const impactMeta = getImpactMeta(violation.impact);
-                          return (
-                            <Flex align="top" key={`${violation.id}-${index}`}>
-                              <FlexItem style={{ flexShrink: 0 }}>
-                                <Icon
-                                  icon={caution}
-                                  style={{ fill: impactMeta.color }}
-                                />
-                              </FlexItem>
-                              <FlexItem>
-                                <Text isBlock>{violation.help}</Text>
-                                {violation.nodes.map((node) => (
-                                  <Text isBlock variant="muted">
-                                    {node.failureSummary}
-                                  </Text>
-                                ))}
-
-                                {violation.helpUrl && (
-                                  <Text isBlock>
-                                    <a
-                                      href={violation.helpUrl}
-                                      target="_blank"
-                                      rel="noreferrer noopener"
-                                    >
-                                      View guidance
-                                    </a>
-                                  </Text>
-                                )}
-                              </FlexItem>
-                            </Flex>
-                          );
+                    {violationCount > 0 && (
+                      <MenuGroup
+                        label={
+                          violationCount === 1
+                            ? '1 issue found in this block'
+                            : `${violationCount} issues found in this block`
                         }
-                      )}
-                    </MenuGroup>
+                      >
+                        {violationDetails.map(renderViolationEntry)}
+                      </MenuGroup>
+                    )}
+                    {reviewCount > 0 && (
+                      <MenuGroup label={`Needs review: ${reviewText}`}>
+                        {reviewDetails.map(renderViolationEntry)}
+                      </MenuGroup>
+                    )}
                     <MenuGroup>
+                      <MenuItem
+                        disabled={isRescanPending}
+                        onClick={() => {
+                          onClose();
+                          (dispatch(STORE_NAME) as any).requestBlockRescan(
+                            props.clientId
+                          );
+                        }}
+                      >
+                        {isRescanPending ? 'Rescanning…' : 'Rescan this block'}
+                      </MenuItem>
                       <MenuItem
                         onClick={() => {
                           onClose();
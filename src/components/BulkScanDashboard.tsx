@@ -0,0 +1,251 @@
+/**
+ * Bulk scan dashboard component.
+ * Queues posts by type, status and date range, scans them one at a time
+ * and lists violation counts by impact in a sortable table. Results in
+ * synced patterns and template parts are also listed once across posts.
+ */
+
+import { Fragment, createElement, useMemo, useState } from '@wordpress/element';
+import {
+  Button,
+  Flex,
+  FlexItem,
+  Notice,
+  SelectControl,
+  Spinner,
+  TextControl,
+} from '@wordpress/components';
+import type { BulkScanQuery, BulkScanSortKey } from '../types';
+import { useBulkScan } from '../hooks';
+import {
+  getBulkScanSettings,
+  groupSyncedFindings,
+  sortBulkScanResults,
+  IMPACT_LEVELS,
+} from '../utils';
+import { getImpactMeta } from '../utils/impact';
+import { CSS_CLASSES } from '../constants';
+import { SyncedFindings } from './SyncedFindings';
+
+/**
+ * Bulk Scan Dashboard Component.
+ */
+export const BulkScanDashboard = () => {
+  const { postTypes, postStatuses } = useMemo(() => getBulkScanSettings(), []);
+  const { results, isQueueing, isRunning, error, queuePosts, start, stop } =
+    useBulkScan();
+
+  const [query, setQuery] = useState<BulkScanQuery>({
+    postType: '',
+    status: 'any',
+    after: '',
+    before: '',
+  });
+  const [sortKey, setSortKey] = useState<BulkScanSortKey>('critical');
+  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+
+  const sortedResults = useMemo(
+    () => sortBulkScanResults(results, sortKey, sortDirection),
+    [results, sortKey, sortDirection]
+  );
+
+  const syncedGroups = useMemo(
+    () =>
+      groupSyncedFindings(
+        results
+          .filter((result) => result.status === 'done')
+          .map((result) => ({
+            postId: result.post.id,
+            violations: result.syncedFindings,
+          }))
+      ),
+    [results]
+  );
+
+  const completedCount = results.filter(
+    (result) => result.status === 'done' || result.status === 'error'
+  ).length;
+
+  const updateQuery = (changes: Partial<BulkScanQuery>) =>
+    setQuery((current) => ({ ...current, ...changes }));
+
+  const handleSort = (key: BulkScanSortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+      return;
+    }
+
+    setSortKey(key);
+    setSortDirection(key === 'title' || key === 'type' ? 'asc' : 'desc');
+  };
+
+  const columns: Array<{ key: BulkScanSortKey; label: string }> = [
+    { key: 'title', label: 'Title' },
+    { key: 'type', label: 'Type' },
+    { key: 'date', label: 'Date' },
+    ...IMPACT_LEVELS.map((level) => ({
+      key: level,
+      label: getImpactMeta(level).label.replace(' impact', ''),
+    })),
+    { key: 'totalViolations', label: 'Total' },
+    { key: 'reviewCount', label: 'Needs review' },
+    { key: 'templateIssueCount', label: 'Template' },
+    { key: 'unmappedCount', label: 'Unmapped' },
+  ];
+
+  return (
+    <div className={CSS_CLASSES.bulkScan}>
+      <Flex align="flex-end" gap={4} wrap>
+        <FlexItem>
+          <SelectControl
+            label="Post type"
+            value={query.postType}
+            options={[{ value: '', label: 'All types' }, ...postTypes]}
+            onChange={(value: string) => updateQuery({ postType: value })}
+            __nextHasNoMarginBottom
+          />
+        </FlexItem>
+        <FlexItem>
+          <SelectControl
+            label="Status"
+            value={query.status}
+            options={[{ value: 'any', label: 'All statuses' }, ...postStatuses]}
+            onChange={(value: string) => updateQuery({ status: value })}
+            __nextHasNoMarginBottom
+          />
+        </FlexItem>
+        <FlexItem>
+          <TextControl
+            label="Published after"
+            type="date"
+            value={query.after}
+            onChange={(value: string) => updateQuery({ after: value })}
+            __nextHasNoMarginBottom
+          />
+        </FlexItem>
+        <FlexItem>
+          <TextControl
+            label="Published before"
+            type="date"
+            value={query.before}
+            onChange={(value: string) => updateQuery({ before: value })}
+            __nextHasNoMarginBottom
+          />
+        </FlexItem>
+        <FlexItem>
+          <Button
+            variant="secondary"
+            onClick={() => queuePosts(query)}
+            disabled={isQueueing || isRunning}
+            isBusy={isQueueing}
+          >
+            Queue posts
+          </Button>
+        </FlexItem>
+        <FlexItem>
+          {isRunning ? (
+            <Button variant="secondary" onClick={stop}>
+              Stop after current post
+            </Button>
+          ) : (
+            <Button
+              variant="primary"
+              onClick={start}
+              disabled={isQueueing || results.length === 0}
+            >
+              Scan queued posts
+            </Button>
+          )}
+        </FlexItem>
+      </Flex>
+
+      {error && (
+        <Notice status="error" isDismissible={false}>
+          {error}
+        </Notice>
+      )}
+
+      {results.length > 0 && (
+        <p aria-live="polite">
+          {isRunning && <Spinner />}
+          Scanned {completedCount} of {results.length} posts.
+        </p>
+      )}
+
+      {results.length > 0 && (
+        <table className="wp-list-table widefat fixed striped">
+          <thead>
+            <tr>
+              {columns.map(({ key, label }) => (
+                <th
+                  key={key}
+                  scope="col"
+                  aria-sort={
+                    key === sortKey
+                      ? sortDirection === 'asc'
+                        ? 'ascending'
+                        : 'descending'
+                      : 'none'
+                  }
+                >
+                  <Button variant="link" onClick={() => handleSort(key)}>
+                    {label}
+                    {key === sortKey && (sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                  </Button>
+                </th>
+              ))}
+              <th scope="col">Scan</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedResults.map((result) => (
+              <tr key={result.post.id}>
+                <td>
+                  <a href={result.post.editLink}>
+                    {result.post.title || `#${result.post.id}`}
+                  </a>
+                </td>
+                <td>{result.post.type}</td>
+                <td>{new Date(result.post.date).toLocaleDateString()}</td>
+                {IMPACT_LEVELS.map((level) => (
+                  <td key={level}>
+                    {result.status === 'done' ? result.impactCounts[level] : '—'}
+                  </td>
+                ))}
+                <td>
+                  {result.status === 'done' ? result.totalViolations : '—'}
+                </td>
+                <td>{result.status === 'done' ? result.reviewCount : '—'}</td>
+                <td>
+                  {result.status === 'done' ? result.templateIssueCount : '—'}
+                </td>
+                <td>
+                  {result.status === 'done' ? result.unmappedCount : '—'}
+                </td>
+                <td>
+                  {result.status === 'scanning' && <Spinner />}
+                  {result.status === 'queued' && 'Queued'}
+                  {result.status === 'done' && 'Done'}
+                  {result.status === 'error' && (
+                    <span title={result.error}>Failed</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {syncedGroups.length > 0 && (
+        <>
+          <h2>Shared patterns and template parts</h2>
+          <p>
+            These results come from synced content used across posts. Each is
+            listed once; fix it by editing the original.
+          </p>
+          <SyncedFindings groups={syncedGroups} showPostCounts />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+/**
+ * Dismiss violation form component.
+ * Lets editors dismiss a single violation instance with a required reason.
+ */
+
+import { createElement, useState } from '@wordpress/element';
+import { Button, TextareaControl } from '@wordpress/components';
+import type { ViolationWithContext } from '../types';
+import { CSS_CLASSES } from '../constants';
+import { dismissViolation } from '../utils';
+
+interface DismissViolationFormProps {
+  violation: ViolationWithContext;
+  onDismissed?: () => void;
+}
+
+/**
+ * Dismiss Violation Form Component.
+ * Renders a "Dismiss" toggle that expands into a justification field.
+ */
+export const DismissViolationForm = ({
+  violation,
+  onDismissed,
+}: DismissViolationFormProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!violation.blockWpavId) {
+    return null;
+  }
+
+  if (!isOpen) {
+    return (
+      <Button variant="tertiary" onClick={() => setIsOpen(true)}>
+        Dismiss…
+      </Button>
+    );
+  }
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await dismissViolation(violation, reason.trim());
+      setIsOpen(false);
+      setReason('');
+      onDismissed?.();
+    } catch (dismissError) {
+      // eslint-disable-next-line no-console
+      console.error('Unable to dismiss violation', dismissError);
+      setError('The dismissal could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={CSS_CLASSES.dismissForm}>
+      <TextareaControl
+        label="Reason for dismissing"
+        help="Required. Recorded with your name for audit purposes."
+        value={reason}
+        onChange={(value: string) => setReason(value)}
+        __nextHasNoMarginBottom
+      />
+      {error && <p className={CSS_CLASSES.dismissError}>{error}</p>}
+      <div className={CSS_CLASSES.cardActions}>
+        <Button
+          variant="primary"
+          onClick={handleSubmit}
+          disabled={!reason.trim() || isSaving}
+          isBusy={isSaving}
+        >
+          Dismiss as won't fix
+        </Button>
+        <Button variant="tertiary" onClick={() => setIsOpen(false)}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+/**
+ * Document structure panel component.
+ * Shows the heading outline and landmark regions of the last scan, with
+ * heading problems flagged and entries linked to their blocks.
+ */
+
+import { createElement, useMemo } from '@wordpress/element';
+import { Button, Notice } from '@wordpress/components';
+import type { DocumentStructure } from '../types';
+import { CSS_CLASSES } from '../constants';
+import { useCurrentBlocks } from '../hooks';
+import {
+  HEADING_ISSUE_LABELS,
+  countHeadingIssues,
+  focusBlockById,
+} from '../utils';
+
+interface DocumentStructurePanelProps {
+  structure?: DocumentStructure;
+}
+
+/**
+ * Document Structure Panel Component.
+ */
+export const DocumentStructurePanel = ({
+  structure,
+}: DocumentStructurePanelProps) => {
+  const blocks = useCurrentBlocks();
+
+  // Stored scans may come from an earlier session, so blocks are looked up
+  // by their persisted wpavId rather than a client ID.
+  const clientIdsByWpavId = useMemo(() => {
+    const map: Record<string, string> = {};
+
+    blocks.forEach((block) => {
+      if (block.attributes?.wpavId) {
+        map[block.attributes.wpavId] = block.clientId;
+      }
+    });
+
+    return map;
+  }, [blocks]);
+
+  if (!structure) {
+    return <p>Run the accessibility checker to build the document outline.</p>;
+  }
+
+  const issueCount = countHeadingIssues(structure);
+
+  const renderEntry = (label: string, wpavId?: string) => {
+    const clientId = wpavId ? clientIdsByWpavId[wpavId] : undefined;
+
+    return clientId ? (
+      <Button variant="link" onClick={() => focusBlockById(clientId)}>
+        {label}
+      </Button>
+    ) : (
+      <span>{label}</span>
+    );
+  };
+
+  return (
+    <div className={CSS_CLASSES.structure}>
+      <h3>Heading outline</h3>
+      {issueCount > 0 && (
+        <Notice status="warning" isDismissible={false}>
+          {issueCount} heading{issueCount === 1 ? ' has' : 's have'} outline
+          problems.
+        </Notice>
+      )}
+      {structure.headings.length === 0 ? (
+        <p>No headings were found in the content.</p>
+      ) : (
+        <ul className={CSS_CLASSES.structureOutline}>
+          {structure.headings.map((heading, index) => (
+            <li
+              key={index}
+              style={{ marginLeft: `${(heading.level - 1) * 12}px` }}
+            >
+              <strong>H{heading.level}</strong>{' '}
+              {renderEntry(
+                heading.isTitle
+                  ? `${heading.text || 'Untitled'} (post title)`
+                  : heading.text || '(empty)',
+                heading.blockWpavId
+              )}
+              {heading.issues.map((issue) => (
+                <span key={issue} className={CSS_CLASSES.structureIssue}>
+                  {HEADING_ISSUE_LABELS[issue]}
+                </span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <h3>Landmarks</h3>
+      {structure.landmarks.length === 0 ? (
+        <p>No landmark regions were found in the content.</p>
+      ) : (
+        <ul>
+          {structure.landmarks.map((landmark, index) => (
+            <li key={index}>
+              <strong>{landmark.role}</strong>{' '}
+              {renderEntry(
+                landmark.label || '(unlabelled)',
+                landmark.blockWpavId
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * Export scan menu component.
+ * Offers the current scan as JSON, CSV, an HTML report or SARIF.
+ */
+
+import { createElement } from '@wordpress/element';
+import { DropdownMenu, MenuGroup, MenuItem } from '@wordpress/components';
+import { download } from '@wordpress/icons';
+import type { ExportContext, StoredScan } from '../types';
+import {
+  buildJsonExport,
+  buildCsvExport,
+  buildHtmlReport,
+  buildSarifExport,
+  downloadFile,
+} from '../utils';
+
+interface ExportScanMenuProps {
+  scan: StoredScan;
+  context: ExportContext;
+  postId: number | null;
+}
+
+/**
+ * Export Scan Menu Component.
+ */
+export const ExportScanMenu = ({
+  scan,
+  context,
+  postId,
+}: ExportScanMenuProps) => {
+  const date = scan.completedAt.slice(0, 10);
+  const baseName = `accessibility-${postId ?? 'post'}-${date}`;
+
+  const formats = [
+    {
+      label: 'JSON',
+      extension: 'json',
+      mimeType: 'application/json',
+      build: () => buildJsonExport(scan),
+    },
+    {
+      label: 'CSV (one row per element)',
+      extension: 'csv',
+      mimeType: 'text/csv',
+      build: () => buildCsvExport(scan),
+    },
+    {
+      label: 'HTML report',
+      extension: 'html',
+      mimeType: 'text/html',
+      build: () => buildHtmlReport(scan, context),
+    },
+    {
+      label: 'SARIF 2.1.0',
+      extension: 'sarif',
+      mimeType: 'application/sarif+json',
+      build: () => buildSarifExport(scan, context),
+    },
+  ];
+
+  return (
+    <DropdownMenu icon={download} label="Export results">
+      {({ onClose }) => (
+        <MenuGroup label="Export results">
+          {formats.map(({ label, extension, mimeType, build }) => (
+            <MenuItem
+              key={extension}
+              onClick={() => {
+                downloadFile(`${baseName}.${extension}`, build(), mimeType);
+                onClose();
+              }}
+            >
+              {label}
+            </MenuItem>
+          ))}
+        </MenuGroup>
+      )}
+    </DropdownMenu>
+  );
+};
@@ -0,0 +1,100 @@
+/**
+ * Publish gate status component.
+ * Lists the issues blocking publication and offers an override form to
+ * users with the configured capability.
+ */
+
+import { createElement, useState } from '@wordpress/element';
+import { Button, Notice, TextareaControl } from '@wordpress/components';
+import type { PublishOverride } from '../types';
+import { CSS_CLASSES } from '../constants';
+
+interface PublishGateStatusProps {
+  isBlocked: boolean;
+  blockingIssues: string[];
+  canOverride: boolean;
+  override: PublishOverride | null;
+  submitOverride: (reason: string) => Promise<void>;
+}
+
+/**
+ * Publish Gate Status Component.
+ */
+export const PublishGateStatus = ({
+  isBlocked,
+  blockingIssues,
+  canOverride,
+  override,
+  submitOverride,
+}: PublishGateStatusProps) => {
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (override) {
+    return (
+      <Notice status="warning" isDismissible={false}>
+        Publishing allowed by {override.overriddenBy || 'an administrator'}{' '}
+        despite accessibility issues: {override.reason}
+      </Notice>
+    );
+  }
+
+  if (!isBlocked) {
+    return null;
+  }
+
+  const handleOverride = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      await submitOverride(reason.trim());
+      setReason('');
+    } catch (overrideError) {
+      // eslint-disable-next-line no-console
+      console.error('Unable to override the publish gate', overrideError);
+      setError('The override could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={CSS_CLASSES.publishGate}>
+      <Notice status="error" isDismissible={false}>
+        <strong>Publishing is blocked</strong> until these accessibility
+        issues are resolved. Drafts can still be saved.
+        <ul>
+          {blockingIssues.map((issue, index) => (
+            <li key={index}>{issue}</li>
+          ))}
+        </ul>
+      </Notice>
+
+      {canOverride && (
+        <div className={CSS_CLASSES.dismissForm}>
+          <TextareaControl
+            label="Override reason"
+            help="Required. Your name and reason are recorded with the post."
+            value={reason}
+            onChange={(value: string) => setReason(value)}
+            __nextHasNoMarginBottom
+          />
+          {error && <p className={CSS_CLASSES.dismissError}>{error}</p>}
+          <div className={CSS_CLASSES.cardActions}>
+            <Button
+              variant="secondary"
+              isDestructive
+              onClick={handleOverride}
+              disabled={!reason.trim() || isSaving}
+              isBusy={isSaving}
+            >
+              Override and allow publishing
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+/**
+ * Scan diff summary component.
+ * Shows how the latest scan compares with the previous one and offers
+ * filter chips for new, fixed and unchanged violations.
+ */
+
+import { createElement } from '@wordpress/element';
+import { Button } from '@wordpress/components';
+import type { ScanDiff, ScanDiffFilter } from '../types';
+import { CSS_CLASSES } from '../constants';
+
+interface ScanDiffSummaryProps {
+  diff: ScanDiff;
+  filter: ScanDiffFilter;
+  onFilterChange: (filter: ScanDiffFilter) => void;
+}
+
+/**
+ * Scan Diff Summary Component.
+ */
+export const ScanDiffSummary = ({
+  diff,
+  filter,
+  onFilterChange,
+}: ScanDiffSummaryProps) => {
+  const chips: Array<{ value: ScanDiffFilter; label: string }> = [
+    { value: 'all', label: 'All' },
+    { value: 'new', label: `New (${diff.added.length})` },
+    { value: 'fixed', label: `Fixed (${diff.fixed.length})` },
+    { value: 'unchanged', label: `Unchanged (${diff.unchanged.length})` },
+  ];
+
+  return (
+    <div className={CSS_CLASSES.diff}>
+      <p>
+        <strong>Since previous scan:</strong> +{diff.added.length} new,{' '}
+        {diff.fixed.length} fixed
+      </p>
+      <div
+        className={CSS_CLASSES.chips}
+        role="group"
+        aria-label="Filter violations by change since the previous scan"
+      >
+        {chips.map(({ value, label }) => (
+          <Button
+            key={value}
+            size="small"
+            variant={filter === value ? 'primary' : 'secondary'}
+            isPressed={filter === value}
+            onClick={() => onFilterChange(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
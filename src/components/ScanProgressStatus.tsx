@@ -0,0 +1,77 @@
+/**
+ * Scan progress status component.
+ * Lists the scan phases with their timings while a scan runs and offers
+ * a Cancel button.
+ */
+
+import {
+  Fragment,
+  createElement,
+  useEffect,
+  useState,
+} from '@wordpress/element';
+import { Button, Notice, Spinner } from '@wordpress/components';
+import type { ScanProgress } from '../types';
+import { SCAN_PHASE_LABELS, CSS_CLASSES } from '../constants';
+import { SCAN_PHASES, formatScanDuration } from '../utils';
+
+interface ScanProgressStatusProps {
+  progress: ScanProgress | null;
+  onCancel: () => void;
+}
+
+/**
+ * Scan Progress Status Component.
+ */
+export const ScanProgressStatus = ({
+  progress,
+  onCancel,
+}: ScanProgressStatusProps) => {
+  // Tick once a second so the running phase shows its elapsed time.
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      window.clearInterval(intervalId);
+    };
+  }, []);
+
+  const currentIndex = progress ? SCAN_PHASES.indexOf(progress.phase) : -1;
+
+  return (
+    <Notice status="info" isDismissible={false}>
+      <p>Running accessibility scan…</p>
+      <ol className={CSS_CLASSES.scanProgress}>
+        {SCAN_PHASES.map((phase, index) => {
+          const duration = progress?.timings[phase];
+          const isCurrent = index === currentIndex;
+
+          return (
+            <li
+              key={phase}
+              aria-current={isCurrent ? 'step' : undefined}
+              className={isCurrent ? 'is-current' : undefined}
+            >
+              {SCAN_PHASE_LABELS[phase]}
+              {duration !== undefined && ` — ${formatScanDuration(duration)}`}
+              {isCurrent && progress && (
+                <>
+                  {' '}
+                  <Spinner />
+                  {formatScanDuration(
+                    Math.max(0, now - progress.phaseStartedAt)
+                  )}
+                </>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+      <Button variant="secondary" size="small" onClick={onCancel}>
+        Cancel scan
+      </Button>
+    </Notice>
+  );
+};
@@ -0,0 +1,69 @@
+/**
+ * Synced findings component.
+ * Lists the results found in synced patterns and template parts once per
+ * source, with how widely the source is used and a link to edit the
+ * original, where the fix has to be made.
+ */
+
+import { createElement } from '@wordpress/element';
+import { Button } from '@wordpress/components';
+import type { SyncedFindingGroup } from '../types';
+import { CSS_CLASSES, SYNCED_SOURCE_EDIT_LABELS } from '../constants';
+import { formatSyncedSourceType, getSafeUrl } from '../utils';
+
+interface SyncedFindingsProps {
+  groups: SyncedFindingGroup[];
+  /** Show how many scanned posts each result was found in (bulk scans). */
+  showPostCounts?: boolean;
+}
+
+/**
+ * Synced Findings Component.
+ */
+export const SyncedFindings = ({
+  groups,
+  showPostCounts = false,
+}: SyncedFindingsProps) => (
+  <div className={CSS_CLASSES.synced}>
+    {groups.map(({ source, findings }) => {
+      const editUrl = getSafeUrl(source.editUrl);
+
+      return (
+        <div
+          key={`${source.type}:${source.id}`}
+          className={CSS_CLASSES.syncedGroup}
+        >
+          <h3>{source.title || `#${source.id}`}</h3>
+          <p>
+            {formatSyncedSourceType(source.type)}
+            {source.usage !== undefined &&
+              `, used in ${source.usage} post${source.usage === 1 ? '' : 's'}`}
+          </p>
+          <ul>
+            {findings.map(({ violation, postIds, instances }, index) => (
+              <li key={`${violation.id}-${index}`}>
+                <strong>{violation.help}</strong>
+                {violation.impact && ` (${violation.impact})`}
+                {showPostCounts
+                  ? `, found in ${postIds.length} scanned post${
+                      postIds.length === 1 ? '' : 's'
+                    }`
+                  : instances > 1 && `, ${instances} times in this post`}
+              </li>
+            ))}
+          </ul>
+          {editUrl && (
+            <Button
+              href={editUrl}
+              target="_blank"
+              rel="noreferrer noopener"
+              variant="secondary"
+            >
+              {SYNCED_SOURCE_EDIT_LABELS[source.type]}
+            </Button>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
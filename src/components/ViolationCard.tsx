@@ -0,0 +1,225 @@
+/**
+ * Violation card component.
+ * Renders the details and actions for a single scan result in the panel.
+ */
+
+import { Fragment, createElement } from '@wordpress/element';
+import { Button, Card, CardBody } from '@wordpress/components';
+import type {
+  ReviewDecision,
+  ViolationDismissal,
+  ViolationWithContext,
+} from '../types';
+import {
+  DATA_ATTRIBUTES,
+  CSS_CLASSES,
+  SYNCED_SOURCE_EDIT_LABELS,
+} from '../constants';
+import {
+  focusBlockById,
+  formatScanVariant,
+  formatViewport,
+  isTemplateIssue,
+  formatUnmappedReason,
+  getViolationBlockLabel,
+  formatSyncedSourceType,
+  removeDismissals,
+  setReviewDecision,
+  getSafeUrl,
+} from '../utils';
+import { DismissViolationForm } from './DismissViolationForm';
+
+interface ViolationCardProps {
+  violation: ViolationWithContext;
+  reviewDecision?: ReviewDecision;
+  dismissal?: ViolationDismissal;
+  showBlockName?: boolean;
+}
+
+/**
+ * Violation Card Component.
+ * Shows rule help, impact and affected nodes, plus review actions for
+ * results that need manual review and dismissal actions. Template issues
+ * and unmapped findings belong to no block, so they only link to the fix
+ * guidance. Results in synced content link to the original as well.
+ */
+export const ViolationCard = ({
+  violation,
+  reviewDecision,
+  dismissal,
+  showBlockName = false,
+}: ViolationCardProps) => {
+  const isTemplate = isTemplateIssue(violation);
+  const hasBlock = !isTemplate && !violation.unmappedReason;
+  const helpUrl = getSafeUrl(violation.helpUrl);
+  const syncedEditUrl = getSafeUrl(violation.syncedSource?.editUrl);
+  const isReviewItem =
+    violation.kind === 'incomplete' && !dismissal && hasBlock;
+  const dismissedMeta = dismissal
+    ? [
+        dismissal.dismissedBy,
+        dismissal.dismissedAt &&
+          new Date(dismissal.dismissedAt).toLocaleDateString(),
+      ]
+        .filter(Boolean)
+        .join(', ')
+    : '';
+
+  return (
+    <Card {...{ [DATA_ATTRIBUTES.violationId]: violation.id }}>
+      <CardBody>
+        <p>
+          <strong>{violation.help}</strong>
+        </p>
+        <p>{violation.description}</p>
+        {showBlockName && (
+          <p>
+            <strong>Block:</strong> {getViolationBlockLabel(violation)}
+          </p>
+        )}
+        <p>
+          <strong>Impact:</strong> {violation.impact || 'Not provided'}
+        </p>
+        {violation.viewports && violation.viewports.length > 0 && (
+          <p>
+            <strong>Viewports:</strong>{' '}
+            {violation.viewports.map(formatViewport).join(', ')}
+          </p>
+        )}
+        {violation.variants?.some((variant) => variant !== 'default') && (
+          <p>
+            <strong>Color variants:</strong>{' '}
+            {violation.variants.map(formatScanVariant).join(', ')}
+          </p>
+        )}
+        {isTemplate && (
+          <p>
+            <strong>Location:</strong> Theme template
+            {violation.kind === 'incomplete' && ' (needs review)'}
+          </p>
+        )}
+        {violation.unmappedReason && (
+          <p>
+            <strong>Not mapped:</strong>{' '}
+            {formatUnmappedReason(violation.unmappedReason)}
+            {violation.kind === 'incomplete' && ' (needs review)'}
+          </p>
+        )}
+        {violation.syncedSource && (
+          <p>
+            <strong>
+              {formatSyncedSourceType(violation.syncedSource.type)}:
+            </strong>{' '}
+            {violation.syncedSource.title || `#${violation.syncedSource.id}`}
+            {violation.syncedSource.usage !== undefined &&
+              ` (used in ${violation.syncedSource.usage} post${
+                violation.syncedSource.usage === 1 ? '' : 's'
+              })`}
+          </p>
+        )}
+        {violation.source === 'editorial' && (
+          <p>
+            <strong>Source:</strong> Editorial check
+          </p>
+        )}
+        {isReviewItem && reviewDecision && (
+          <p>
+            <strong>Manual review:</strong>{' '}
+            {reviewDecision === 'passed' ? 'Marked as passed' : 'Marked as failed'}
+          </p>
+        )}
+        {dismissal && (
+          <p>
+            <strong>Dismissed:</strong> {dismissal.reason}
+            {dismissedMeta && ` (${dismissedMeta})`}
+          </p>
+        )}
+        <div>
+          <strong>Affected elements:</strong>
+          <ul>
+            {violation.nodes.map((node, nodeIndex) => (
+              <li key={nodeIndex}>
+                <code>{node.target?.join(' ') || node.html || 'Unknown'}</code>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className={CSS_CLASSES.cardActions}>
+          {hasBlock && (
+            <Button
+              onClick={() => focusBlockById(violation.blockClientId)}
+              variant="primary"
+            >
+              Go to block
+            </Button>
+          )}
+          {helpUrl && (
+            <Button
+              href={helpUrl}
+              target="_blank"
+              rel="noreferrer noopener"
+              variant="secondary"
+            >
+              View fix guidance
+            </Button>
+          )}
+          {violation.syncedSource && syncedEditUrl && (
+            <Button
+              href={syncedEditUrl}
+              target="_blank"
+              rel="noreferrer noopener"
+              variant="secondary"
+            >
+              {SYNCED_SOURCE_EDIT_LABELS[violation.syncedSource.type]}
+            </Button>
+          )}
+          {dismissal ? (
+            <Button
+              onClick={() => {
+                removeDismissals([dismissal.key]).catch(
+                  (error) => {
+                    // eslint-disable-next-line no-console
+                    console.error('Unable to restore violation', error);
+                  }
+                );
+              }}
+              variant="tertiary"
+            >
+              Restore
+            </Button>
+          ) : (
+            hasBlock && <DismissViolationForm violation={violation} />
+          )}
+        </div>
+        {isReviewItem && (
+          <div className={CSS_CLASSES.cardActions}>
+            {reviewDecision ? (
+              <Button
+                onClick={() => setReviewDecision(violation, null)}
+                variant="tertiary"
+              >
+                Undo review decision
+              </Button>
+            ) : (
+              <Fragment>
+                <Button
+                  onClick={() => setReviewDecision(violation, 'passed')}
+                  variant="secondary"
+                >
+                  Mark as passed
+                </Button>
+                <Button
+                  onClick={() => setReviewDecision(violation, 'failed')}
+                  variant="secondary"
+                  isDestructive
+                >
+                  Mark as failed
+                </Button>
+              </Fragment>
+            )}
+          </div>
+        )}
+      </CardBody>
+    </Card>
+  );
+};
@@ -0,0 +1,179 @@
+/**
+ * Visual preview modal component.
+ * Shows the rendered scan document at full size with every failing node
+ * outlined and numbered by impact, so issues that depend on the front-end
+ * render (contrast on theme backgrounds, focus order) can be seen in place.
+ */
+
+import {
+  createElement,
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from '@wordpress/element';
+import { select } from '@wordpress/data';
+import { Modal, Notice, Spinner } from '@wordpress/components';
+import type {
+  OverlayResult,
+  ScanRenderMode,
+  ViolationWithContext,
+  WPEditorStore,
+} from '../types';
+import { CSS_CLASSES, IMPACT_META } from '../constants';
+import {
+  drawViolationOverlay,
+  focusBlockById,
+  renderScanDocument,
+} from '../utils';
+import { isAbortError } from '../utils/previewDom';
+
+interface VisualPreviewModalProps {
+  violations: ViolationWithContext[];
+  isScanStale: boolean;
+  /** How the scan rendered the post; older scans rendered the content. */
+  renderMode?: ScanRenderMode;
+  onClose: () => void;
+}
+
+/**
+ * Visual Preview Modal Component.
+ */
+export const VisualPreviewModal = ({
+  violations,
+  isScanStale,
+  renderMode = 'content',
+  onClose,
+}: VisualPreviewModalProps) => {
+  const [docHtml, setDocHtml] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState<OverlayResult | null>(null);
+  const iframeRef = useRef<HTMLIFrameElement | null>(null);
+  // Removes the resize listener added for the current frame document.
+  const detachResizeRef = useRef<(() => void) | null>(null);
+
+  // Render the edited content the same way the scanner does.
+  useEffect(() => {
+    const controller = new AbortController();
+    const editorStore = select('core/editor') as Partial<WPEditorStore>;
+    const postId = editorStore.getCurrentPostId?.();
+    const content = editorStore.getEditedPostAttribute?.('content');
+
+    if (!postId || typeof content !== 'string') {
+      setError('The post could not be rendered for the preview.');
+      return;
+    }
+
+    renderScanDocument(postId, content, controller.signal, renderMode)
+      .then(setDocHtml)
+      .catch((renderError) => {
+        if (isAbortError(renderError) || controller.signal.aborted) {
+          return;
+        }
+
+        // eslint-disable-next-line no-console
+        console.error('Visual preview failed', renderError);
+        setError('The post could not be rendered for the preview.');
+      });
+
+    return () => controller.abort();
+  }, [renderMode]);
+
+  useEffect(
+    () => () => {
+      detachResizeRef.current?.();
+      detachResizeRef.current = null;
+    },
+    []
+  );
+
+  const handleSelect = useCallback(
+    (violation: ViolationWithContext) => {
+      // The overlay disables markers of results without a block.
+      if (!violation.blockClientId) {
+        return;
+      }
+
+      focusBlockById(violation.blockClientId);
+      onClose();
+    },
+    [onClose]
+  );
+
+  const handleLoad = useCallback(() => {
+    const frameWindow = iframeRef.current?.contentWindow;
+    const doc = iframeRef.current?.contentDocument;
+
+    detachResizeRef.current?.();
+    detachResizeRef.current = null;
+
+    if (!frameWindow || !doc) {
+      return;
+    }
+
+    const draw = () =>
+      setOverlay(drawViolationOverlay(doc, violations, handleSelect));
+
+    draw();
+    // Markers are absolutely positioned, so redraw when the layout changes.
+    frameWindow.addEventListener('resize', draw);
+    detachResizeRef.current = () =>
+      frameWindow.removeEventListener('resize', draw);
+  }, [violations, handleSelect]);
+
+  return (
+    <Modal
+      title="Visual preview"
+      onRequestClose={onClose}
+      isFullScreen
+      className={CSS_CLASSES.visualPreview}
+    >
+      <ul className={CSS_CLASSES.visualPreviewLegend}>
+        {Object.entries(IMPACT_META).map(([impact, meta]) => (
+          <li key={impact}>
+            <span
+              className={CSS_CLASSES.visualPreviewSwatch}
+              style={{ borderColor: meta.color }}
+            />
+            {meta.label}
+          </li>
+        ))}
+        <li>Dashed outlines need manual review.</li>
+      </ul>
+
+      {isScanStale && (
+        <Notice status="warning" isDismissible={false}>
+          The post has changed since the last scan, so some outlines may be
+          missing or misplaced.
+        </Notice>
+      )}
+
+      {overlay && overlay.missing > 0 && (
+        <Notice status="info" isDismissible={false}>
+          {overlay.missing} affected element
+          {overlay.missing === 1 ? ' is' : 's are'} not shown because{' '}
+          {overlay.missing === 1 ? 'it' : 'they'} could not be found in the
+          preview.
+        </Notice>
+      )}
+
+      {error && (
+        <Notice status="error" isDismissible={false}>
+          {error}
+        </Notice>
+      )}
+
+      {!docHtml && !error && <Spinner />}
+
+      {docHtml && (
+        <iframe
+          ref={iframeRef}
+          title="Rendered post with accessibility issues outlined"
+          srcDoc={docHtml}
+          onLoad={handleLoad}
+          className={CSS_CLASSES.visualPreviewFrame}
+        />
+      )}
+    </Modal>
+  );
+};
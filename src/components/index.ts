@@ -5,4 +5,14 @@
 export * from './AccessibilityCheckerSidebar';
 export * from './BlockViolationIndicator';
 export * from './BlockToolbarIndicator';
-export * from './BlockStableIdProvider';
\ No newline at end of file
+export * from './BlockStableIdProvider';
+export * from './ViolationCard';
+export * from './DismissViolationForm';
+export * from './PublishGateStatus';
+export * from './ScanDiffSummary';export * from './ExportScanMenu';
+export * from './BulkScanDashboard';
+export * from './ScanProgressStatus';
+export * from './AdHocScanControl';
+export * from './DocumentStructurePanel';
+export * from './VisualPreviewModal';
+export * from './SyncedFindings';
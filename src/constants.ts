@@ -2,7 +2,15 @@
  * Constants for the WP Accessibility Validator plugin.
  */
 
-import type { ImpactMeta, ViolationWithContext } from './types';
+import type {
+	ImpactMeta,
+	ScanPhase,
+	ScanRenderMode,
+	ScanVariant,
+	SyncedSourceType,
+	UnmappedReason,
+	ViolationWithContext,
+} from './types';
 
 /**
  * Storage key prefix for localStorage.
@@ -24,6 +32,16 @@ export const PANEL_NAME = 'wp-accessibility-validator-panel';
  */
 export const PANEL_STORE_ID = `plugin-document-setting-panel/${PANEL_NAME}`;
 
+/**
+ * Lock name used when the publish gate blocks saving.
+ */
+export const PUBLISH_GATE_LOCK = 'wp-accessibility-validator/publish-gate';
+
+/**
+ * Post statuses that make a post public, so its autosaves are locked too.
+ */
+export const PUBLISH_GATE_STATUSES = ['publish', 'future', 'private'];
+
 /**
  * Store name for the violation tracking store.
  */
@@ -41,6 +59,99 @@ export const DEFAULT_WCAG_TAGS = [
 	'wcag22aa',
 ];
 
+/**
+ * WCAG success criteria names keyed by criterion number.
+ */
+export const WCAG_SUCCESS_CRITERIA: Record<string, string> = {
+	'1.1.1': 'Non-text Content',
+	'1.2.1': 'Audio-only and Video-only (Prerecorded)',
+	'1.2.2': 'Captions (Prerecorded)',
+	'1.2.3': 'Audio Description or Media Alternative (Prerecorded)',
+	'1.2.4': 'Captions (Live)',
+	'1.2.5': 'Audio Description (Prerecorded)',
+	'1.2.6': 'Sign Language (Prerecorded)',
+	'1.2.7': 'Extended Audio Description (Prerecorded)',
+	'1.2.8': 'Media Alternative (Prerecorded)',
+	'1.2.9': 'Audio-only (Live)',
+	'1.3.1': 'Info and Relationships',
+	'1.3.2': 'Meaningful Sequence',
+	'1.3.3': 'Sensory Characteristics',
+	'1.3.4': 'Orientation',
+	'1.3.5': 'Identify Input Purpose',
+	'1.3.6': 'Identify Purpose',
+	'1.4.1': 'Use of Color',
+	'1.4.2': 'Audio Control',
+	'1.4.3': 'Contrast (Minimum)',
+	'1.4.4': 'Resize Text',
+	'1.4.5': 'Images of Text',
+	'1.4.6': 'Contrast (Enhanced)',
+	'1.4.7': 'Low or No Background Audio',
+	'1.4.8': 'Visual Presentation',
+	'1.4.9': 'Images of Text (No Exception)',
+	'1.4.10': 'Reflow',
+	'1.4.11': 'Non-text Contrast',
+	'1.4.12': 'Text Spacing',
+	'1.4.13': 'Content on Hover or Focus',
+	'2.1.1': 'Keyboard',
+	'2.1.2': 'No Keyboard Trap',
+	'2.1.3': 'Keyboard (No Exception)',
+	'2.1.4': 'Character Key Shortcuts',
+	'2.2.1': 'Timing Adjustable',
+	'2.2.2': 'Pause, Stop, Hide',
+	'2.2.3': 'No Timing',
+	'2.2.4': 'Interruptions',
+	'2.2.5': 'Re-authenticating',
+	'2.2.6': 'Timeouts',
+	'2.3.1': 'Three Flashes or Below Threshold',
+	'2.3.2': 'Three Flashes',
+	'2.3.3': 'Animation from Interactions',
+	'2.4.1': 'Bypass Blocks',
+	'2.4.2': 'Page Titled',
+	'2.4.3': 'Focus Order',
+	'2.4.4': 'Link Purpose (In Context)',
+	'2.4.5': 'Multiple Ways',
+	'2.4.6': 'Headings and Labels',
+	'2.4.7': 'Focus Visible',
+	'2.4.8': 'Location',
+	'2.4.9': 'Link Purpose (Link Only)',
+	'2.4.10': 'Section Headings',
+	'2.4.11': 'Focus Not Obscured (Minimum)',
+	'2.4.12': 'Focus Not Obscured (Enhanced)',
+	'2.4.13': 'Focus Appearance',
+	'2.5.1': 'Pointer Gestures',
+	'2.5.2': 'Pointer Cancellation',
+	'2.5.3': 'Label in Name',
+	'2.5.4': 'Motion Actuation',
+	'2.5.5': 'Target Size (Enhanced)',
+	'2.5.6': 'Concurrent Input Mechanisms',
+	'2.5.7': 'Dragging Movements',
+	'2.5.8': 'Target Size (Minimum)',
+	'3.1.1': 'Language of Page',
+	'3.1.2': 'Language of Parts',
+	'3.1.3': 'Unusual Words',
+	'3.1.4': 'Abbreviations',
+	'3.1.5': 'Reading Level',
+	'3.1.6': 'Pronunciation',
+	'3.2.1': 'On Focus',
+	'3.2.2': 'On Input',
+	'3.2.3': 'Consistent Navigation',
+	'3.2.4': 'Consistent Identification',
+	'3.2.5': 'Change on Request',
+	'3.2.6': 'Consistent Help',
+	'3.3.1': 'Error Identification',
+	'3.3.2': 'Labels or Instructions',
+	'3.3.3': 'Error Suggestion',
+	'3.3.4': 'Error Prevention (Legal, Financial, Data)',
+	'3.3.5': 'Help',
+	'3.3.6': 'Error Prevention (All)',
+	'3.3.7': 'Redundant Entry',
+	'3.3.8': 'Accessible Authentication (Minimum)',
+	'3.3.9': 'Accessible Authentication (Enhanced)',
+	'4.1.1': 'Parsing',
+	'4.1.2': 'Name, Role, Value',
+	'4.1.3': 'Status Messages',
+};
+
 /**
  * Impact level metadata for styling and labels.
  */
@@ -75,6 +186,83 @@ export const PUBLISH_BUTTON_SELECTORS = [
  */
 export const HIGHLIGHT_DURATION = 2000;
 
+/**
+ * Maximum time in milliseconds to wait for axe-core to load in the scan iframe.
+ */
+export const AXE_LOAD_TIMEOUT = 10000;
+
+/**
+ * Viewport widths in pixels to scan at if none are configured.
+ */
+export const DEFAULT_SCAN_VIEWPORTS = [1200];
+
+/**
+ * User-facing labels for each color variant.
+ */
+export const SCAN_VARIANT_LABELS: Record<ScanVariant, string> = {
+	default: 'Default colors',
+	dark: 'Dark color scheme',
+	'forced-colors': 'Forced colors',
+};
+
+/**
+ * User-facing labels for each render mode.
+ */
+export const SCAN_RENDER_MODE_LABELS: Record<ScanRenderMode, string> = {
+	content: 'Post content',
+	'full-page': 'Full page',
+};
+
+/**
+ * User-facing descriptions of why a result could not be mapped to a block.
+ */
+export const UNMAPPED_REASON_LABELS: Record<UnmappedReason, string> = {
+	'no-marker': 'Not inside a block marker',
+	'unknown-block': 'Block not found in the editor',
+	'invalid-selector': 'Element could not be located',
+};
+
+/**
+ * User-facing labels for each kind of synced content.
+ */
+export const SYNCED_SOURCE_LABELS: Record<SyncedSourceType, string> = {
+	pattern: 'Synced pattern',
+	'template-part': 'Template part',
+};
+
+/**
+ * Labels of the action that opens the original of synced content.
+ */
+export const SYNCED_SOURCE_EDIT_LABELS: Record<SyncedSourceType, string> = {
+	pattern: 'Edit original pattern',
+	'template-part': 'Edit template part',
+};
+
+/**
+ * axe rules rerun under the dark and forced-colors variants.
+ */
+export const CONTRAST_RULE_IDS = [
+	'color-contrast',
+	'color-contrast-enhanced',
+	'link-in-text-block',
+];
+
+/**
+ * User-facing labels for each scan phase, in the order they run.
+ */
+export const SCAN_PHASE_LABELS: Record<ScanPhase, string> = {
+	rendering: 'Rendering content',
+	'loading-styles': 'Loading theme styles',
+	'injecting-engine': 'Loading the axe-core engine',
+	analyzing: 'Analyzing content',
+	mapping: 'Mapping results to blocks',
+};
+
+/**
+ * Delay in milliseconds after the last edit before a live scan starts.
+ */
+export const LIVE_SCAN_DELAY = 2000;
+
 /**
  * CSS class names used throughout the plugin.
  */
@@ -89,6 +277,27 @@ export const CSS_CLASSES = {
 	panelContent: 'wpav-panel__content',
 	summary: 'wpav-summary',
 	cardActions: 'wpav-card-actions',
+	dismissForm: 'wpav-dismiss-form',
+	history: 'wpav-history',
+	publishGate: 'wpav-publish-gate',
+	diff: 'wpav-diff',
+	chips: 'wpav-chips',
+	resultControls: 'wpav-result-controls',
+	export: 'wpav-export',
+	bulkScan: 'wpav-bulk-scan',
+	scanProgress: 'wpav-scan-progress',
+	adHocScan: 'wpav-ad-hoc-scan',
+	resultTabs: 'wpav-result-tabs',
+	structure: 'wpav-structure',
+	structureOutline: 'wpav-structure__outline',
+	structureIssue: 'wpav-structure__issue',
+	visualPreview: 'wpav-visual-preview',
+	visualPreviewLegend: 'wpav-visual-preview__legend',
+	visualPreviewSwatch: 'wpav-visual-preview__swatch',
+	visualPreviewFrame: 'wpav-visual-preview__frame',
+	synced: 'wpav-synced',
+	syncedGroup: 'wpav-synced__group',
+	dismissError: 'wpav-dismiss-form__error',
 	toolbarDropdown: 'wpav-toolbar-dropdown',
 	toolbarDropdownContent: 'wpav-toolbar-dropdown__content',
 	blockFlagged: 'wpav-block--flagged',
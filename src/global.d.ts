@@ -1,11 +1,10 @@
+import type { WpavPublicApi, WpavSettings } from './types';
+
 export {};
 
 declare global {
   interface Window {
-    wpavSettings?: {
-      wcagTags?: string[];
-      availableWcagTags?: Record<string, string>;
-      defaultWcagTags?: string[];
-    };
+    wpavSettings?: WpavSettings;
+    wpav?: WpavPublicApi;
   }
 }
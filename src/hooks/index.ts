@@ -9,4 +9,9 @@ export * from './useBlockViolations';
 export * from './useEditorReady';
 export * from './usePreviewUrlWithNonce';
 export * from './useCurrentBlocks';
+export * from './useReviewDecisions';
 
+export * from './useDismissals';
+export * from './usePublishGate';
+export * from './useBulkScan';
+export * from './useLiveScan';
@@ -9,9 +9,35 @@
  * @package WPAccessibilityValidator
  */
 
-import { useState, useCallback } from '@wordpress/element';
-import type { ScanMetrics, StoredScan } from '../types';
-import { runPreviewScan, announceNotice, openResultsPanel } from '../utils';
+import { useState, useCallback, useEffect, useRef } from '@wordpress/element';
+import { dispatch, select, useSelect } from '@wordpress/data';
+import type {
+  PersistScanOptions,
+  ScanMetrics,
+  ScanPhase,
+  ScanProgress,
+  StoredScan,
+  WPBlockEditorStore,
+} from '../types';
+import { STORE_NAME } from '../constants';
+import {
+  runPreviewScan,
+  runBlockScan,
+  collectBlockWpavIds,
+  mergeBlockScanResults,
+  announceNotice,
+  openResultsPanel,
+  hashContent,
+  advanceScanProgress,
+  describeScanProgress,
+  formatScanDuration,
+  getTotalScanDuration,
+  isTemplateIssue,
+  getConfiguredViewports,
+  applyDismissals,
+  getCurrentDismissals,
+} from '../utils';
+import { isAbortError } from '../utils/previewDom';
 import { useCurrentBlocks } from './useCurrentBlocks';
 
 /**
@@ -24,11 +50,17 @@ import { useCurrentBlocks } from './useCurrentBlocks';
  *                                       whether a stored scan is stale.
  * @property {Function} [persistScan]    Optional callback used to persist the
  *                                       completed scan metrics for later use.
+ *                                       Live runs are kept out of the scan
+ *                                       history.
+ * @property {?number}  [activeViewport] Viewport width (px) the user is
+ *                                       looking at; block rescans only run
+ *                                       at this width.
  */
 interface UseAccessibilityScanOptions {
   onScanComplete?: (results: ScanMetrics) => void;
   contentSnapshot: string;
-  persistScan?: (scan: StoredScan) => void;
+  persistScan?: (scan: StoredScan, options?: PersistScanOptions) => void;
+  activeViewport?: number | null;
 }
 
 /**
@@ -51,6 +83,19 @@ interface UseAccessibilityScanOptions {
  * @return {?Date} return.completedAt  Date instance representing when the last
  *                                     scan completed, or null if unknown.
  * @return {Function} return.handleScanClick Handler to trigger a new scan.
+ * @return {Function} return.handleAdHocScan Runs one scan with the given WCAG
+ *                                           tags instead of the configured ones;
+ *                                           its results are not stored.
+ * @return {Function} return.runLiveScan     Starts a quiet background scan,
+ *                                           superseding any scan in flight.
+ * @return {Function} return.cancelScan      Cancels the scan in flight; its
+ *                                           results are discarded.
+ * @return {Function} return.handleCancelClick Cancels the scan in flight and
+ *                                             tells the user.
+ * @return {?ScanProgress} return.scanProgress Phase and timings of the scan in
+ *                                             flight, or null when idle.
+ * @return {?Object} return.lastScanTimings Phase durations of the last
+ *                                          completed scan, if any.
  * @return {Function} return.setScanSummary  Setter for manually updating
  *                                           the current scan summary.
  * @return {Function} return.setCompletedAt  Setter for manually updating
@@ -60,60 +105,152 @@ export const useAccessibilityScan = ({
   onScanComplete,
   contentSnapshot,
   persistScan,
+  activeViewport,
 }: UseAccessibilityScanOptions) => {
   const [isScanning, setIsScanning] = useState(false);
   const [scanSummary, setScanSummary] = useState<ScanMetrics | null>(null);
   const [runError, setRunError] = useState<string | null>(null);
   const [completedAt, setCompletedAt] = useState<Date | null>(null);
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null);
+  const [lastScanTimings, setLastScanTimings] = useState<
+    ScanProgress['timings'] | null
+  >(null);
   const blocks = useCurrentBlocks();
 
-  const handleScanClick = useCallback(async () => {
-    if (isScanning) {
-      return;
-    }
+  // Each run gets an id; results of superseded or cancelled runs are ignored.
+  const scanRunRef = useRef(0);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Block rescans are aborted by any full scan or cancellation.
+  const blockRescanControllerRef = useRef<AbortController | null>(null);
+
+  const runScan = useCallback(async (isLive: boolean, wcagTags?: string[]) => {
+    const runId = ++scanRunRef.current;
+
+    // Only one scan runs at a time: a new run aborts the previous one.
+    abortControllerRef.current?.abort();
+    blockRescanControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Held in an object so the progress callback and the code after the
+    // scan share the same value.
+    const tracker: { progress: ScanProgress | null } = { progress: null };
+
+    const handleProgress = (phase: ScanPhase) => {
+      if (runId !== scanRunRef.current) {
+        return;
+      }
+
+      const progress = advanceScanProgress(tracker.progress, phase);
+      tracker.progress = progress;
+      setScanProgress(progress);
+
+      // Live scans run quietly in the background while the user types.
+      if (!isLive) {
+        announceNotice(
+          'info',
+          `Running preview accessibility scan: ${describeScanProgress(
+            progress
+          )}…`,
+          { isDismissible: false }
+        );
+      }
+    };
 
     setIsScanning(true);
     setRunError(null);
 
-    announceNotice('info', 'Running preview accessibility scan…', {
-      isDismissible: false,
-    });
-
     try {
-      const results = await runPreviewScan(blocks);
+      // Dismissed results are kept out of the counts and the stored scan.
+      const results = applyDismissals(
+        await runPreviewScan(blocks, {
+          signal: controller.signal,
+          onProgress: handleProgress,
+          wcagTags,
+        }),
+        getCurrentDismissals()
+      );
+
+      if (runId !== scanRunRef.current) {
+        return;
+      }
+
+      // Close the final phase so every phase has a duration.
+      const finalProgress = tracker.progress
+        ? advanceScanProgress(tracker.progress, tracker.progress.phase)
+        : null;
+      const timings = finalProgress?.timings ?? {};
+      const durationText = finalProgress
+        ? ` (${formatScanDuration(getTotalScanDuration(timings))})`
+        : '';
+      setLastScanTimings(timings);
+
       setScanSummary(results);
       const completedDate = new Date();
       setCompletedAt(completedDate);
 
-      if (persistScan) {
+      // One-off scans with other tags stay on screen only, so they never
+      // replace the stored scan that other editors and the publish gate see.
+      if (persistScan && !wcagTags) {
         const persisted: StoredScan = {
           ...results,
           completedAt: completedDate.toISOString(),
-          contentHash: contentSnapshot,
+          contentHash: hashContent(contentSnapshot),
         };
-        persistScan(persisted);
+        // Live runs follow every editing pause; history keeps deliberate runs.
+        persistScan(persisted, { saveToHistory: !isLive });
+      }
+
+      onScanComplete?.(results);
+
+      if (isLive) {
+        return;
       }
 
       openResultsPanel();
 
-      if (results.violations.length > 0) {
+      // Template issues are listed separately and left out of the counts.
+      const contentResults = results.violations.filter(
+        (violation) => !isTemplateIssue(violation)
+      );
+      const violationCount = contentResults.filter(
+        (violation) => violation.kind !== 'incomplete'
+      ).length;
+      const reviewCount = contentResults.length - violationCount;
+      const templateIssueCount =
+        results.violations.length - contentResults.length;
+      const reviewText =
+        (reviewCount > 0
+          ? ` ${reviewCount} item${
+              reviewCount === 1 ? ' needs' : 's need'
+            } manual review.`
+          : '') +
+        (templateIssueCount > 0
+          ? ` ${templateIssueCount} template issue${
+              templateIssueCount === 1 ? ' was' : 's were'
+            } found outside the post content.`
+          : '');
+
+      if (violationCount > 0) {
         announceNotice(
           'warning',
-          `Accessibility scan complete. Found ${
-            results.violations.length
-          } violation${results.violations.length === 1 ? '' : 's'}.`,
+          `Accessibility scan complete${durationText}. Found ${violationCount} violation${
+            violationCount === 1 ? '' : 's'
+          }.${reviewText}`,
           { isDismissible: true }
         );
       } else {
         announceNotice(
           'success',
-          'Accessibility scan complete. No violations detected.',
+          `Accessibility scan complete${durationText}. No violations detected.${reviewText}`,
           { isDismissible: true }
         );
       }
-
-      onScanComplete?.(results);
     } catch (error) {
+      if (runId !== scanRunRef.current || isAbortError(error)) {
+        return;
+      }
+
       const errorMessage =
         'Unable to complete the accessibility scan. Please try again.';
       setRunError(errorMessage);
@@ -127,9 +264,161 @@ export const useAccessibilityScan = ({
         { isDismissible: true }
       );
     } finally {
-      setIsScanning(false);
+      if (runId === scanRunRef.current) {
+        abortControllerRef.current = null;
+        setIsScanning(false);
+        setScanProgress(null);
+      }
+    }
+  }, [blocks, contentSnapshot, onScanComplete, persistScan]);
+
+  const handleScanClick = useCallback(() => {
+    if (isScanning) {
+      return;
     }
-  }, [contentSnapshot, onScanComplete, persistScan, isScanning]);
+
+    runScan(false);
+  }, [isScanning, runScan]);
+
+  const handleAdHocScan = useCallback(
+    (wcagTags: string[]) => {
+      if (isScanning) {
+        return;
+      }
+
+      runScan(false, wcagTags);
+    },
+    [isScanning, runScan]
+  );
+
+  const runLiveScan = useCallback(() => {
+    runScan(true);
+  }, [runScan]);
+
+  const cancelScan = useCallback(() => {
+    scanRunRef.current++;
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    blockRescanControllerRef.current?.abort();
+    setIsScanning(false);
+    setScanProgress(null);
+  }, []);
+
+  const handleCancelClick = useCallback(() => {
+    cancelScan();
+    announceNotice('info', 'Accessibility scan cancelled.', {
+      isDismissible: true,
+    });
+  }, [cancelScan]);
+
+  // Block rescans requested from the block toolbar or block settings menu.
+  const nextBlockRescan = useSelect(
+    (selectFn) =>
+      ((selectFn(STORE_NAME) as any)?.getBlockRescanQueue?.() ?? [])[0] as
+        | string
+        | undefined,
+    []
+  );
+  const isRescanningRef = useRef(false);
+
+  useEffect(() => {
+    if (!nextBlockRescan || isScanning || isRescanningRef.current) {
+      return;
+    }
+
+    const block = (
+      select('core/block-editor') as WPBlockEditorStore
+    ).getBlock(nextBlockRescan);
+
+    // The rescan belongs to the current full scan run; a newer run or a
+    // cancellation aborts it and its results are dropped.
+    const runId = scanRunRef.current;
+    const controller = new AbortController();
+    const isStale = () =>
+      controller.signal.aborted || runId !== scanRunRef.current;
+
+    const completeRescan = () => {
+      if (blockRescanControllerRef.current === controller) {
+        blockRescanControllerRef.current = null;
+      }
+      isRescanningRef.current = false;
+      (dispatch(STORE_NAME) as any)?.completeBlockRescan?.(nextBlockRescan);
+    };
+
+    if (!block) {
+      completeRescan();
+      return;
+    }
+
+    isRescanningRef.current = true;
+    blockRescanControllerRef.current = controller;
+
+    // Partial rescans update the results on screen only; scan history keeps
+    // full runs, so the stored scan is left untouched.
+    // A viewport that is no longer configured falls back to the default.
+    const viewports =
+      activeViewport && getConfiguredViewports().includes(activeViewport)
+        ? [activeViewport]
+        : undefined;
+
+    runBlockScan(block, blocks, { viewports, signal: controller.signal })
+      .then((blockScan) => {
+        if (isStale()) {
+          return;
+        }
+
+        const dismissals = getCurrentDismissals();
+        const scopedScan = applyDismissals(blockScan, dismissals);
+
+        setScanSummary((current) =>
+          current
+            ? applyDismissals(
+                mergeBlockScanResults(
+                  current,
+                  blockScan,
+                  collectBlockWpavIds(block)
+                ),
+                dismissals
+              )
+            : scopedScan
+        );
+
+        const count = scopedScan.violations.filter(
+          (violation) => violation.kind !== 'incomplete'
+        ).length;
+
+        announceNotice(
+          count > 0 ? 'warning' : 'success',
+          count > 0
+            ? `Block rescan complete. Found ${count} violation${
+                count === 1 ? '' : 's'
+              }.`
+            : 'Block rescan complete. No violations detected.',
+          { isDismissible: true }
+        );
+      })
+      .catch((error) => {
+        if (isStale() || isAbortError(error)) {
+          return;
+        }
+
+        console.error('Block rescan failed', error);
+        announceNotice(
+          'error',
+          'Block rescan failed. Check the console for details and try again.',
+          { isDismissible: true }
+        );
+      })
+      .finally(completeRescan);
+  }, [nextBlockRescan, isScanning, blocks, activeViewport]);
+
+  // Abort a block rescan in flight when the editor closes.
+  useEffect(
+    () => () => {
+      blockRescanControllerRef.current?.abort();
+    },
+    []
+  );
 
   return {
     isScanning,
@@ -137,6 +426,12 @@ export const useAccessibilityScan = ({
     runError,
     completedAt,
     handleScanClick,
+    handleAdHocScan,
+    runLiveScan,
+    cancelScan,
+    handleCancelClick,
+    scanProgress,
+    lastScanTimings,
     setScanSummary,
     setCompletedAt,
   };
@@ -1,8 +1,11 @@
 /**
  * Block violations hook.
  *
- * Groups accessibility scan violations by block and syncs summary information
- * into the plugin data store for use by other UI components.
+ * Groups accessibility scan violations by block, separating confirmed
+ * violations from results that need manual review, from template issues
+ * found outside the post content and from results that could not be mapped
+ * to a block, and syncs summary
+ * information into the plugin data store for use by other UI components.
  *
  * @package WPAccessibilityValidator
  */
@@ -12,125 +15,246 @@
  */
 
 import { useMemo, useEffect } from '@wordpress/element';
-import { dispatch } from '@wordpress/data';
-import type { ScanMetrics, ViolationWithContext } from '../types';
+import { dispatch, useSelect } from '@wordpress/data';
+import type {
+	ReviewDecision,
+	ScanMetrics,
+	ViolationDismissal,
+	ViolationGroup,
+	ViolationWithContext,
+} from '../types';
 import { STORE_NAME } from '../constants';
+import { resolveViolationKind } from '../utils/violations';
+import { isTemplateIssue } from '../utils/renderMode';
+import { isUnmappedFinding } from '../utils/unmapped';
+import {
+	groupViolationsByBlock,
+	groupViolationsByCriterion,
+	groupViolationsByImpact,
+	groupViolationsByRule,
+} from '../utils/grouping';
 
 /**
  * Result shape for the block violations hook.
  *
  * @typedef {Object} UseBlockViolationsResult
+ * @property {Array}  violations             Confirmed violations, including review items marked as failed.
+ * @property {Array}  reviewItems            Review items that still need a decision.
+ * @property {Array}  passedReviewItems      Review items marked as passed.
+ * @property {Array}  dismissedViolations    Results dismissed as "won't fix".
+ * @property {Array}  templateIssues         Results found in the theme template, outside the post content.
+ * @property {Array}  unmappedFindings       Results that could not be mapped to a block.
  * @property {Array}  violationsByBlock      Array of grouped violations keyed by block.
+ * @property {Array}  violationsByRule       Violations grouped by axe rule id.
+ * @property {Array}  violationsByImpact     Violations grouped by impact, most severe first.
+ * @property {Array}  violationsByCriterion  Violations grouped by WCAG success criterion.
+ * @property {Array}  reviewItemsByBlock     Array of grouped review items keyed by block.
  * @property {Object} blockViolationTotals   Map of block client ID to total violation count.
  * @property {Object} blockViolationDetails  Map of block client ID to detailed violation list.
+ * @property {Object} blockReviewDetails     Map of block client ID to pending review items.
+ * @property {Object} reviewDecisions        Recorded review decisions keyed by instance key.
+ * @property {Object} dismissals             Dismissals keyed by instance key.
  */
-interface BlockViolationGroup {
-  key: string;
-  label: string;
-  violations: ViolationWithContext[];
-}
-
 interface UseBlockViolationsResult {
-  violationsByBlock: BlockViolationGroup[];
+  violations: ViolationWithContext[];
+  reviewItems: ViolationWithContext[];
+  passedReviewItems: ViolationWithContext[];
+  dismissedViolations: ViolationWithContext[];
+  templateIssues: ViolationWithContext[];
+  unmappedFindings: ViolationWithContext[];
+  violationsByBlock: ViolationGroup[];
+  violationsByRule: ViolationGroup[];
+  violationsByImpact: ViolationGroup[];
+  violationsByCriterion: ViolationGroup[];
+  reviewItemsByBlock: ViolationGroup[];
   blockViolationTotals: Record<string, number>;
   blockViolationDetails: Record<string, ViolationWithContext[]>;
+  blockReviewDetails: Record<string, ViolationWithContext[]>;
+  reviewDecisions: Record<string, ReviewDecision>;
+  dismissals: Record<string, ViolationDismissal>;
 }
 
+/**
+ * Maps violations to their block client IDs.
+ *
+ * @param {ViolationWithContext[]} violations Violations to index.
+ * @return {Record<string, ViolationWithContext[]>} Violations keyed by block.
+ */
+const detailsByBlock = (
+	violations: ViolationWithContext[]
+): Record<string, ViolationWithContext[]> =>
+	violations.reduce<Record<string, ViolationWithContext[]>>(
+		(acc, violation) => {
+			if (!violation.blockClientId) {
+				return acc;
+			}
+			if (!acc[violation.blockClientId]) {
+				acc[violation.blockClientId] = [];
+			}
+			acc[violation.blockClientId].push(violation);
+			return acc;
+		},
+		{}
+	);
+
 /**
  * Hook for deriving and tracking block-level violations.
  *
- * Groups violations by block for display and calculates per-block totals
- * and details. When the grouped data changes, it is synchronized to the
+ * Splits results into confirmed violations, review items, template issues
+ * and unmapped findings (applying any recorded review decisions), groups them by block for display and
+ * calculates per-block totals and details. When the grouped data changes, it is synchronized to the
  * plugin's custom data store so other components can consume it.
  *
  * @since 1.0.0
  *
  * @param {ScanMetrics|null} scanSummary Scan results for the current run,
- *                                       or null if no scan has been performed.
+ *                                       with dismissals applied, or null if
+ *                                       no scan has been performed.
  * @return {UseBlockViolationsResult} Grouped violation data and maps keyed
  *                                    by block client ID.
  */
 export const useBlockViolations = (
   scanSummary: ScanMetrics | null
 ): UseBlockViolationsResult => {
-	// Group violations by block for display
-	const violationsByBlock = useMemo<BlockViolationGroup[]>(() => {
-		if (!scanSummary) {
-			return [];
-		}
-
-		const grouped: Record<
-			string,
-			{ label: string; violations: ViolationWithContext[] }
-		> = {};
-
-		scanSummary.violations.forEach((violation, index) => {
-			const label = violation.blockName || 'Unknown block';
-			const key = violation.blockClientId || `${label}-${index}`;
-
-			if (!grouped[key]) {
-				grouped[key] = { label, violations: [] };
+	const { reviewDecisions, dismissals } = useSelect((selectFn) => {
+		const store = selectFn(STORE_NAME) as any;
+
+		return {
+			reviewDecisions: (store?.getReviewDecisions?.() ?? {}) as Record<
+				string,
+				ReviewDecision
+			>,
+			dismissals: (store?.getDismissals?.() ?? {}) as Record<
+				string,
+				ViolationDismissal
+			>,
+		};
+	}, []);
+
+	// Split results into confirmed violations, items needing review,
+	// template issues and unmapped findings. The last two belong to no block,
+	// so they are kept out of block totals and the publish gate. Dismissed
+	// results are already split out of the scan's violations.
+	const {
+		violations,
+		reviewItems,
+		passedReviewItems,
+		dismissedViolations,
+		templateIssues,
+		unmappedFindings,
+	} = useMemo(() => {
+		const split = {
+			violations: [] as ViolationWithContext[],
+			reviewItems: [] as ViolationWithContext[],
+			passedReviewItems: [] as ViolationWithContext[],
+			dismissedViolations: scanSummary?.dismissedViolations ?? [],
+			templateIssues: [] as ViolationWithContext[],
+			unmappedFindings: [] as ViolationWithContext[],
+		};
+
+		scanSummary?.violations.forEach((violation) => {
+			if (isTemplateIssue(violation)) {
+				split.templateIssues.push(violation);
+				return;
+			}
+
+			if (isUnmappedFinding(violation)) {
+				split.unmappedFindings.push(violation);
+				return;
+			}
+
+			const kind = resolveViolationKind(violation, reviewDecisions);
+
+			if (kind === 'violation') {
+				split.violations.push(violation);
+			} else if (kind === 'incomplete') {
+				split.reviewItems.push(violation);
+			} else {
+				split.passedReviewItems.push(violation);
 			}
-			grouped[key].violations.push(violation);
 		});
 
-		return Object.entries(grouped).map(([key, value]) => ({
-			key,
-			...value,
-		}));
-	}, [scanSummary]);
+		return split;
+	}, [scanSummary, reviewDecisions]);
 
-	// Calculate total violations per block
-	const blockViolationTotals = useMemo(() => {
-		if (!scanSummary) {
-			return {};
-		}
+	// Group violations by block for display
+	const violationsByBlock = useMemo(
+		() => groupViolationsByBlock(violations),
+		[violations]
+	);
+
+	// Alternative groupings for working through many similar issues
+	const violationsByRule = useMemo(
+		() => groupViolationsByRule(violations),
+		[violations]
+	);
+
+	const violationsByImpact = useMemo(
+		() => groupViolationsByImpact(violations),
+		[violations]
+	);
+
+	const violationsByCriterion = useMemo(
+		() => groupViolationsByCriterion(violations),
+		[violations]
+	);
+
+	const reviewItemsByBlock = useMemo(
+		() => groupViolationsByBlock(reviewItems),
+		[reviewItems]
+	);
 
-		return scanSummary.violations.reduce<Record<string, number>>(
-			(acc, violation) => {
+	// Calculate total violations per block
+	const blockViolationTotals = useMemo(
+		() =>
+			violations.reduce<Record<string, number>>((acc, violation) => {
 				if (!violation.blockClientId) {
 					return acc;
 				}
 
 				acc[violation.blockClientId] = (acc[violation.blockClientId] || 0) + 1;
 				return acc;
-			},
-			{}
-		);
-	}, [scanSummary]);
+			}, {}),
+		[violations]
+	);
 
-	// Group detailed violations by block
-	const blockViolationDetails = useMemo(() => {
-		if (!scanSummary) {
-			return {};
-		}
+	// Group detailed violations and review items by block
+	const blockViolationDetails = useMemo(
+		() => detailsByBlock(violations),
+		[violations]
+	);
 
-		return scanSummary.violations.reduce<
-			Record<string, ViolationWithContext[]>
-		>((acc, violation) => {
-			if (!violation.blockClientId) {
-				return acc;
-			}
-			if (!acc[violation.blockClientId]) {
-				acc[violation.blockClientId] = [];
-			}
-			acc[violation.blockClientId].push(violation);
-			return acc;
-		}, {});
-	}, [scanSummary]);
+	const blockReviewDetails = useMemo(
+		() => detailsByBlock(reviewItems),
+		[reviewItems]
+	);
 
 	// Update the violation store when violations change
 	useEffect(() => {
 		const storeDispatch = dispatch(STORE_NAME) as any;
 		storeDispatch?.setBlockViolations?.(
 			blockViolationTotals,
-			blockViolationDetails
+			blockViolationDetails,
+			blockReviewDetails
 		);
-	}, [blockViolationTotals, blockViolationDetails]);
+	}, [blockViolationTotals, blockViolationDetails, blockReviewDetails]);
 
 	return {
+		violations,
+		reviewItems,
+		passedReviewItems,
+		dismissedViolations,
+		templateIssues,
+		unmappedFindings,
 		violationsByBlock,
+		violationsByRule,
+		violationsByImpact,
+		violationsByCriterion,
+		reviewItemsByBlock,
 		blockViolationTotals,
 		blockViolationDetails,
+		blockReviewDetails,
+		reviewDecisions,
+		dismissals,
 	};
 };
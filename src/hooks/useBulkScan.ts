@@ -0,0 +1,123 @@
+/**
+ * Bulk scan hook.
+ *
+ * Queues posts matching the dashboard filters and scans their saved
+ * content one post at a time in a hidden iframe, exposing per-post
+ * progress and results to the bulk scan dashboard.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import { useState, useCallback, useRef } from '@wordpress/element';
+import type { BulkScanQuery, BulkScanResult } from '../types';
+import {
+	fetchBulkScanPosts,
+	createQueuedBulkResult,
+	summarizeBulkScan,
+	runPostScan,
+	applyDismissals,
+	fetchPostDismissals,
+} from '../utils';
+
+/**
+ * Hook for managing a site-wide bulk scan.
+ *
+ * @since 2.2.0
+ *
+ * @return {Object} Bulk scan state and handlers.
+ * @return {BulkScanResult[]} return.results   One entry per queued post.
+ * @return {boolean}          return.isQueueing Whether posts are being fetched.
+ * @return {boolean}          return.isRunning  Whether the queue is being scanned.
+ * @return {?string}          return.error      Queueing error, if any.
+ * @return {Function}         return.queuePosts Fetches posts for the given filters.
+ * @return {Function}         return.start      Scans every queued post not yet done.
+ * @return {Function}         return.stop       Stops after the current post.
+ */
+export const useBulkScan = () => {
+	const [results, setResults] = useState<BulkScanResult[]>([]);
+	const [isQueueing, setIsQueueing] = useState(false);
+	const [isRunning, setIsRunning] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const stopRequestedRef = useRef(false);
+
+	const updateResult = useCallback((result: BulkScanResult) => {
+		setResults((current) =>
+			current.map((entry) =>
+				entry.post.id === result.post.id ? result : entry
+			)
+		);
+	}, []);
+
+	const queuePosts = useCallback(async (query: BulkScanQuery) => {
+		setIsQueueing(true);
+		setError(null);
+
+		try {
+			const posts = await fetchBulkScanPosts(query);
+			setResults(posts.map(createQueuedBulkResult));
+		} catch (queueError) {
+			setError(
+				queueError instanceof Error
+					? queueError.message
+					: 'Failed to load posts for the bulk scan.'
+			);
+		} finally {
+			setIsQueueing(false);
+		}
+	}, []);
+
+	const start = useCallback(async () => {
+		if (isRunning) {
+			return;
+		}
+
+		stopRequestedRef.current = false;
+		setIsRunning(true);
+
+		const pending = results.filter((result) => result.status !== 'done');
+
+		for (const result of pending) {
+			if (stopRequestedRef.current) {
+				break;
+			}
+
+			updateResult({ ...result, status: 'scanning', error: undefined });
+
+			try {
+				const scan = await runPostScan(result.post.id, {
+					scanSettings: result.post.scanSettings,
+				});
+				// Results dismissed in the editor are not counted.
+				const dismissals = await fetchPostDismissals(result.post.id);
+				updateResult(
+					summarizeBulkScan(result, applyDismissals(scan, dismissals))
+				);
+			} catch (scanError) {
+				updateResult({
+					...result,
+					status: 'error',
+					error:
+						scanError instanceof Error
+							? scanError.message
+							: 'Scan failed.',
+				});
+			}
+		}
+
+		setIsRunning(false);
+	}, [isRunning, results, updateResult]);
+
+	const stop = useCallback(() => {
+		stopRequestedRef.current = true;
+	}, []);
+
+	return {
+		results,
+		isQueueing,
+		isRunning,
+		error,
+		queuePosts,
+		start,
+		stop,
+	};
+};
@@ -0,0 +1,78 @@
+/**
+ * Dismissals hook.
+ *
+ * Loads the violation dismissals stored in post meta into the plugin data
+ * store and drops dismissals automatically once the dismissed block's
+ * content changes.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import { useEffect, useRef } from '@wordpress/element';
+import { useSelect } from '@wordpress/data';
+import type { ViolationDismissal, WPBlock } from '../types';
+import { STORE_NAME } from '../constants';
+import {
+	fetchDismissals,
+	findStaleDismissals,
+	removeDismissals,
+} from '../utils';
+
+/**
+ * Hook for loading and pruning violation dismissals for a post.
+ *
+ * @since 2.2.0
+ *
+ * @param {number|null} postId The current post ID, or null if none.
+ * @param {WPBlock[]}   blocks Flattened editor blocks.
+ * @return {Record<string, ViolationDismissal>} Current dismissals keyed by
+ *                                              instance key.
+ */
+export const useDismissals = (
+	postId: number | null,
+	blocks: WPBlock[]
+): Record<string, ViolationDismissal> => {
+	const dismissals = useSelect(
+		(selectFn) =>
+			((selectFn(STORE_NAME) as any)?.getDismissals?.() ??
+				{}) as Record<string, ViolationDismissal>,
+		[]
+	);
+
+	// Keys whose removal has already been requested, to avoid duplicate calls.
+	const pendingRemovalRef = useRef<Set<string>>(new Set());
+
+	useEffect(() => {
+		if (!postId) {
+			return;
+		}
+
+		fetchDismissals(postId).catch((error) => {
+			// eslint-disable-next-line no-console
+			console.warn('Unable to load accessibility dismissals.', error);
+		});
+	}, [postId]);
+
+	useEffect(() => {
+		const staleKeys = findStaleDismissals(dismissals, blocks).filter(
+			(key) => !pendingRemovalRef.current.has(key)
+		);
+
+		if (staleKeys.length === 0) {
+			return;
+		}
+
+		staleKeys.forEach((key) => pendingRemovalRef.current.add(key));
+
+		removeDismissals(staleKeys)
+			.catch((error) => {
+				// eslint-disable-next-line no-console
+				console.warn('Unable to remove outdated dismissals.', error);
+			})
+			.finally(() => {
+				staleKeys.forEach((key) => pendingRemovalRef.current.delete(key));
+			});
+	}, [dismissals, blocks]);
+
+	return dismissals;
+};
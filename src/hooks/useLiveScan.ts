@@ -0,0 +1,113 @@
+/**
+ * Live scan hook.
+ *
+ * Implements the opt-in live mode: once editing pauses, the post is
+ * rescanned automatically. Scans still in flight are cancelled as soon as
+ * the content changes again, and no scan runs when the content matches the
+ * last scanned snapshot.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import { useState, useCallback, useEffect, useRef } from '@wordpress/element';
+import { LIVE_SCAN_DELAY } from '../constants';
+import { getLiveScanPreference, saveLiveScanPreference } from '../utils';
+
+/**
+ * Options for the live scan hook.
+ *
+ * @typedef {Object} UseLiveScanOptions
+ * @property {boolean}  isAvailable     Whether scanning is currently possible.
+ * @property {string}   contentHash     Hash of the current content snapshot.
+ * @property {?string}  scannedHash     Hash of the last scanned snapshot.
+ * @property {Function} runLiveScan     Starts a background scan.
+ * @property {Function} cancelScan      Cancels the scan in flight.
+ */
+interface UseLiveScanOptions {
+  isAvailable: boolean;
+  contentHash: string;
+  scannedHash: string | null;
+  runLiveScan: () => void;
+  cancelScan: () => void;
+}
+
+/**
+ * Hook for the debounced live scan mode.
+ *
+ * @since 2.2.0
+ *
+ * @param {UseLiveScanOptions} options Hook options.
+ * @return {Object} Live mode state.
+ * @return {boolean}  return.isLiveScanEnabled Whether live mode is on.
+ * @return {Function} return.setLiveScanEnabled Turns live mode on or off and
+ *                                              stores the choice for the user.
+ */
+export const useLiveScan = ({
+  isAvailable,
+  contentHash,
+  scannedHash,
+  runLiveScan,
+  cancelScan,
+}: UseLiveScanOptions) => {
+  const [isLiveScanEnabled, setIsLiveScanEnabled] = useState(
+    getLiveScanPreference
+  );
+
+  // Keep the latest callbacks without rescheduling the debounce timer.
+  const runLiveScanRef = useRef(runLiveScan);
+  const cancelScanRef = useRef(cancelScan);
+  runLiveScanRef.current = runLiveScan;
+  cancelScanRef.current = cancelScan;
+
+  // Hash of the snapshot the current (or last) live scan was started for.
+  const pendingHashRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isLiveScanEnabled || !isAvailable) {
+      return;
+    }
+
+    if (contentHash === scannedHash || contentHash === pendingHashRef.current) {
+      return;
+    }
+
+    // The content changed again: results for the old snapshot are useless.
+    if (pendingHashRef.current) {
+      cancelScanRef.current();
+      pendingHashRef.current = null;
+    }
+
+    const timeoutId = window.setTimeout(() => {
+      pendingHashRef.current = contentHash;
+      runLiveScanRef.current();
+    }, LIVE_SCAN_DELAY);
+
+    return () => {
+      window.clearTimeout(timeoutId);
+    };
+  }, [isLiveScanEnabled, isAvailable, contentHash, scannedHash]);
+
+  // Once the scan for the pending snapshot has been stored, nothing is in flight.
+  useEffect(() => {
+    if (scannedHash && scannedHash === pendingHashRef.current) {
+      pendingHashRef.current = null;
+    }
+  }, [scannedHash]);
+
+  const setLiveScanEnabled = useCallback((enabled: boolean) => {
+    setIsLiveScanEnabled(enabled);
+
+    saveLiveScanPreference(enabled).catch((error) => {
+      // eslint-disable-next-line no-console
+      console.warn(
+        'WPAccessibilityValidator: failed to save the live mode preference',
+        error
+      );
+    });
+  }, []);
+
+  return {
+    isLiveScanEnabled,
+    setLiveScanEnabled,
+  };
+};
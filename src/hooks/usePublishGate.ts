@@ -0,0 +1,201 @@
+/**
+ * Publish gate hook.
+ *
+ * Enforces the publish gate policy configured on the settings page by
+ * locking post saving while the latest scan has violations at or above the
+ * configured impact level, or while the scan is missing or stale. The lock
+ * disables the Publish and Update buttons; drafts can still be saved with
+ * "Save draft" and are still autosaved, while autosaving is locked as well
+ * once the post is public. Users with the configured capability can
+ * override the gate with a recorded justification.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import {
+	useState,
+	useEffect,
+	useMemo,
+	useCallback,
+} from '@wordpress/element';
+import { dispatch, useSelect } from '@wordpress/data';
+import type {
+	PublishOverride,
+	ViolationWithContext,
+	WPEditorStore,
+} from '../types';
+import { PUBLISH_GATE_LOCK, PUBLISH_GATE_STATUSES } from '../constants';
+import {
+	fetchPublishOverrides,
+	getImpactMeta,
+	getPublishGateSettings,
+	isImpactAtLeast,
+	recordPublishOverride,
+} from '../utils';
+
+/**
+ * Options for the publish gate hook.
+ *
+ * @typedef {Object} UsePublishGateOptions
+ * @property {?number} postId      The current post ID.
+ * @property {Array}   violations  Confirmed violations (excluding dismissed results).
+ * @property {boolean} hasScan     Whether a scan result is available.
+ * @property {boolean} isScanStale Whether the latest scan no longer matches the content.
+ * @property {string}  contentHash Hash of the current content snapshot.
+ */
+interface UsePublishGateOptions {
+	postId: number | null;
+	violations: ViolationWithContext[];
+	hasScan: boolean;
+	isScanStale: boolean;
+	contentHash: string;
+}
+
+/**
+ * Result shape for the publish gate hook.
+ *
+ * @typedef {Object} UsePublishGateResult
+ * @property {boolean}  isEnabled      Whether the publish gate is enabled.
+ * @property {boolean}  isBlocked      Whether publishing is currently blocked.
+ * @property {string[]} blockingIssues Human-readable list of blocking issues.
+ * @property {boolean}  canOverride    Whether the current user may override the gate.
+ * @property {?Object}  override       Override that applies to the current content.
+ * @property {Function} submitOverride Records an override with a reason.
+ */
+interface UsePublishGateResult {
+	isEnabled: boolean;
+	isBlocked: boolean;
+	blockingIssues: string[];
+	canOverride: boolean;
+	override: PublishOverride | null;
+	submitOverride: (reason: string) => Promise<void>;
+}
+
+/**
+ * Hook for enforcing the publish gate policy.
+ *
+ * @since 2.2.0
+ *
+ * @param {UsePublishGateOptions} options Scan state for the current post.
+ * @return {UsePublishGateResult} Gate state and override handler.
+ */
+export const usePublishGate = ({
+	postId,
+	violations,
+	hasScan,
+	isScanStale,
+	contentHash,
+}: UsePublishGateOptions): UsePublishGateResult => {
+	const settings = useMemo(() => getPublishGateSettings(), []);
+	const [overrides, setOverrides] = useState<PublishOverride[]>([]);
+
+	// Load recorded overrides for the post
+	useEffect(() => {
+		if (!settings.enabled || !postId) {
+			return;
+		}
+
+		fetchPublishOverrides(postId)
+			.then(setOverrides)
+			.catch((error) => {
+				// eslint-disable-next-line no-console
+				console.warn('Unable to load publish gate overrides.', error);
+			});
+	}, [settings.enabled, postId]);
+
+	const blockingIssues = useMemo(() => {
+		if (!settings.enabled) {
+			return [];
+		}
+
+		const issues: string[] = [];
+
+		if (settings.blockWhenStale && !hasScan) {
+			issues.push('No accessibility scan has been run for this content.');
+		} else if (settings.blockWhenStale && isScanStale) {
+			issues.push('The latest accessibility scan is out of date.');
+		}
+
+		violations
+			.filter((violation) =>
+				isImpactAtLeast(violation.impact, settings.minImpact)
+			)
+			.forEach((violation) => {
+				issues.push(
+					`${getImpactMeta(violation.impact).label}: ${violation.help}${
+						violation.blockName ? ` (${violation.blockName})` : ''
+					}`
+				);
+			});
+
+		return issues;
+	}, [settings, violations, hasScan, isScanStale]);
+
+	// An override only applies to the exact content it was recorded for.
+	const override = useMemo(
+		() =>
+			overrides.find((entry) => entry.contentHash === contentHash) ?? null,
+		[overrides, contentHash]
+	);
+
+	const isBlocked = blockingIssues.length > 0 && !override;
+
+	// Autosaving a draft only saves the draft, so it stays unlocked.
+	const isPublic = useSelect(
+		(selectFn) =>
+			PUBLISH_GATE_STATUSES.includes(
+				String(
+					(
+						selectFn('core/editor') as Partial<WPEditorStore>
+					)?.getCurrentPostAttribute?.('status')
+				)
+			),
+		[]
+	);
+
+	// Lock saving while the gate is closed
+	useEffect(() => {
+		const editorDispatch = dispatch('core/editor') as any;
+
+		if (!isBlocked) {
+			return;
+		}
+
+		editorDispatch?.lockPostSaving?.(PUBLISH_GATE_LOCK);
+
+		if (isPublic) {
+			editorDispatch?.lockPostAutosaving?.(PUBLISH_GATE_LOCK);
+		}
+
+		return () => {
+			editorDispatch?.unlockPostSaving?.(PUBLISH_GATE_LOCK);
+			editorDispatch?.unlockPostAutosaving?.(PUBLISH_GATE_LOCK);
+		};
+	}, [isBlocked, isPublic]);
+
+	const submitOverride = useCallback(
+		async (reason: string) => {
+			if (!postId) {
+				return;
+			}
+
+			const updated = await recordPublishOverride(
+				postId,
+				reason,
+				contentHash,
+				blockingIssues
+			);
+			setOverrides(updated);
+		},
+		[postId, contentHash, blockingIssues]
+	);
+
+	return {
+		isEnabled: settings.enabled,
+		isBlocked,
+		blockingIssues,
+		canOverride: settings.canOverride,
+		override,
+		submitOverride,
+	};
+};
@@ -0,0 +1,48 @@
+/**
+ * Review decisions hook.
+ *
+ * Loads the manual review decisions stored in post meta for the current
+ * post into the plugin data store, so every UI surface can resolve whether
+ * a "needs review" result has been marked as passed or failed.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import { useEffect } from '@wordpress/element';
+import { dispatch } from '@wordpress/data';
+import { STORE_NAME } from '../constants';
+import { fetchReviewDecisions } from '../utils';
+
+/**
+ * Hook for loading stored review decisions for a post.
+ *
+ * @since 2.2.0
+ *
+ * @param {number|null} postId The current post ID, or null if none.
+ */
+export const useReviewDecisions = (postId: number | null): void => {
+	useEffect(() => {
+		let cancelled = false;
+
+		(dispatch(STORE_NAME) as any)?.setReviewDecisions?.({});
+
+		if (!postId) {
+			return;
+		}
+
+		fetchReviewDecisions(postId)
+			.then((decisions) => {
+				if (!cancelled) {
+					(dispatch(STORE_NAME) as any)?.setReviewDecisions?.(decisions);
+				}
+			})
+			.catch((error) => {
+				// eslint-disable-next-line no-console
+				console.warn('Unable to load review decisions.', error);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [postId]);
+};
@@ -2,68 +2,107 @@
  * Stored scan hook.
  *
  * Provides a React hook for loading, tracking, and persisting stored
- * accessibility scan results keyed by post. Stored scans are cached in
- * browser storage and marked as stale when the current content no longer
- * matches the stored snapshot.
+ * accessibility scan results keyed by post. Scan runs are stored
+ * server-side per post, so every editor sees the same results and
+ * history, and are cached in browser storage so the latest results remain
+ * available offline. Stored scans are marked as stale when the current
+ * content no longer matches the stored snapshot hash, or when they were
+ * run with different WCAG tags than the configured ones.
  *
  * @package WPAccessibilityValidator
  */
 
 import { useState, useEffect, useMemo, useCallback } from '@wordpress/element';
-import type { StoredScan } from '../types';
-import { getStorageKey, loadStoredScan, saveStoredScan } from '../utils';
+import type { PersistScanOptions, StoredScan } from '../types';
+import {
+  fetchScanHistory,
+  getStorageKey,
+  hashContent,
+  haveSameWcagTags,
+  loadStoredScan,
+  saveScanToHistory,
+  saveStoredScan,
+} from '../utils';
 
 /**
  * Result shape for the stored scan hook.
  *
  * @typedef {Object} UseStoredScanResult
- * @property {?StoredScan} storedScan   The most recently stored scan for the post,
- *                                      or null if none is available.
- * @property {boolean}     isScanStale  Whether the stored scan no longer matches
- *                                      the current content snapshot.
- * @property {Function}    persistScan  Function for persisting a new scan result.
- * @property {?string}     storageKey   Storage key used for this post, or null
- *                                      when a key cannot be generated.
+ * @property {?StoredScan}  storedScan       The most recently stored scan for the post,
+ *                                           or null if none is available.
+ * @property {StoredScan[]} history          Stored scan runs for the post, newest first.
+ * @property {boolean}      isHistoryLoading Whether the server-side history is loading.
+ * @property {boolean}      isScanStale      Whether the stored scan no longer matches
+ *                                           the current content snapshot or tags.
+ * @property {boolean}      hasTagChange     Whether the stored scan used different
+ *                                           WCAG tags than the configured ones.
+ * @property {string}       contentHash      Hash of the current content snapshot.
+ * @property {Function}     persistScan      Function for persisting a new scan result,
+ *                                           optionally without adding it to the
+ *                                           server-side history.
+ * @property {?string}      storageKey       Storage key used for this post, or null
+ *                                           when a key cannot be generated.
  */
 interface UseStoredScanResult {
   storedScan: StoredScan | null;
+  history: StoredScan[];
+  isHistoryLoading: boolean;
   isScanStale: boolean;
-  persistScan: (scan: StoredScan) => void;
+  hasTagChange: boolean;
+  contentHash: string;
+  persistScan: (scan: StoredScan, options?: PersistScanOptions) => void;
   storageKey: string | null;
 }
 
+/**
+ * Returns whether scan `a` completed after scan `b`.
+ *
+ * @param {StoredScan}  a Candidate scan.
+ * @param {?StoredScan} b Scan to compare against.
+ * @return {boolean} True when `a` is newer, or `b` is missing.
+ */
+const isNewerScan = (a: StoredScan, b: StoredScan | null): boolean =>
+  !b || Date.parse(a.completedAt) > Date.parse(b.completedAt);
+
 /**
  * Hook for managing stored accessibility scan results.
  *
- * Loads any stored scan data for the given post ID, determines whether it is
- * stale relative to the current content snapshot, and provides a helper for
- * persisting new scan results. Data is keyed using a storage key derived
- * from the post ID.
+ * Loads any cached scan data for the given post ID, then the server-side
+ * history, determines whether the latest scan is stale relative to the
+ * current content snapshot, and provides a helper for persisting new scan
+ * results both locally and on the server.
  *
  * @since 1.0.0
  *
  * @param {number|null} postId          The current post ID, or null if none.
  * @param {string}      contentSnapshot A hash or serialized representation of
  *                                      the current content.
+ * @param {string[]}    wcagTags        The configured WCAG tags.
  * @return {UseStoredScanResult} Stored scan data and utilities.
  */
 export const useStoredScan = (
   postId: number | null,
-  contentSnapshot: string
+  contentSnapshot: string,
+  wcagTags: string[]
 ): UseStoredScanResult => {
 	const storageKey = useMemo(() => getStorageKey(postId), [postId]);
 	const [storedScan, setStoredScan] = useState<StoredScan | null>(null);
+	const [history, setHistory] = useState<StoredScan[]>([]);
+	const [isHistoryLoading, setIsHistoryLoading] = useState(false);
 
-	// Load stored scan on mount and when storage key changes
+	// Load the cached scan, then the server-side history, when the post changes
 	useEffect(() => {
-		if (!storageKey) {
+		setHistory([]);
+
+		if (!storageKey || !postId) {
 			setStoredScan(null);
 			return;
 		}
 
+		let cached: StoredScan | null = null;
+
 		try {
-			const saved = loadStoredScan(storageKey);
-			setStoredScan(saved);
+			cached = loadStoredScan(storageKey);
 		} catch (error) {
 			// eslint-disable-next-line no-console
 			console.warn(
@@ -71,9 +110,58 @@ export const useStoredScan = (
 				storageKey,
 				error
 			);
-			setStoredScan(null);
 		}
-	}, [storageKey]);
+
+		setStoredScan(cached);
+
+		let isCurrent = true;
+		setIsHistoryLoading(true);
+
+		fetchScanHistory(postId)
+			.then((scans) => {
+				if (!isCurrent) {
+					return;
+				}
+
+				setHistory(scans);
+
+				const [latest] = scans;
+				if (latest && isNewerScan(latest, cached)) {
+					setStoredScan(latest);
+					saveStoredScan(storageKey, latest);
+				}
+			})
+			.catch((error) => {
+				// Offline or the request failed: keep using the cached scan.
+				// eslint-disable-next-line no-console
+				console.warn(
+					'WPAccessibilityValidator: failed to load scan history',
+					error
+				);
+			})
+			.finally(() => {
+				if (isCurrent) {
+					setIsHistoryLoading(false);
+				}
+			});
+
+		return () => {
+			isCurrent = false;
+		};
+	}, [storageKey, postId]);
+
+	const contentHash = useMemo(
+		() => hashContent(contentSnapshot),
+		[contentSnapshot]
+	);
+
+	// Scans recorded before tags were stored are assumed to match.
+	const hasTagChange = useMemo(
+		() =>
+			!!storedScan?.wcagTags &&
+			!haveSameWcagTags(storedScan.wcagTags, wcagTags),
+		[storedScan, wcagTags]
+	);
 
 	// Check if the stored scan is stale
 	const isScanStale = useMemo(() => {
@@ -81,25 +169,54 @@ export const useStoredScan = (
 			// No stored scan yet: nothing to mark as stale.
 			return false;
 		}
-		return storedScan.contentHash !== contentSnapshot;
-	}, [storedScan, contentSnapshot]);
+		return storedScan.contentHash !== contentHash || hasTagChange;
+	}, [storedScan, contentHash, hasTagChange]);
 
 	// Function to persist a new scan
 	const persistScan = useCallback(
-		(scan: StoredScan) => {
-			if (!storageKey) {
+		(scan: StoredScan, { saveToHistory = true }: PersistScanOptions = {}) => {
+			if (!storageKey || !postId) {
 				return;
 			}
 
 			setStoredScan(scan);
 			saveStoredScan(storageKey, scan);
+
+			if (!saveToHistory) {
+				return;
+			}
+
+			setHistory((previous) => [scan, ...previous]);
+
+			saveScanToHistory(postId, scan)
+				.then((scans) => {
+					setHistory(scans);
+
+					// Prefer the server copy, which carries the author.
+					if (scans[0]?.completedAt === scan.completedAt) {
+						setStoredScan(scans[0]);
+						saveStoredScan(storageKey, scans[0]);
+					}
+				})
+				.catch((error) => {
+					// The local cache still holds the scan when offline.
+					// eslint-disable-next-line no-console
+					console.warn(
+						'WPAccessibilityValidator: failed to save scan history',
+						error
+					);
+				});
 		},
-		[storageKey]
+		[storageKey, postId]
 	);
 
 	return {
 		storedScan,
+		history,
+		isHistoryLoading,
 		isScanStale,
+		hasTagChange,
+		contentHash,
 		persistScan,
 		storageKey,
 	};
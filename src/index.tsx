@@ -20,6 +20,7 @@ import {
   AccessibilityCheckerSidebar,
   BlockStableIdProvider,
 } from './components';
+import { registerA11yRule, unregisterA11yRule } from './utils';
 
 /**
  * Initialize the plugin.
@@ -28,6 +29,9 @@ const initializePlugin = (): void => {
   // Register the violation tracking store
   registerViolationStore();
 
+  // Expose the custom rule API to themes and plugins
+  window.wpav = { ...(window.wpav || {}), registerA11yRule, unregisterA11yRule };
+
   // Apply block editor filters
   applyBlockViolationIndicator();
   applyBlockToolbarIndicator();
@@ -5,7 +5,14 @@
 /// <reference path="../types.d.ts" />
 
 import { registerStore } from '@wordpress/data';
-import type { BlockViolationState, ViolationStoreActions, ViolationStoreSelectors, ViolationWithContext } from '../types';
+import type {
+	BlockViolationState,
+	ReviewDecision,
+	ViolationStoreActions,
+	ViolationDismissal,
+	ViolationStoreSelectors,
+	ViolationWithContext,
+} from '../types';
 import { STORE_NAME } from '../constants';
 
 /**
@@ -14,6 +21,10 @@ import { STORE_NAME } from '../constants';
 const DEFAULT_STORE_STATE: BlockViolationState = {
 	blockViolations: {},
 	blockViolationDetails: {},
+	blockReviewDetails: {},
+	reviewDecisions: {},
+	dismissals: {},
+	blockRescanQueue: [],
 };
 
 /**
@@ -21,6 +32,10 @@ const DEFAULT_STORE_STATE: BlockViolationState = {
  */
 const ACTION_TYPES = {
 	SET_BLOCK_VIOLATIONS: 'SET_BLOCK_VIOLATIONS',
+	SET_REVIEW_DECISIONS: 'SET_REVIEW_DECISIONS',
+	SET_DISMISSALS: 'SET_DISMISSALS',
+	REQUEST_BLOCK_RESCAN: 'REQUEST_BLOCK_RESCAN',
+	COMPLETE_BLOCK_RESCAN: 'COMPLETE_BLOCK_RESCAN',
 } as const;
 
 /**
@@ -29,22 +44,56 @@ const ACTION_TYPES = {
 const actions: ViolationStoreActions = {
 	setBlockViolations(
 		blockViolations: Record<string, number>,
-		blockViolationDetails: Record<string, ViolationWithContext[]>
+		blockViolationDetails: Record<string, ViolationWithContext[]>,
+		blockReviewDetails: Record<string, ViolationWithContext[]>
 	) {
 		return {
 			type: ACTION_TYPES.SET_BLOCK_VIOLATIONS,
 			blockViolations,
 			blockViolationDetails,
+			blockReviewDetails,
+		};
+	},
+
+	setReviewDecisions(reviewDecisions: Record<string, ReviewDecision>) {
+		return {
+			type: ACTION_TYPES.SET_REVIEW_DECISIONS,
+			reviewDecisions,
+		};
+	},
+
+	setDismissals(dismissals: Record<string, ViolationDismissal>) {
+		return {
+			type: ACTION_TYPES.SET_DISMISSALS,
+			dismissals,
+		};
+	},
+
+	requestBlockRescan(clientId: string) {
+		return {
+			type: ACTION_TYPES.REQUEST_BLOCK_RESCAN,
+			clientId,
+		};
+	},
+
+	completeBlockRescan(clientId: string) {
+		return {
+			type: ACTION_TYPES.COMPLETE_BLOCK_RESCAN,
+			clientId,
 		};
 	},
 };
 
+type ViolationStoreAction = ReturnType<
+	ViolationStoreActions[keyof ViolationStoreActions]
+>;
+
 /**
  * Store reducer.
  */
 const reducer = (
 	state: BlockViolationState = DEFAULT_STORE_STATE,
-	action: ReturnType<ViolationStoreActions['setBlockViolations']>
+	action: ViolationStoreAction
 ): BlockViolationState => {
 	switch (action.type) {
 		case ACTION_TYPES.SET_BLOCK_VIOLATIONS:
@@ -52,6 +101,32 @@ const reducer = (
 				...state,
 				blockViolations: action.blockViolations || {},
 				blockViolationDetails: action.blockViolationDetails || {},
+				blockReviewDetails: action.blockReviewDetails || {},
+			};
+		case ACTION_TYPES.SET_REVIEW_DECISIONS:
+			return {
+				...state,
+				reviewDecisions: action.reviewDecisions || {},
+			};
+		case ACTION_TYPES.SET_DISMISSALS:
+			return {
+				...state,
+				dismissals: action.dismissals || {},
+			};
+		case ACTION_TYPES.REQUEST_BLOCK_RESCAN:
+			if (state.blockRescanQueue.includes(action.clientId)) {
+				return state;
+			}
+			return {
+				...state,
+				blockRescanQueue: [...state.blockRescanQueue, action.clientId],
+			};
+		case ACTION_TYPES.COMPLETE_BLOCK_RESCAN:
+			return {
+				...state,
+				blockRescanQueue: state.blockRescanQueue.filter(
+					(clientId) => clientId !== action.clientId
+				),
 			};
 		default:
 			return state;
@@ -77,6 +152,26 @@ const selectors: ViolationStoreSelectors = {
 	getBlockViolationsForBlock(state: BlockViolationState, clientId: string) {
 		return state.blockViolationDetails?.[clientId] || [];
 	},
+
+	getBlockReviewDetails(state: BlockViolationState) {
+		return state.blockReviewDetails;
+	},
+
+	getReviewDecisions(state: BlockViolationState) {
+		return state.reviewDecisions;
+	},
+
+	getDismissals(state: BlockViolationState) {
+		return state.dismissals;
+	},
+
+	getBlockRescanQueue(state: BlockViolationState) {
+		return state.blockRescanQueue;
+	},
+
+	isBlockRescanPending(state: BlockViolationState, clientId: string) {
+		return state.blockRescanQueue.includes(clientId);
+	},
 };
 
 /**
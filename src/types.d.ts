@@ -2,11 +2,12 @@
  * Global type augmentations for the WP Accessibility Validator plugin.
  */
 
-import type { WpavSettings } from './types';
+import type { WpavPublicApi, WpavSettings } from './types';
 
 declare global {
 	interface Window {
 		wpavSettings?: WpavSettings;
+		wpav?: WpavPublicApi;
 		wpavStoreRegistered?: boolean;
 		wpavBlockFilterApplied?: boolean;
 		wpavToolbarFilterApplied?: boolean;
@@ -2,7 +2,116 @@
  * Type definitions for the WP Accessibility Validator plugin.
  */
 
-import type { Result as AxeResult } from 'axe-core';
+import type {
+  Check as AxeCheck,
+  Result as AxeResult,
+  Rule as AxeRule,
+} from 'axe-core';
+
+/**
+ * Kind of axe result: a confirmed violation, or an incomplete result that
+ * needs manual review.
+ */
+export type ViolationKind = 'violation' | 'incomplete';
+
+/**
+ * Where a result comes from: axe-core on the rendered HTML, or the editorial
+ * checks on the block tree.
+ */
+export type ViolationSource = 'axe' | 'editorial';
+
+/**
+ * Where on the rendered page a result was found: in the post content, or in
+ * the theme template around it (full page scans only).
+ */
+export type ViolationLocation = 'content' | 'template';
+
+/**
+ * How the post is rendered for a scan: its content on its own, or the full
+ * page inside the theme template.
+ */
+export type ScanRenderMode = 'content' | 'full-page';
+
+/**
+ * Why a result could not be mapped to an editor block: its node has no
+ * `data-wpav-block-id` ancestor, its wpavId matches no block in the editor,
+ * or its target selectors cannot be resolved in the rendered document.
+ */
+export type UnmappedReason = 'no-marker' | 'unknown-block' | 'invalid-selector';
+
+/**
+ * Kind of shared content that is edited outside the post.
+ */
+export type SyncedSourceType = 'pattern' | 'template-part';
+
+/**
+ * A synced pattern or template part that rendered content comes from, as
+ * described by the render endpoint's marker comments.
+ */
+export interface SyncedSource {
+  type: SyncedSourceType;
+  /** wp_block post ID, or `theme//slug` for template parts. */
+  id: string;
+  title: string;
+  /** Where the original is edited; empty if the user cannot edit it. */
+  editUrl?: string;
+  /** Number of posts using the pattern. */
+  usage?: number;
+}
+
+/**
+ * Rendered content of a synced pattern or template part in a scan
+ * document, between its marker comments.
+ */
+export interface SyncedRange {
+  source: SyncedSource;
+  /** wpavId of the reference block, if it has one. */
+  wpavId?: string;
+  start: Comment;
+  end: Comment;
+}
+
+/**
+ * A result in shared content, reported once however often it occurs.
+ */
+export interface SyncedFinding {
+  violation: ViolationWithContext;
+  /** Posts the result was found in. */
+  postIds: number[];
+  /** Number of times the result was found. */
+  instances: number;
+}
+
+/**
+ * The results found in one synced pattern or template part.
+ */
+export interface SyncedFindingGroup {
+  source: SyncedSource;
+  findings: SyncedFinding[];
+}
+
+/**
+ * Editor decision recorded for a result that needs manual review.
+ */
+export type ReviewDecision = 'passed' | 'failed';
+
+/**
+ * Review decision stored in post meta.
+ */
+export interface StoredReviewDecision {
+  key: string;
+  decision: ReviewDecision;
+  reviewedBy: string;
+  userId: number;
+  reviewedAt: string;
+}
+
+/**
+ * Response of the review decisions REST endpoint.
+ */
+export interface ReviewDecisionsResponse {
+  decisions: StoredReviewDecision[];
+}
 
 /**
  * Custom violation type that includes WordPress block context.
@@ -10,6 +119,72 @@ import type { Result as AxeResult } from 'axe-core';
 export interface ViolationWithContext extends AxeResult {
   blockName?: string;
   blockClientId?: string;
+  blockWpavId?: string;
+  /** Block titles from the outermost ancestor down to the block. */
+  blockPath?: string[];
+  kind?: ViolationKind;
+  /** Defaults to axe when not set. */
+  source?: ViolationSource;
+  /** Viewport widths (px) the result occurs at. */
+  viewports?: number[];
+  /** Color variants the result occurs under. */
+  variants?: ScanVariant[];
+  /** Defaults to the post content when not set. */
+  location?: ViolationLocation;
+  /** Set when the result could not be mapped to an editor block. */
+  unmappedReason?: UnmappedReason;
+  /** Synced pattern or template part the affected content comes from. */
+  syncedSource?: SyncedSource;
+  /**
+   * Position of the affected node within its block, e.g. `figure/img[1]`.
+   * Unlike axe's target selectors, it does not change between scans.
+   */
+  nodeFingerprint?: string;
+}
+
+/**
+ * Color variant a scan runs under: the document as rendered, or with a dark
+ * color scheme or forced colors emulated.
+ */
+export type ScanVariant = 'default' | 'dark' | 'forced-colors';
+
+/**
+ * A violation instance dismissed as "won't fix" by an editor.
+ *
+ * Mirrors the entries stored in post meta by the
+ * wp-accessibility-validator/v1/dismissals/:id route.
+ */
+export interface ViolationDismissal {
+  key: string;
+  ruleId: string;
+  wpavId: string;
+  target: string;
+  reason: string;
+  blockHash: string;
+  dismissedBy?: string;
+  userId?: number;
+  dismissedAt?: string;
+}
+
+/**
+ * Response type for the dismissals REST endpoint.
+ */
+export interface DismissalsResponse {
+  dismissals: ViolationDismissal[];
+}
+
+/**
+ * How scan results are grouped for display.
+ */
+export type ViolationGrouping = 'block' | 'rule' | 'impact' | 'criterion';
+
+/**
+ * A group of scan results sharing a block, rule, impact or criterion.
+ */
+export interface ViolationGroup {
+  key: string;
+  label: string;
+  violations: ViolationWithContext[];
 }
 
 /**
@@ -21,6 +196,117 @@ export interface ScanMetrics {
   skippedBlocks: number;
   violations: ViolationWithContext[];
   errors: string[];
+  /** Version of axe-core that produced the results. */
+  axeVersion?: string;
+  /** WCAG tags the scan was run with. */
+  wcagTags?: string[];
+  /** Heading outline and landmarks of the rendered content. */
+  structure?: DocumentStructure;
+  /** Viewport widths (px) the scan ran at. */
+  viewports?: number[];
+  /** Color variants the scan ran under. */
+  variants?: ScanVariant[];
+  /** How the post was rendered for the scan. */
+  renderMode?: ScanRenderMode;
+  /** Results dismissed as "won't fix", kept out of `violations`. */
+  dismissedViolations?: ViolationWithContext[];
+}
+
+/**
+ * Problems flagged on a heading in the document outline.
+ */
+export type HeadingIssue = 'skipped-level' | 'multiple-h1' | 'empty';
+
+/**
+ * A heading in the document outline of the rendered content.
+ */
+export interface OutlineHeading {
+  level: number;
+  text: string;
+  /** wpavId of the block the heading was rendered by, if any. */
+  blockWpavId?: string;
+  /** Set for the post title printed by the theme, which is not a block. */
+  isTitle?: boolean;
+  issues: HeadingIssue[];
+}
+
+/**
+ * A landmark region in the rendered content.
+ */
+export interface LandmarkRegion {
+  role: string;
+  label: string;
+  /** wpavId of the block the landmark was rendered by, if any. */
+  blockWpavId?: string;
+}
+
+/**
+ * Heading outline and landmark regions of the rendered content.
+ */
+export interface DocumentStructure {
+  headings: OutlineHeading[];
+  landmarks: LandmarkRegion[];
+}
+
+/**
+ * Difference between two consecutive scans.
+ */
+export interface ScanDiff {
+  added: ViolationWithContext[];
+  fixed: ViolationWithContext[];
+  unchanged: ViolationWithContext[];
+}
+
+/**
+ * Filter applied to violations based on the scan diff.
+ */
+export type ScanDiffFilter = 'all' | 'new' | 'fixed' | 'unchanged';
+
+/**
+ * Phases a preview scan moves through, in order.
+ */
+export type ScanPhase =
+  | 'rendering'
+  | 'loading-styles'
+  | 'injecting-engine'
+  | 'analyzing'
+  | 'mapping';
+
+/**
+ * Options accepted by the scanner entry points.
+ */
+export interface ScanOptions {
+  /** Aborts the scan; the scanner rejects with an AbortError. */
+  signal?: AbortSignal;
+  /** Called when the scan enters a new phase. */
+  onProgress?: (phase: ScanPhase) => void;
+  /** Settings to scan with instead of the ones in `wpavSettings`. */
+  scanSettings?: ResolvedScanSettings;
+  /** WCAG tags for this run only, overriding the configured tags. */
+  wcagTags?: string[];
+  /** Viewport widths (px) to scan at instead of the configured ones. */
+  viewports?: number[];
+}
+
+/**
+ * Progress of the scan in flight.
+ */
+export interface ScanProgress {
+  phase: ScanPhase;
+  /** Timestamp (ms) when the current phase started. */
+  phaseStartedAt: number;
+  /** Duration in ms of each completed phase. */
+  timings: Partial<Record<ScanPhase, number>>;
+}
+
+/**
+ * Result of drawing the visual preview overlay.
+ */
+export interface OverlayResult {
+  /** Number of markers drawn. */
+  drawn: number;
+  /** Number of failing nodes that could not be found in the document. */
+  missing: number;
 }
 
 /**
@@ -29,6 +315,36 @@ export interface ScanMetrics {
 export interface StoredScan extends ScanMetrics {
   contentHash: string;
   completedAt: string;
+  /** Display name of the user who ran the scan (set by the server). */
+  author?: string;
+  authorId?: number;
+}
+
+/**
+ * Options for persisting a completed scan.
+ */
+export interface PersistScanOptions {
+  /**
+   * Whether the run is added to the server-side history. Defaults to true;
+   * live runs only update the stored scan and the local cache.
+   */
+  saveToHistory?: boolean;
+}
+
+/**
+ * Post information included in exported scan reports.
+ */
+export interface ExportContext {
+  postTitle: string;
+  postUrl?: string;
+  wcagLabels: Record<string, string>;
+}
+
+/**
+ * Response type for the scan history REST endpoint, newest run first.
+ */
+export interface ScanHistoryResponse {
+  scans: StoredScan[];
 }
 
 /**
@@ -37,6 +353,11 @@ export interface StoredScan extends ScanMetrics {
 export interface BlockViolationState {
   blockViolations: Record<string, number>;
   blockViolationDetails: Record<string, ViolationWithContext[]>;
+  blockReviewDetails: Record<string, ViolationWithContext[]>;
+  reviewDecisions: Record<string, ReviewDecision>;
+  dismissals: Record<string, ViolationDismissal>;
+  /** Client IDs of blocks waiting to be rescanned on their own. */
+  blockRescanQueue: string[];
 }
 
 /**
@@ -45,11 +366,29 @@ export interface BlockViolationState {
 export interface ViolationStoreActions {
   setBlockViolations: (
     blockViolations: Record<string, number>,
-    blockViolationDetails: Record<string, ViolationWithContext[]>
+    blockViolationDetails: Record<string, ViolationWithContext[]>,
+    blockReviewDetails: Record<string, ViolationWithContext[]>
   ) => {
-    type: string;
+    type: 'SET_BLOCK_VIOLATIONS';
     blockViolations: Record<string, number>;
     blockViolationDetails: Record<string, ViolationWithContext[]>;
+    blockReviewDetails: Record<string, ViolationWithContext[]>;
+  };
+  setReviewDecisions: (reviewDecisions: Record<string, ReviewDecision>) => {
+    type: 'SET_REVIEW_DECISIONS';
+    reviewDecisions: Record<string, ReviewDecision>;
+  };
+  setDismissals: (dismissals: Record<string, ViolationDismissal>) => {
+    type: 'SET_DISMISSALS';
+    dismissals: Record<string, ViolationDismissal>;
+  };
+  requestBlockRescan: (clientId: string) => {
+    type: 'REQUEST_BLOCK_RESCAN';
+    clientId: string;
+  };
+  completeBlockRescan: (clientId: string) => {
+    type: 'COMPLETE_BLOCK_RESCAN';
+    clientId: string;
   };
 }
 
@@ -66,6 +405,20 @@ export interface ViolationStoreSelectors {
     state: BlockViolationState,
     clientId: string
   ) => ViolationWithContext[];
+  getBlockReviewDetails: (
+    state: BlockViolationState
+  ) => Record<string, ViolationWithContext[]>;
+  getReviewDecisions: (
+    state: BlockViolationState
+  ) => Record<string, ReviewDecision>;
+  getDismissals: (
+    state: BlockViolationState
+  ) => Record<string, ViolationDismissal>;
+  getBlockRescanQueue: (state: BlockViolationState) => string[];
+  isBlockRescanPending: (
+    state: BlockViolationState,
+    clientId: string
+  ) => boolean;
 }
 
 /**
@@ -83,6 +436,192 @@ export interface WpavSettings {
   availableWcagTags?: Record<string, string>;
   defaultWcagTags?: string[];
   wcagTags?: string[];
+  themeStylesheetUrl?: string;
+  globalStylesCss?: string;
+  axeScriptUrl?: string;
+  viewports?: number[];
+  /** Color variants contrast rules are rerun under. */
+  scanVariants?: ScanVariant[];
+  /** How the post is rendered for scans. */
+  scanRenderMode?: ScanRenderMode;
+  publishGate?: PublishGateSettings;
+  bulkScan?: BulkScanSettings;
+  liveScan?: boolean;
+  axeRules?: AxeRuleSettings;
+  scanProfile?: ScanProfile | null;
+  /** Whether the theme prints the post title as a heading (editor only). */
+  themePrintsTitle?: boolean;
+}
+
+/**
+ * The scan profile resolved for the current post type and user.
+ */
+export interface ScanProfile {
+  id: string;
+  name: string;
+  /** Results below this impact are not reported. */
+  minImpact: ImpactLevel;
+  /** Whether the editor scans automatically when it opens. */
+  autoScan: boolean;
+}
+
+/**
+ * Scanner settings after applying a scan profile, as resolved server-side.
+ */
+export interface ResolvedScanSettings {
+  wcagTags: string[];
+  axeRules: AxeRuleSettings;
+  scanProfile: ScanProfile | null;
+}
+
+/**
+ * A custom axe rule registered by a theme or plugin.
+ */
+export interface CustomA11yRule {
+  rule: AxeRule;
+  checks?: AxeCheck[];
+}
+
+/**
+ * The public API exposed on the `wpav` global.
+ */
+export interface WpavPublicApi {
+  registerA11yRule: (definition: CustomA11yRule) => void;
+  unregisterA11yRule: (ruleId: string) => void;
+}
+
+/**
+ * Rule overrides configured on the settings page.
+ */
+export interface AxeRuleSettings {
+  /** Rules that never run. */
+  disabled: string[];
+  /** Rules that always run, even outside the selected WCAG tags. */
+  enabled: string[];
+  /** Rule properties passed to axe.configure(), keyed by rule ID. */
+  options: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * A select option passed from PHP.
+ */
+export interface SettingsOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Filter options for the bulk scan dashboard.
+ */
+export interface BulkScanSettings {
+  postTypes: SettingsOption[];
+  postStatuses: SettingsOption[];
+}
+
+/**
+ * Filters used to queue posts for a bulk scan.
+ */
+export interface BulkScanQuery {
+  postType: string;
+  status: string;
+  after: string;
+  before: string;
+}
+
+/**
+ * A post queued for a bulk scan, as returned by the bulk/posts route.
+ */
+export interface BulkScanPost {
+  id: number;
+  title: string;
+  type: string;
+  status: string;
+  date: string;
+  editLink: string;
+  /** Scanner settings resolved for this post's type and the current user. */
+  scanSettings?: ResolvedScanSettings;
+}
+
+/**
+ * Response type for the bulk/posts REST endpoint.
+ */
+export interface BulkScanPostsResponse {
+  posts: BulkScanPost[];
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Progress of a single post in a bulk scan.
+ */
+export type BulkScanStatus = 'queued' | 'scanning' | 'done' | 'error';
+
+/**
+ * Outcome of scanning a single post in a bulk scan.
+ */
+export interface BulkScanResult {
+  post: BulkScanPost;
+  status: BulkScanStatus;
+  impactCounts: Record<ImpactLevel, number>;
+  totalViolations: number;
+  reviewCount: number;
+  /** Results in the theme template (full page scans). */
+  templateIssueCount: number;
+  /**
+   * Results that could not be mapped to a block, e.g. in legacy posts whose
+   * blocks have no wpavId. They are included in the other counts too.
+   */
+  unmappedCount: number;
+  /** Results in synced patterns and template parts, for aggregation. */
+  syncedFindings: ViolationWithContext[];
+  error?: string;
+}
+
+/**
+ * Sortable columns of the bulk scan table.
+ */
+export type BulkScanSortKey =
+  | 'title'
+  | 'type'
+  | 'date'
+  | ImpactLevel
+  | 'totalViolations'
+  | 'reviewCount'
+  | 'templateIssueCount'
+  | 'unmappedCount';
+
+/**
+ * Impact levels reported by axe-core.
+ */
+export type ImpactLevel = NonNullable<ViolationWithContext['impact']>;
+
+/**
+ * Publish gate policy exposed to the editor.
+ */
+export interface PublishGateSettings {
+  enabled: boolean;
+  minImpact: ImpactLevel;
+  blockWhenStale: boolean;
+  canOverride: boolean;
+}
+
+/**
+ * A recorded override of the publish gate.
+ */
+export interface PublishOverride {
+  reason: string;
+  contentHash: string;
+  issues: string[];
+  overriddenBy?: string;
+  userId?: number;
+  overriddenAt?: string;
+}
+
+/**
+ * Response type for the publish overrides REST endpoint, newest first.
+ */
+export interface PublishOverridesResponse {
+  overrides: PublishOverride[];
 }
 
 /**
@@ -97,11 +636,23 @@ export interface WPBlock {
   originalContent: string;
 }
 
+/**
+ * A block in the editor block tree with its ancestry path.
+ */
+export interface BlockTreeEntry {
+  block: WPBlock;
+  /** Block titles from the outermost ancestor down to the block. */
+  path: string[];
+}
+
 /**
  * WordPress editor store interface.
  */
 export interface WPEditorStore {
   getCurrentPostId: () => number | null;
+  getCurrentPostAttribute: (attribute: string) => unknown;
+  getEditedPostAttribute: (attribute: string) => unknown;
+  getPermalink: () => string | null;
   isEditorPanelOpened: (panelName: string) => boolean;
 }
 
@@ -110,6 +661,8 @@ export interface WPEditorStore {
  */
 export interface WPBlockEditorStore {
   getBlocks: () => WPBlock[];
+  getBlock: (clientId: string) => WPBlock | null;
+  getSelectedBlockClientId: () => string | null;
   selectBlock: (clientId: string) => void;
 }
 
@@ -164,4 +717,6 @@ export interface BlockListBlockProps {
 export interface RenderResponse {
   html: string;
   content?: string;
+  /** With `full-page`, the HTML is a complete document. */
+  mode?: ScanRenderMode;
 }
@@ -0,0 +1,110 @@
+/**
+ * Block tree utilities for the accessibility validator.
+ *
+ * Walks the editor block tree so results can be mapped to nested inner
+ * blocks and labelled with their ancestry path, e.g.
+ * "Group › Columns › Column › Image".
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import { getBlockType } from '@wordpress/blocks';
+import type { BlockTreeEntry, ViolationWithContext, WPBlock } from '../types';
+
+/**
+ * Separator between the block titles of an ancestry path.
+ */
+const BLOCK_PATH_SEPARATOR = ' › ';
+
+/**
+ * Gets the title of a block type, falling back to its name when the type is
+ * not registered (e.g. outside the editor).
+ *
+ * @since 2.2.0
+ *
+ * @param {string} name The block name, e.g. `core/image`.
+ * @return {string} The block title, e.g. "Image".
+ */
+export const getBlockTitle = (name: string): string =>
+	getBlockType(name)?.title || name;
+
+/**
+ * Indexes every block of a tree by client ID, with its ancestry path.
+ *
+ * Inner blocks are walked recursively. The input may also be a flattened
+ * list that repeats inner blocks after their parents; a block is indexed
+ * the first time it is reached, so it keeps the path through its parents.
+ *
+ * @since 2.2.0
+ *
+ * @param {WPBlock[]} blocks Root blocks, or flattened blocks in document
+ *                           order.
+ * @return {Map<string, BlockTreeEntry>} Blocks keyed by client ID, in
+ *                                       document order.
+ */
+export const indexBlockTree = (
+	blocks: WPBlock[]
+): Map<string, BlockTreeEntry> => {
+	const index = new Map<string, BlockTreeEntry>();
+
+	const visit = (block: WPBlock, ancestors: string[]) => {
+		if (index.has(block.clientId)) {
+			return;
+		}
+
+		const path = [...ancestors, getBlockTitle(block.name)];
+		index.set(block.clientId, { block, path });
+
+		(block.innerBlocks || []).forEach((innerBlock) =>
+			visit(innerBlock, path)
+		);
+	};
+
+	blocks.forEach((block) => visit(block, []));
+
+	return index;
+};
+
+/**
+ * Indexes every block of a tree by its persisted wpavId.
+ *
+ * If several blocks share a wpavId (e.g. a block duplicated before IDs were
+ * reassigned), the first in document order wins.
+ *
+ * @since 2.2.0
+ *
+ * @param {WPBlock[]} blocks Root blocks, or flattened blocks in document
+ *                           order.
+ * @return {Map<string, BlockTreeEntry>} Blocks keyed by wpavId.
+ */
+export const indexBlocksByWpavId = (
+	blocks: WPBlock[]
+): Map<string, BlockTreeEntry> => {
+	const index = new Map<string, BlockTreeEntry>();
+
+	indexBlockTree(blocks).forEach((entry) => {
+		const wpavId: string | undefined = entry.block.attributes?.wpavId;
+
+		if (wpavId && !index.has(wpavId)) {
+			index.set(wpavId, entry);
+		}
+	});
+
+	return index;
+};
+
+/**
+ * Gets the label of the block a result belongs to: its ancestry path when
+ * known, otherwise its block name.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation The result.
+ * @return {string} E.g. "Group › Columns › Column › Image".
+ */
+export const getViolationBlockLabel = (
+	violation: ViolationWithContext
+): string =>
+	violation.blockPath?.length
+		? violation.blockPath.join(BLOCK_PATH_SEPARATOR)
+		: violation.blockName || 'Unknown block';
@@ -0,0 +1,222 @@
+/**
+ * Bulk scan utilities for the accessibility validator.
+ *
+ * Provides helpers for queueing posts through the plugin REST API and
+ * summarizing scan results on the bulk scan dashboard.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import apiFetch from '@wordpress/api-fetch';
+import type {
+	BulkScanPost,
+	BulkScanPostsResponse,
+	BulkScanQuery,
+	BulkScanResult,
+	BulkScanSettings,
+	BulkScanSortKey,
+	ImpactLevel,
+	ScanMetrics,
+} from '../types';
+import { IMPACT_LEVELS } from './impact';
+import { isTemplateIssue } from './renderMode';
+import { isUnmappedFinding } from './unmapped';
+
+/**
+ * Gets the bulk scan filter options from WordPress settings.
+ *
+ * @since 2.2.0
+ *
+ * @return {BulkScanSettings} Post type and status options.
+ */
+export const getBulkScanSettings = (): BulkScanSettings => {
+	const settings =
+		typeof window !== 'undefined' ? window.wpavSettings?.bulkScan : null;
+
+	return {
+		postTypes: settings?.postTypes ?? [],
+		postStatuses: settings?.postStatuses ?? [],
+	};
+};
+
+/**
+ * Fetches every post matching the bulk scan filters, page by page.
+ *
+ * @since 2.2.0
+ *
+ * @param {BulkScanQuery} query The filters to apply.
+ * @return {Promise<BulkScanPost[]>} Matching posts, newest first.
+ */
+export const fetchBulkScanPosts = async (
+	query: BulkScanQuery
+): Promise<BulkScanPost[]> => {
+	const posts: BulkScanPost[] = [];
+	let page = 1;
+	let totalPages = 1;
+
+	do {
+		const params = new URLSearchParams({
+			status: query.status,
+			page: String(page),
+		});
+
+		// Without a post type, every scannable post type is listed.
+		if (query.postType) {
+			params.set('postType', query.postType);
+		}
+		if (query.after) {
+			params.set('after', query.after);
+		}
+		if (query.before) {
+			params.set('before', query.before);
+		}
+
+		const response = await apiFetch<BulkScanPostsResponse>({
+			path: `/wp-accessibility-validator/v1/bulk/posts?${params.toString()}`,
+		});
+
+		posts.push(...(response?.posts ?? []));
+		totalPages = response?.totalPages ?? 0;
+		page++;
+	} while (page <= totalPages);
+
+	return posts;
+};
+
+/**
+ * Creates an empty bulk scan result for a queued post.
+ *
+ * @since 2.2.0
+ *
+ * @param {BulkScanPost} post The queued post.
+ * @return {BulkScanResult} A queued result with zero counts.
+ */
+export const createQueuedBulkResult = (post: BulkScanPost): BulkScanResult => ({
+	post,
+	status: 'queued',
+	impactCounts: IMPACT_LEVELS.reduce(
+		(counts, level) => ({ ...counts, [level]: 0 }),
+		{} as Record<ImpactLevel, number>
+	),
+	totalViolations: 0,
+	reviewCount: 0,
+	templateIssueCount: 0,
+	unmappedCount: 0,
+	syncedFindings: [],
+});
+
+/**
+ * Summarizes scan metrics into per-impact violation counts.
+ *
+ * Each affected element counts once; results that need manual review and
+ * template issues from full page scans are counted separately. Results that
+ * could not be mapped to a block, such as those of legacy posts without
+ * block markers, are counted like any other and also tallied on their own.
+ * Results in synced content are also kept so they can be aggregated across
+ * posts.
+ *
+ * @since 2.2.0
+ *
+ * @param {BulkScanResult} result The queued result to complete.
+ * @param {ScanMetrics}    scan   The scan metrics for the post.
+ * @return {BulkScanResult} The completed result.
+ */
+export const summarizeBulkScan = (
+	result: BulkScanResult,
+	scan: ScanMetrics
+): BulkScanResult => {
+	const impactCounts = { ...createQueuedBulkResult(result.post).impactCounts };
+	let totalViolations = 0;
+	let reviewCount = 0;
+	let templateIssueCount = 0;
+	let unmappedCount = 0;
+
+	scan.violations.forEach((violation) => {
+		if (isTemplateIssue(violation)) {
+			templateIssueCount++;
+			return;
+		}
+
+		if (isUnmappedFinding(violation)) {
+			unmappedCount++;
+		}
+
+		if (violation.kind === 'incomplete') {
+			reviewCount++;
+			return;
+		}
+
+		totalViolations++;
+		if (violation.impact) {
+			impactCounts[violation.impact]++;
+		}
+	});
+
+	return {
+		...result,
+		status: 'done',
+		impactCounts,
+		totalViolations,
+		reviewCount,
+		templateIssueCount,
+		unmappedCount,
+		syncedFindings: scan.violations.filter(
+			(violation) => violation.syncedSource
+		),
+		error: undefined,
+	};
+};
+
+/**
+ * Gets the value of a bulk scan result used for sorting.
+ *
+ * @param {BulkScanResult}  result  The result.
+ * @param {BulkScanSortKey} sortKey The column to sort by.
+ * @return {string|number} The sort value.
+ */
+const getBulkSortValue = (
+	result: BulkScanResult,
+	sortKey: BulkScanSortKey
+): string | number => {
+	switch (sortKey) {
+		case 'title':
+			return result.post.title.toLowerCase();
+		case 'type':
+			return result.post.type;
+		case 'date':
+			return result.post.date;
+		case 'totalViolations':
+			return result.totalViolations;
+		case 'reviewCount':
+			return result.reviewCount;
+		case 'templateIssueCount':
+			return result.templateIssueCount;
+		case 'unmappedCount':
+			return result.unmappedCount;
+		default:
+			return result.impactCounts[sortKey];
+	}
+};
+
+/**
+ * Sorts bulk scan results by a column.
+ *
+ * @since 2.2.0
+ *
+ * @param {BulkScanResult[]} results   The results to sort.
+ * @param {BulkScanSortKey}  sortKey   The column to sort by.
+ * @param {string}           direction Sort direction.
+ * @return {BulkScanResult[]} A sorted copy of the results.
+ */
+export const sortBulkScanResults = (
+	results: BulkScanResult[],
+	sortKey: BulkScanSortKey,
+	direction: 'asc' | 'desc'
+): BulkScanResult[] =>
+	[...results].sort((a, b) => {
+		const valueA = getBulkSortValue(a, sortKey);
+		const valueB = getBulkSortValue(b, sortKey);
+		const order = valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+
+		return direction === 'asc' ? order : -order;
+	});
@@ -0,0 +1,106 @@
+/**
+ * Custom axe rule registration for the accessibility validator.
+ *
+ * Themes and plugins can ship house rules in two ways:
+ *
+ * - call `wpav.registerA11yRule( { rule, checks } )` on the `wpav` global;
+ * - add a `wpav.axeConfigure` filter with `wp.hooks.addFilter()`, which
+ *   receives and returns the axe `Spec` (`{ rules, checks }`) applied to
+ *   every scan.
+ *
+ * The resulting spec is applied with `axe.configure()` inside the scan
+ * iframe before `axe.run()`, and custom rules run regardless of the
+ * selected WCAG tags unless they are disabled in the settings.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { Spec } from 'axe-core';
+import { applyFilters } from '@wordpress/hooks';
+import type { CustomA11yRule } from '../types';
+
+/**
+ * Custom rules registered through `registerA11yRule`, keyed by rule ID.
+ */
+const registeredRules = new Map<string, CustomA11yRule>();
+
+/**
+ * Registers a custom axe rule and the checks it uses.
+ *
+ * Registering a rule with an ID that is already registered replaces it.
+ *
+ * @since 2.2.0
+ *
+ * @param {CustomA11yRule} definition The axe rule and its checks.
+ *
+ * @throws {Error} If the rule has no ID.
+ */
+export const registerA11yRule = (definition: CustomA11yRule): void => {
+	const ruleId = definition?.rule?.id;
+
+	if (!ruleId) {
+		throw new Error('registerA11yRule: the rule must have an id.');
+	}
+
+	registeredRules.set(ruleId, definition);
+};
+
+/**
+ * Removes a custom rule registered through `registerA11yRule`.
+ *
+ * @since 2.2.0
+ *
+ * @param {string} ruleId The rule ID.
+ */
+export const unregisterA11yRule = (ruleId: string): void => {
+	registeredRules.delete(ruleId);
+};
+
+/**
+ * Builds the axe configuration for all custom rules and checks.
+ *
+ * @since 2.2.0
+ *
+ * @return {Spec} The spec to pass to `axe.configure()`.
+ */
+export const getCustomAxeSpec = (): Spec => {
+	const definitions = Array.from(registeredRules.values());
+
+	const spec: Spec = {
+		rules: definitions.map((definition) => definition.rule),
+		checks: definitions.flatMap((definition) => definition.checks ?? []),
+	};
+
+	return applyFilters('wpav.axeConfigure', spec) as Spec;
+};
+
+/**
+ * Gets the IDs of the custom rules in an axe configuration.
+ *
+ * @since 2.2.0
+ *
+ * @param {Spec} spec The custom axe configuration.
+ * @return {string[]} The rule IDs.
+ */
+export const getCustomRuleIds = (spec: Spec): string[] =>
+	(spec.rules ?? []).map((rule) => rule.id).filter(Boolean);
+
+/**
+ * Applies the custom rules and checks inside the scan iframe.
+ *
+ * @since 2.2.0
+ *
+ * @param {Object} axe  The axe instance in the scan iframe.
+ * @param {Spec}   spec The custom axe configuration.
+ */
+export const applyCustomAxeSpec = (axe: any, spec: Spec): void => {
+	if (!spec.rules?.length && !spec.checks?.length) {
+		return;
+	}
+
+	axe.configure({
+		...spec,
+		rules: spec.rules ?? [],
+		checks: spec.checks ?? [],
+	});
+};
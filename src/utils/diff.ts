@@ -0,0 +1,68 @@
+/**
+ * Scan diff utilities for the accessibility validator.
+ *
+ * Compares consecutive scans so editors can confirm that a change fixed
+ * an issue without introducing a new one.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { ScanDiff, ScanMetrics, ViolationWithContext } from '../types';
+import { getViolationInstanceKey } from './violations';
+
+/**
+ * Returns the confirmed violations of a scan, keyed by instance key.
+ *
+ * @param {ScanMetrics} scan The scan.
+ * @return {Map<string, ViolationWithContext>} Violations keyed by instance key.
+ */
+const indexViolations = (
+	scan: ScanMetrics
+): Map<string, ViolationWithContext> => {
+	const index = new Map<string, ViolationWithContext>();
+
+	scan.violations
+		.filter((violation) => violation.kind !== 'incomplete')
+		.forEach((violation) => {
+			index.set(getViolationInstanceKey(violation), violation);
+		});
+
+	return index;
+};
+
+/**
+ * Computes the difference between two scans.
+ *
+ * Violations are matched by rule id, block wpavId and node target. Items
+ * that need manual review are not part of the diff.
+ *
+ * @since 2.2.0
+ *
+ * @param {ScanMetrics} current  The latest scan.
+ * @param {ScanMetrics} previous The scan before it.
+ * @return {ScanDiff} New, fixed and unchanged violations.
+ */
+export const diffScans = (
+	current: ScanMetrics,
+	previous: ScanMetrics
+): ScanDiff => {
+	const currentIndex = indexViolations(current);
+	const previousIndex = indexViolations(previous);
+	const diff: ScanDiff = { added: [], fixed: [], unchanged: [] };
+
+	currentIndex.forEach((violation, key) => {
+		if (previousIndex.has(key)) {
+			diff.unchanged.push(violation);
+		} else {
+			diff.added.push(violation);
+		}
+	});
+
+	previousIndex.forEach((violation, key) => {
+		if (!currentIndex.has(key)) {
+			diff.fixed.push(violation);
+		}
+	});
+
+	return diff;
+};
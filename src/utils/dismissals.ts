@@ -0,0 +1,280 @@
+/**
+ * Dismissal utilities for the accessibility validator.
+ *
+ * Provides helpers for dismissing individual violation instances as
+ * "won't fix" with a justification, persisting them in post meta through
+ * the plugin REST API, keeping dismissed results out of scan metrics, and
+ * detecting dismissals that no longer apply because the dismissed block's
+ * content has changed.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import apiFetch from '@wordpress/api-fetch';
+import { dispatch, select } from '@wordpress/data';
+import { serialize } from '@wordpress/blocks';
+import type {
+	DismissalsResponse,
+	ScanMetrics,
+	ViolationDismissal,
+	ViolationWithContext,
+	WPBlock,
+	WPBlockEditorStore,
+	WPEditorStore,
+} from '../types';
+import { STORE_NAME } from '../constants';
+import { getViolationInstanceKey } from './violations';
+import { hashContent } from './storage';
+
+/**
+ * Builds the REST path for the dismissals of a post.
+ *
+ * @param {number} postId The post ID.
+ * @return {string} The REST path.
+ */
+const getDismissalsPath = (postId: number): string =>
+	`/wp-accessibility-validator/v1/dismissals/${postId}`;
+
+/**
+ * Indexes a list of dismissals by instance key.
+ *
+ * @param {ViolationDismissal[]} dismissals Dismissals as returned by the API.
+ * @return {Record<string, ViolationDismissal>} Dismissals keyed by instance key.
+ */
+const indexDismissals = (
+	dismissals: ViolationDismissal[]
+): Record<string, ViolationDismissal> =>
+	dismissals.reduce<Record<string, ViolationDismissal>>((acc, dismissal) => {
+		if (dismissal?.key) {
+			acc[dismissal.key] = dismissal;
+		}
+		return acc;
+	}, {});
+
+/**
+ * Returns the ID of the post currently open in the editor.
+ *
+ * @return {?number} The post ID, or null if none.
+ */
+const getCurrentPostId = (): number | null =>
+	(select('core/editor') as Partial<WPEditorStore>)?.getCurrentPostId?.() ??
+	null;
+
+/**
+ * Hashes the serialized content of a block.
+ *
+ * Used to detect when a dismissed block has been edited so the dismissal
+ * can be dropped.
+ *
+ * @since 2.2.0
+ *
+ * @param {WPBlock} block The block to hash.
+ * @return {string} MD5 hash of the serialized block.
+ */
+export const hashBlockContent = (block: WPBlock): string =>
+	hashContent(serialize([block] as any));
+
+/**
+ * Fetches the dismissals stored for a post.
+ *
+ * @since 2.2.0
+ *
+ * @param {number} postId The post ID.
+ * @return {Promise<Record<string, ViolationDismissal>>} Dismissals keyed by
+ *                                                       instance key.
+ */
+export const fetchPostDismissals = async (
+	postId: number
+): Promise<Record<string, ViolationDismissal>> => {
+	const response = await apiFetch<DismissalsResponse>({
+		path: getDismissalsPath(postId),
+	});
+
+	return indexDismissals(response?.dismissals ?? []);
+};
+
+/**
+ * Loads the dismissals stored for a post into the plugin data store.
+ *
+ * @since 2.2.0
+ *
+ * @param {number} postId The post ID.
+ * @return {Promise<void>} Resolves once the dismissals have been loaded.
+ */
+export const fetchDismissals = async (postId: number): Promise<void> => {
+	(dispatch(STORE_NAME) as any)?.setDismissals?.(
+		await fetchPostDismissals(postId)
+	);
+};
+
+/**
+ * Returns the dismissals of the post open in the editor.
+ *
+ * @since 2.2.0
+ *
+ * @return {Record<string, ViolationDismissal>} Dismissals keyed by instance key.
+ */
+export const getCurrentDismissals = (): Record<string, ViolationDismissal> =>
+	(select(STORE_NAME) as any)?.getDismissals?.() ?? {};
+
+/**
+ * Finds the dismissal of a result.
+ *
+ * @since 2.2.0
+ *
+ * @param {Record<string, ViolationDismissal>} dismissals Dismissals keyed by instance key.
+ * @param {ViolationWithContext}               violation  Result scoped to a single node.
+ * @return {ViolationDismissal|undefined} The dismissal, if any.
+ */
+export const findDismissal = (
+	dismissals: Record<string, ViolationDismissal>,
+	violation: ViolationWithContext
+): ViolationDismissal | undefined =>
+	dismissals[getViolationInstanceKey(violation)];
+
+/**
+ * Moves dismissed results out of the violations of a scan.
+ *
+ * Dismissed results are kept in `dismissedViolations` so they can be listed
+ * and restored; results whose dismissal was removed move back. Counts,
+ * exports and the stored history only see the remaining violations.
+ *
+ * @since 2.2.0
+ *
+ * @param {ScanMetrics}                        scan       The scan.
+ * @param {Record<string, ViolationDismissal>} dismissals Dismissals keyed by instance key.
+ * @return {ScanMetrics} The scan with dismissed results split out.
+ */
+export const applyDismissals = (
+	scan: ScanMetrics,
+	dismissals: Record<string, ViolationDismissal>
+): ScanMetrics => {
+	const violations: ViolationWithContext[] = [];
+	const dismissedViolations: ViolationWithContext[] = [];
+
+	[...scan.violations, ...(scan.dismissedViolations ?? [])].forEach(
+		(violation) => {
+			if (findDismissal(dismissals, violation)) {
+				dismissedViolations.push(violation);
+			} else {
+				violations.push(violation);
+			}
+		}
+	);
+
+	return { ...scan, violations, dismissedViolations };
+};
+
+/**
+ * Dismisses a single violation instance with a justification.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation Violation scoped to a single node.
+ * @param {string}               reason    Why the violation is not fixed.
+ * @return {Promise<void>} Resolves once the dismissal has been saved.
+ *
+ * @throws {Error} If the violation cannot be attributed to a block or the
+ *                 dismissal cannot be saved.
+ */
+export const dismissViolation = async (
+	violation: ViolationWithContext,
+	reason: string
+): Promise<void> => {
+	const postId = getCurrentPostId();
+	const block = violation.blockClientId
+		? (
+				select('core/block-editor') as Partial<WPBlockEditorStore>
+		  )?.getBlock?.(violation.blockClientId)
+		: null;
+
+	if (!postId || !block || !violation.blockWpavId) {
+		throw new Error('Cannot dismiss a violation that is not mapped to a block.');
+	}
+
+	const response = await apiFetch<DismissalsResponse>({
+		path: getDismissalsPath(postId),
+		method: 'POST',
+		data: {
+			key: getViolationInstanceKey(violation),
+			ruleId: violation.id,
+			wpavId: violation.blockWpavId,
+			target: (violation.nodes[0]?.target || []).map(String).join(' '),
+			reason,
+			blockHash: hashBlockContent(block),
+		},
+	});
+
+	(dispatch(STORE_NAME) as any)?.setDismissals?.(
+		indexDismissals(response?.dismissals ?? [])
+	);
+};
+
+/**
+ * Removes dismissals by instance key.
+ *
+ * @since 2.2.0
+ *
+ * @param {string[]} keys Instance keys of the dismissals to remove.
+ * @return {Promise<void>} Resolves once the dismissals have been removed.
+ */
+export const removeDismissals = async (keys: string[]): Promise<void> => {
+	const postId = getCurrentPostId();
+
+	if (!postId || keys.length === 0) {
+		return;
+	}
+
+	const response = await apiFetch<DismissalsResponse>({
+		path: getDismissalsPath(postId),
+		method: 'DELETE',
+		data: { keys },
+	});
+
+	(dispatch(STORE_NAME) as any)?.setDismissals?.(
+		indexDismissals(response?.dismissals ?? [])
+	);
+};
+
+/**
+ * Finds dismissals whose block content has changed since they were recorded.
+ *
+ * Dismissals for blocks that are not present in the given list are left
+ * alone, since the block tree may still be loading.
+ *
+ * @since 2.2.0
+ *
+ * @param {Record<string, ViolationDismissal>} dismissals Dismissals keyed by instance key.
+ * @param {WPBlock[]}                          blocks     Flattened editor blocks.
+ * @return {string[]} Instance keys of the stale dismissals.
+ */
+export const findStaleDismissals = (
+	dismissals: Record<string, ViolationDismissal>,
+	blocks: WPBlock[]
+): string[] => {
+	const entries = Object.values(dismissals);
+
+	if (entries.length === 0) {
+		return [];
+	}
+
+	const hashes: Record<string, string> = {};
+
+	return entries
+		.filter((dismissal) => {
+			const block = blocks.find(
+				(candidate) => candidate.attributes?.wpavId === dismissal.wpavId
+			);
+
+			if (!block) {
+				return false;
+			}
+
+			if (!hashes[dismissal.wpavId]) {
+				hashes[dismissal.wpavId] = hashBlockContent(block);
+			}
+
+			return hashes[dismissal.wpavId] !== dismissal.blockHash;
+		})
+		.map((dismissal) => dismissal.key);
+};
@@ -0,0 +1,496 @@
+/**
+ * Editorial checks for the accessibility validator.
+ *
+ * A second analysis pass that works on the block tree rather than the
+ * rendered HTML, catching WordPress-specific problems axe-core cannot see:
+ * skipped heading levels, an extra H1, alt text copied from the file name,
+ * vague link text, empty button labels and videos without captions.
+ *
+ * Findings are returned as `ViolationWithContext` entries with the
+ * `editorial` source, so they share the sidebar and toolbar UI with axe
+ * results. Their rule IDs can be skipped on the settings page like any
+ * axe rule, they only run when one of their tags is selected, and the scan
+ * profile's impact threshold applies to them.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type {
+	ImpactLevel,
+	ScanOptions,
+	ViolationKind,
+	ViolationWithContext,
+	WPBlock,
+} from '../types';
+import { getAxeRuleSettings, normalizeAxeRuleSettings } from './rules';
+import { applyProfileImpactThreshold, getScanProfile } from './profiles';
+import { indexBlockTree } from './blockTree';
+import { getConfiguredWcagTags } from './wcag';
+
+/**
+ * Metadata shared by every finding of an editorial rule.
+ */
+interface EditorialRule {
+	impact: ImpactLevel;
+	kind: ViolationKind;
+	help: string;
+	description: string;
+	helpUrl: string;
+	tags: string[];
+}
+
+/**
+ * Editorial rules, keyed by rule ID.
+ */
+export const EDITORIAL_RULES: Record<string, EditorialRule> = {
+	'wpav-heading-order': {
+		impact: 'moderate',
+		kind: 'violation',
+		help: 'Heading levels should only increase by one',
+		description:
+			'Ensures heading blocks do not skip levels, so the outline of the content stays meaningful.',
+		helpUrl: 'https://www.w3.org/WAI/tutorials/page-structure/headings/',
+		tags: ['wcag2a', 'wcag131', 'best-practice'],
+	},
+	'wpav-content-h1': {
+		impact: 'moderate',
+		kind: 'violation',
+		help: 'Content should not contain an H1 when the theme prints the title',
+		description:
+			'Ensures the post title stays the only level-one heading on the page.',
+		helpUrl: 'https://www.w3.org/WAI/tutorials/page-structure/headings/',
+		tags: ['wcag2a', 'wcag131', 'best-practice'],
+	},
+	'wpav-image-alt-filename': {
+		impact: 'serious',
+		kind: 'violation',
+		help: 'Image alternative text should not be the file name',
+		description:
+			'Ensures image blocks describe the image rather than repeating its file name.',
+		helpUrl: 'https://www.w3.org/WAI/tutorials/images/decision-tree/',
+		tags: ['wcag2a', 'wcag111'],
+	},
+	'wpav-link-text': {
+		impact: 'moderate',
+		kind: 'incomplete',
+		help: 'Link text should describe the link destination',
+		description:
+			'Flags generic link text such as "click here" or "read more", which is meaningless out of context.',
+		helpUrl:
+			'https://www.w3.org/WAI/WCAG22/Understanding/link-purpose-in-context.html',
+		tags: ['wcag2a', 'wcag244'],
+	},
+	'wpav-button-label': {
+		impact: 'critical',
+		kind: 'violation',
+		help: 'Buttons must have a label',
+		description: 'Ensures button blocks have visible text.',
+		helpUrl: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html',
+		tags: ['wcag2a', 'wcag412'],
+	},
+	'wpav-video-captions': {
+		impact: 'critical',
+		kind: 'violation',
+		help: 'Videos must have a captions track',
+		description:
+			'Ensures video blocks include a text track of the "captions" kind.',
+		helpUrl:
+			'https://www.w3.org/WAI/WCAG22/Understanding/captions-prerecorded.html',
+		tags: ['wcag2a', 'wcag122'],
+	},
+};
+
+/**
+ * Link text that says nothing about where the link goes, lower-cased.
+ */
+const VAGUE_LINK_TEXT = [
+	'click here',
+	'click',
+	'here',
+	'read more',
+	'more',
+	'learn more',
+	'continue reading',
+	'this',
+	'link',
+];
+
+/**
+ * Gets the HTML of a rich text attribute, which may be a string or a
+ * RichTextData instance depending on the WordPress version.
+ *
+ * @param {unknown} value The attribute value.
+ * @return {string} The HTML, or an empty string.
+ */
+const getRichTextHtml = (value: unknown): string => {
+	if (typeof value === 'string') {
+		return value;
+	}
+
+	if (value && typeof (value as any).toHTMLString === 'function') {
+		return (value as any).toHTMLString();
+	}
+
+	return '';
+};
+
+/**
+ * Parses an HTML fragment into a detached body element.
+ *
+ * @param {string} html The HTML fragment.
+ * @return {HTMLElement} The parsed body.
+ */
+const parseFragment = (html: string): HTMLElement =>
+	new DOMParser().parseFromString(html, 'text/html').body;
+
+/**
+ * Normalizes text for comparison: lower case, collapsed separators.
+ *
+ * @param {string} text The text.
+ * @return {string} The normalized text.
+ */
+const normalizeText = (text: string): string =>
+	text
+		.toLowerCase()
+		.replace(/[-_\s]+/g, ' ')
+		.replace(/[^\p{L}\p{N} ]/gu, '')
+		.trim();
+
+/**
+ * Gets the forms of an image file name an editor might paste as alt text:
+ * with and without extension, and without WordPress size suffixes.
+ *
+ * @param {string} url The image URL.
+ * @return {string[]} Normalized file name variants.
+ */
+const getFilenameVariants = (url: string): string[] => {
+	let filename = url.split(/[?#]/)[0].split('/').pop() || '';
+
+	try {
+		filename = decodeURIComponent(filename);
+	} catch {
+		// Keep the raw file name if it is not valid URI encoding.
+	}
+
+	const base = filename.replace(/\.[a-z0-9]+$/i, '');
+	const unsized = base.replace(/(-\d+x\d+|-scaled|-rotated)+$/i, '');
+
+	return [filename, base, unsized].map(normalizeText).filter(Boolean);
+};
+
+/**
+ * Builds a finding for a block.
+ *
+ * @param {string}  ruleId         The editorial rule ID.
+ * @param {WPBlock} block          The block the finding belongs to.
+ * @param {string}  html           Markup snippet shown as the affected element.
+ * @param {string}  failureSummary What is wrong and how to fix it.
+ * @param {string}  [targetSuffix] Selector narrowing the target within the
+ *                                 block, so findings on the same block get
+ *                                 distinct instance keys.
+ * @return {ViolationWithContext} The finding.
+ */
+const createFinding = (
+	ruleId: string,
+	block: WPBlock,
+	html: string,
+	failureSummary: string,
+	targetSuffix = ''
+): ViolationWithContext => {
+	const rule = EDITORIAL_RULES[ruleId];
+	const wpavId: string | undefined = block.attributes?.wpavId;
+	const blockSelector = wpavId
+		? `[data-wpav-block-id="${wpavId}"]`
+		: `[data-block="${block.clientId}"]`;
+
+	return {
+		id: ruleId,
+		impact: rule.impact,
+		tags: rule.tags,
+		description: rule.description,
+		help: rule.help,
+		helpUrl: rule.helpUrl,
+		nodes: [
+			{
+				html,
+				target: [`${blockSelector}${targetSuffix}`],
+				impact: rule.impact,
+				failureSummary,
+				any: [],
+				all: [],
+				none: [],
+			},
+		],
+		kind: rule.kind,
+		source: 'editorial',
+		blockName: block.name,
+		blockClientId: block.clientId,
+		blockWpavId: wpavId,
+	};
+};
+
+/**
+ * Checks heading blocks for skipped levels and for an H1 in the content.
+ *
+ * @param {WPBlock[]} blocks           Flattened blocks in document order.
+ * @param {boolean}   themePrintsTitle Whether the theme prints the title as an H1.
+ * @return {ViolationWithContext[]} The findings.
+ */
+const checkHeadings = (
+	blocks: WPBlock[],
+	themePrintsTitle: boolean
+): ViolationWithContext[] => {
+	const findings: ViolationWithContext[] = [];
+	// The title printed by the theme counts as the first, level-one heading.
+	let previousLevel: number | null = themePrintsTitle ? 1 : null;
+
+	for (const block of blocks) {
+		if (block.name !== 'core/heading') {
+			continue;
+		}
+
+		const level = Number(block.attributes?.level) || 2;
+		const text = parseFragment(
+			getRichTextHtml(block.attributes?.content)
+		).textContent?.trim();
+		const html = `<h${level}>${text || ''}</h${level}>`;
+
+		if (level === 1 && themePrintsTitle) {
+			findings.push(
+				createFinding(
+					'wpav-content-h1',
+					block,
+					html,
+					'Fix this: The theme already prints the post title as an H1. Use a level 2 heading or lower.'
+				)
+			);
+		} else if (previousLevel !== null && level > previousLevel + 1) {
+			findings.push(
+				createFinding(
+					'wpav-heading-order',
+					block,
+					html,
+					`Fix this: This H${level} follows an H${previousLevel}. Use an H${
+						previousLevel + 1
+					} or add the missing level.`
+				)
+			);
+		}
+
+		previousLevel = level;
+	}
+
+	return findings;
+};
+
+/**
+ * Checks an image block for alt text copied from the file name.
+ *
+ * @param {WPBlock} block The image block.
+ * @return {ViolationWithContext[]} The findings.
+ */
+const checkImageAlt = (block: WPBlock): ViolationWithContext[] => {
+	const url: string = block.attributes?.url || '';
+	const alt: string = block.attributes?.alt || '';
+
+	if (!url || !alt.trim()) {
+		return [];
+	}
+
+	const normalizedAlt = normalizeText(alt);
+	const looksLikeFilename = /\.(jpe?g|png|gif|webp|avif|svg|heic)$/i.test(
+		alt.trim()
+	);
+
+	if (!looksLikeFilename && !getFilenameVariants(url).includes(normalizedAlt)) {
+		return [];
+	}
+
+	return [
+		createFinding(
+			'wpav-image-alt-filename',
+			block,
+			`<img src="${url}" alt="${alt}">`,
+			'Fix this: Replace the alternative text with a description of the image, or leave it empty if the image is decorative.'
+		),
+	];
+};
+
+/**
+ * Checks the links in a block's rich text attributes for vague text.
+ *
+ * @param {WPBlock} block The block.
+ * @return {ViolationWithContext[]} The findings.
+ */
+const checkLinkText = (block: WPBlock): ViolationWithContext[] => {
+	const findings: ViolationWithContext[] = [];
+
+	for (const value of Object.values(block.attributes || {})) {
+		const html = getRichTextHtml(value);
+
+		if (!html.includes('<a')) {
+			continue;
+		}
+
+		for (const link of Array.from(
+			parseFragment(html).querySelectorAll('a[href]')
+		)) {
+			// An accessible name set on the link overrides its text.
+			if (link.getAttribute('aria-label')?.trim()) {
+				continue;
+			}
+
+			const text = normalizeText(link.textContent || '');
+
+			if (!VAGUE_LINK_TEXT.includes(text)) {
+				continue;
+			}
+
+			findings.push(
+				createFinding(
+					'wpav-link-text',
+					block,
+					link.outerHTML,
+					`Review this: The link text "${link.textContent?.trim()}" does not say where the link goes. Describe the destination instead.`,
+					` a[href="${CSS.escape(link.getAttribute('href') || '')}"]`
+				)
+			);
+		}
+	}
+
+	return findings;
+};
+
+/**
+ * Checks a button block for an empty or vague label.
+ *
+ * @param {WPBlock} block The button block.
+ * @return {ViolationWithContext[]} The findings.
+ */
+const checkButton = (block: WPBlock): ViolationWithContext[] => {
+	const labelHtml = getRichTextHtml(block.attributes?.text);
+	const label = parseFragment(labelHtml).textContent?.trim() || '';
+	const html = `<a class="wp-block-button__link">${labelHtml}</a>`;
+
+	if (!label) {
+		return [
+			createFinding(
+				'wpav-button-label',
+				block,
+				html,
+				'Fix this: Add text to the button so it has a label.'
+			),
+		];
+	}
+
+	if (block.attributes?.url && VAGUE_LINK_TEXT.includes(normalizeText(label))) {
+		return [
+			createFinding(
+				'wpav-link-text',
+				block,
+				html,
+				`Review this: The button text "${label}" does not say where the link goes. Describe the destination instead.`
+			),
+		];
+	}
+
+	return [];
+};
+
+/**
+ * Checks a video block for a captions track.
+ *
+ * @param {WPBlock} block The video block.
+ * @return {ViolationWithContext[]} The findings.
+ */
+const checkVideoCaptions = (block: WPBlock): ViolationWithContext[] => {
+	const src: string = block.attributes?.src || '';
+	const tracks: Array<{ kind?: string }> = Array.isArray(
+		block.attributes?.tracks
+	)
+		? block.attributes.tracks
+		: [];
+
+	if (!src || tracks.some((track) => track.kind === 'captions')) {
+		return [];
+	}
+
+	return [
+		createFinding(
+			'wpav-video-captions',
+			block,
+			`<video src="${src}"></video>`,
+			'Fix this: Add a text track of the "Captions" kind to the video.'
+		),
+	];
+};
+
+/**
+ * Runs the editorial checks on the block tree.
+ *
+ * Rules are selected like axe's `runOnly`: a rule runs when one of its
+ * tags is among the run's WCAG tags, or when it is enabled in the rule
+ * settings. Disabled rules are skipped, and findings below the scan
+ * profile's impact threshold are dropped.
+ *
+ * @since 2.2.0
+ *
+ * @param {WPBlock[]}   blocks    Flattened editor blocks in document order.
+ * @param {ScanOptions} [options] Scan options; only `wcagTags` and
+ *                                `scanSettings` are used.
+ * @return {ViolationWithContext[]} The findings.
+ */
+export const runEditorialChecks = (
+	blocks: WPBlock[],
+	options: ScanOptions = {}
+): ViolationWithContext[] => {
+	if (typeof document === 'undefined') {
+		return [];
+	}
+
+	const { scanSettings } = options;
+	const wcagTags =
+		options.wcagTags ?? scanSettings?.wcagTags ?? getConfiguredWcagTags();
+	const ruleSettings = scanSettings
+		? normalizeAxeRuleSettings(scanSettings.axeRules)
+		: getAxeRuleSettings();
+	const scanProfile = scanSettings
+		? scanSettings.scanProfile
+		: getScanProfile();
+	const themePrintsTitle = window.wpavSettings?.themePrintsTitle ?? true;
+
+	const findings = [
+		...checkHeadings(blocks, themePrintsTitle),
+		...blocks.flatMap((block) => {
+			switch (block.name) {
+				case 'core/image':
+					return [...checkImageAlt(block), ...checkLinkText(block)];
+				case 'core/button':
+					return checkButton(block);
+				case 'core/video':
+					return [...checkVideoCaptions(block), ...checkLinkText(block)];
+				default:
+					return checkLinkText(block);
+			}
+		}),
+	].filter(
+		(finding) =>
+			!ruleSettings.disabled.includes(finding.id) &&
+			(wcagTags.length === 0 ||
+				ruleSettings.enabled.includes(finding.id) ||
+				finding.tags.some((tag) => wcagTags.includes(tag)))
+	);
+
+	// Label findings with the block's ancestry path, as axe results are.
+	const blockTree = indexBlockTree(blocks);
+
+	return applyProfileImpactThreshold(
+		findings.map((finding) => ({
+			...finding,
+			blockPath: finding.blockClientId
+				? blockTree.get(finding.blockClientId)?.path
+				: undefined,
+		})),
+		scanProfile
+	);
+};
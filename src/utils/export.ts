@@ -0,0 +1,375 @@
+/**
+ * Export utilities for accessibility scan results.
+ *
+ * Provides builders that serialize a scan into JSON, CSV (one row per
+ * affected node), a self-contained printable HTML report and SARIF 2.1.0,
+ * plus a helper that offers the result as a file download.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { ExportContext, StoredScan, ViolationWithContext } from '../types';
+import { getImpactMeta } from './impact';
+import { formatWcagLabelList, formatWcagCriterion, parseWcagCriteria } from './wcag';
+import { groupViolationsByBlock } from './grouping';
+import { getSafeUrl } from './url';
+
+/**
+ * Escapes a string for safe inclusion in HTML.
+ *
+ * @param {string} value The raw value.
+ * @return {string} The escaped value.
+ */
+const escapeHtml = (value: string): string =>
+	value
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#039;');
+
+/**
+ * Quotes a value for a CSV cell.
+ *
+ * Values that spreadsheets would read as a formula are prefixed with an
+ * apostrophe, since scanned markup and text are not trusted.
+ *
+ * @param {unknown} value The raw value.
+ * @return {string} The quoted cell.
+ */
+const toCsvCell = (value: unknown): string => {
+	const raw = value === undefined || value === null ? '' : String(value);
+	const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+	return `"${text.replace(/"/g, '""')}"`;
+};
+
+/**
+ * Formats a node target as a single selector string.
+ *
+ * @param {ViolationWithContext['nodes'][number]} node The axe node result.
+ * @return {string} The selector.
+ */
+const formatTarget = (node: ViolationWithContext['nodes'][number]): string =>
+	(node.target || []).map(String).join(' ');
+
+/**
+ * Builds a JSON export of a scan (the raw stored format).
+ *
+ * @since 2.2.0
+ *
+ * @param {StoredScan} scan The scan to export.
+ * @return {string} Pretty-printed JSON.
+ */
+export const buildJsonExport = (scan: StoredScan): string =>
+	JSON.stringify(scan, null, 2);
+
+/**
+ * Builds a CSV export of a scan with one row per affected node.
+ *
+ * @since 2.2.0
+ *
+ * @param {StoredScan} scan The scan to export.
+ * @return {string} CSV text with a header row.
+ */
+export const buildCsvExport = (scan: StoredScan): string => {
+	const header = [
+		'Rule',
+		'Kind',
+		'Source',
+		'Location',
+		'Unmapped reason',
+		'Synced source',
+		'Impact',
+		'Help',
+		'Block',
+		'Block ID',
+		'Target',
+		'HTML',
+		'Failure summary',
+		'WCAG criteria',
+		'Viewports',
+		'Color variants',
+		'Help URL',
+	];
+
+	const rows = scan.violations.flatMap((violation) =>
+		violation.nodes.map((node) => [
+			violation.id,
+			violation.kind || 'violation',
+			violation.source || 'axe',
+			violation.location || 'content',
+			violation.unmappedReason || '',
+			violation.syncedSource
+				? `${violation.syncedSource.type}:${violation.syncedSource.id}`
+				: '',
+			violation.impact || '',
+			violation.help,
+			violation.blockName || '',
+			violation.blockWpavId || '',
+			formatTarget(node),
+			node.html,
+			node.failureSummary || '',
+			parseWcagCriteria(violation.tags).join(' '),
+			(violation.viewports ?? []).join(' '),
+			(violation.variants ?? []).join(' '),
+			violation.helpUrl,
+		])
+	);
+
+	return [header, ...rows]
+		.map((row) => row.map(toCsvCell).join(','))
+		.join('\r\n');
+};
+
+/**
+ * Builds a self-contained, printable HTML report of a scan.
+ *
+ * @since 2.2.0
+ *
+ * @param {StoredScan}    scan    The scan to export.
+ * @param {ExportContext} context Post and label information for the report.
+ * @return {string} Complete HTML document markup.
+ */
+export const buildHtmlReport = (
+	scan: StoredScan,
+	context: ExportContext
+): string => {
+	const completed = new Date(scan.completedAt).toLocaleString();
+	const tagText = scan.wcagTags?.length
+		? formatWcagLabelList(scan.wcagTags, context.wcagLabels)
+		: 'Not recorded';
+
+	const sections = groupViolationsByBlock(scan.violations)
+		.map(({ label, violations }) => {
+			const items = violations
+				.map((violation) => {
+					const impact = getImpactMeta(violation.impact);
+					const criteria = parseWcagCriteria(violation.tags)
+						.map(formatWcagCriterion)
+						.join(', ');
+					const nodes = violation.nodes
+						.map(
+							(node) =>
+								`<li><code>${escapeHtml(formatTarget(node))}</code>${
+									node.failureSummary
+										? `<pre>${escapeHtml(node.failureSummary)}</pre>`
+										: ''
+								}</li>`
+						)
+						.join('');
+
+					const helpUrl = getSafeUrl(violation.helpUrl);
+
+					return `<article class="violation">
+	<h3><span class="impact" style="background:${impact.color}">${escapeHtml(
+						impact.label
+					)}</span> ${escapeHtml(violation.help)}</h3>
+	<p>${escapeHtml(violation.description)}</p>
+	<p><strong>Rule:</strong> ${escapeHtml(violation.id)}${
+						violation.kind === 'incomplete' ? ' (needs review)' : ''
+					}${criteria ? ` &middot; <strong>WCAG:</strong> ${escapeHtml(criteria)}` : ''}</p>
+	<ul>${nodes}</ul>${
+						helpUrl
+							? `
+	<p><a href="${escapeHtml(helpUrl)}">${escapeHtml(helpUrl)}</a></p>`
+							: ''
+					}
+</article>`;
+				})
+				.join('\n');
+
+			return `<section>
+<h2>${escapeHtml(label)} (${violations.length})</h2>
+${items}
+</section>`;
+		})
+		.join('\n');
+
+	return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Accessibility report: ${escapeHtml(context.postTitle)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 2rem; color: #1e1e1e; }
+h1 { margin-bottom: 0.25rem; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dt { font-weight: 600; }
+section { margin-top: 2rem; }
+.violation { border: 1px solid #ddd; border-radius: 4px; padding: 0.75rem 1rem; margin: 0.75rem 0; break-inside: avoid; }
+.impact { color: #fff; font-size: 0.75rem; padding: 0.1rem 0.4rem; border-radius: 3px; vertical-align: middle; }
+pre { white-space: pre-wrap; background: #f6f7f7; padding: 0.5rem; }
+@media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+<h1>Accessibility report</h1>
+<p>${escapeHtml(context.postTitle)}${
+		context.postUrl ? ` &middot; ${escapeHtml(context.postUrl)}` : ''
+	}</p>
+<dl>
+<dt>Scanned</dt><dd>${escapeHtml(completed)}</dd>
+<dt>WCAG tags</dt><dd>${escapeHtml(tagText)}</dd>
+<dt>Engine</dt><dd>axe-core ${escapeHtml(scan.axeVersion || 'unknown')}</dd>
+<dt>Blocks scanned</dt><dd>${scan.scannedBlocks}</dd>
+<dt>Results</dt><dd>${scan.violations.length}</dd>
+</dl>
+${sections || '<p>No accessibility violations were detected.</p>'}
+</body>
+</html>
+`;
+};
+
+/**
+ * Maps an axe result to a SARIF result level.
+ *
+ * SARIF only allows the "none" level for results whose kind is not "fail",
+ * so results that need manual review get "none".
+ *
+ * @param {ViolationWithContext} violation The axe result.
+ * @return {string} The SARIF level.
+ */
+const getSarifLevel = (violation: ViolationWithContext): string => {
+	if (violation.kind === 'incomplete') {
+		return 'none';
+	}
+
+	switch (violation.impact) {
+		case 'critical':
+		case 'serious':
+			return 'error';
+		case 'moderate':
+			return 'warning';
+		default:
+			return 'note';
+	}
+};
+
+/**
+ * Builds a SARIF 2.1.0 log of a scan.
+ *
+ * Rule metadata (help text, help URL and tags) comes from the axe results.
+ *
+ * @since 2.2.0
+ *
+ * @param {StoredScan}    scan    The scan to export.
+ * @param {ExportContext} context Post information for result locations.
+ * @return {string} Pretty-printed SARIF JSON.
+ */
+export const buildSarifExport = (
+	scan: StoredScan,
+	context: ExportContext
+): string => {
+	const ruleIndex = new Map<string, number>();
+	const rules: Record<string, unknown>[] = [];
+
+	scan.violations.forEach((violation) => {
+		if (ruleIndex.has(violation.id)) {
+			return;
+		}
+
+		const helpUrl = getSafeUrl(violation.helpUrl);
+
+		ruleIndex.set(violation.id, rules.length);
+		rules.push({
+			id: violation.id,
+			name: violation.id,
+			shortDescription: { text: violation.help },
+			fullDescription: { text: violation.description },
+			...(helpUrl && { helpUri: helpUrl }),
+			help: { text: helpUrl ? `${violation.help} ${helpUrl}` : violation.help },
+			properties: { tags: violation.tags },
+		});
+	});
+
+	const results = scan.violations.flatMap((violation) =>
+		violation.nodes.map((node) => ({
+			ruleId: violation.id,
+			ruleIndex: ruleIndex.get(violation.id),
+			kind: violation.kind === 'incomplete' ? 'review' : 'fail',
+			level: getSarifLevel(violation),
+			message: { text: node.failureSummary || violation.help },
+			locations: [
+				{
+					...(context.postUrl
+						? {
+								physicalLocation: {
+									artifactLocation: { uri: context.postUrl },
+								},
+						  }
+						: {}),
+					logicalLocations: [
+						{
+							name: violation.blockName || 'Unknown block',
+							fullyQualifiedName: formatTarget(node),
+							kind: 'element',
+						},
+					],
+				},
+			],
+			properties: {
+				impact: violation.impact,
+				blockId: violation.blockWpavId,
+				html: node.html,
+			},
+		}))
+	);
+
+	return JSON.stringify(
+		{
+			$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+			version: '2.1.0',
+			runs: [
+				{
+					tool: {
+						driver: {
+							name: 'axe-core',
+							version: scan.axeVersion,
+							informationUri: 'https://github.com/dequelabs/axe-core',
+							rules,
+						},
+					},
+					invocations: [
+						{
+							executionSuccessful: true,
+							endTimeUtc: scan.completedAt,
+						},
+					],
+					results,
+				},
+			],
+		},
+		null,
+		2
+	);
+};
+
+/**
+ * Offers content to the user as a file download.
+ *
+ * @since 2.2.0
+ *
+ * @param {string} filename The suggested file name.
+ * @param {string} content  The file content.
+ * @param {string} mimeType The MIME type of the content.
+ */
+export const downloadFile = (
+	filename: string,
+	content: string,
+	mimeType: string
+): void => {
+	if (typeof document === 'undefined') {
+		return;
+	}
+
+	const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+	const link = document.createElement('a');
+
+	link.href = url;
+	link.download = filename;
+	document.body.appendChild(link);
+	link.click();
+	document.body.removeChild(link);
+
+	window.setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,232 @@
+/**
+ * Violation grouping utilities for the accessibility validator.
+ *
+ * Provides helpers for grouping scan results by block, by axe rule, by
+ * impact level and by WCAG success criterion, and for filtering results
+ * by free text.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type {
+	ViolationGroup,
+	ViolationGrouping,
+	ViolationWithContext,
+} from '../types';
+import { getImpactMeta, getImpactRank } from './impact';
+import { getViolationBlockLabel } from './blockTree';
+import {
+	compareWcagCriteria,
+	formatWcagCriterion,
+	parseWcagCriteria,
+} from './wcag';
+
+/**
+ * Key and label of the group for results without a WCAG criterion.
+ */
+const NO_CRITERION_KEY = 'no-criterion';
+const NO_CRITERION_LABEL = 'Best practices (no WCAG criterion)';
+
+/**
+ * Adds a violation to a group, creating the group on first use.
+ *
+ * @param {Map<string, ViolationGroup>} groups    Groups keyed by group key.
+ * @param {string}                      key       Group key.
+ * @param {string}                      label     Group label.
+ * @param {ViolationWithContext}        violation The violation to add.
+ */
+const addToGroup = (
+	groups: Map<string, ViolationGroup>,
+	key: string,
+	label: string,
+	violation: ViolationWithContext
+): void => {
+	if (!groups.has(key)) {
+		groups.set(key, { key, label, violations: [] });
+	}
+	groups.get(key)!.violations.push(violation);
+};
+
+/**
+ * Groups violations by block, in first-seen order. Groups are labelled with
+ * the block's ancestry path when known.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext[]} violations Violations to group.
+ * @return {ViolationGroup[]} One group per block.
+ */
+export const groupViolationsByBlock = (
+	violations: ViolationWithContext[]
+): ViolationGroup[] => {
+	const groups = new Map<string, ViolationGroup>();
+
+	violations.forEach((violation, index) => {
+		const label = getViolationBlockLabel(violation);
+		const key = violation.blockClientId || `${label}-${index}`;
+
+		addToGroup(groups, key, label, violation);
+	});
+
+	return Array.from(groups.values());
+};
+
+/**
+ * Groups violations by axe rule id, in first-seen order.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext[]} violations Violations to group.
+ * @return {ViolationGroup[]} One group per rule.
+ */
+export const groupViolationsByRule = (
+	violations: ViolationWithContext[]
+): ViolationGroup[] => {
+	const groups = new Map<string, ViolationGroup>();
+
+	violations.forEach((violation) => {
+		addToGroup(
+			groups,
+			violation.id,
+			`${violation.help} (${violation.id})`,
+			violation
+		);
+	});
+
+	return Array.from(groups.values());
+};
+
+/**
+ * Groups violations by impact level, most severe first.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext[]} violations Violations to group.
+ * @return {ViolationGroup[]} One group per impact level.
+ */
+export const groupViolationsByImpact = (
+	violations: ViolationWithContext[]
+): ViolationGroup[] => {
+	const groups = new Map<string, ViolationGroup>();
+
+	violations.forEach((violation) => {
+		addToGroup(
+			groups,
+			violation.impact || 'unknown',
+			getImpactMeta(violation.impact).label,
+			violation
+		);
+	});
+
+	return Array.from(groups.values()).sort(
+		(a, b) =>
+			getImpactRank(a.violations[0].impact) -
+			getImpactRank(b.violations[0].impact)
+	);
+};
+
+/**
+ * Groups violations by WCAG success criterion, in criterion order.
+ *
+ * A violation whose rule maps to several criteria appears in each of them.
+ * Violations without a criterion (e.g. best practices) are grouped last.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext[]} violations Violations to group.
+ * @return {ViolationGroup[]} One group per success criterion.
+ */
+export const groupViolationsByCriterion = (
+	violations: ViolationWithContext[]
+): ViolationGroup[] => {
+	const groups = new Map<string, ViolationGroup>();
+
+	violations.forEach((violation) => {
+		const criteria = parseWcagCriteria(violation.tags);
+
+		if (criteria.length === 0) {
+			addToGroup(groups, NO_CRITERION_KEY, NO_CRITERION_LABEL, violation);
+			return;
+		}
+
+		criteria.forEach((criterion) => {
+			addToGroup(groups, criterion, formatWcagCriterion(criterion), violation);
+		});
+	});
+
+	return Array.from(groups.values()).sort((a, b) => {
+		if (a.key === NO_CRITERION_KEY) {
+			return 1;
+		}
+		if (b.key === NO_CRITERION_KEY) {
+			return -1;
+		}
+		return compareWcagCriteria(a.key, b.key);
+	});
+};
+
+/**
+ * Groups violations using the given grouping.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext[]} violations Violations to group.
+ * @param {ViolationGrouping}      grouping   How to group the violations.
+ * @return {ViolationGroup[]} The groups.
+ */
+export const groupViolations = (
+	violations: ViolationWithContext[],
+	grouping: ViolationGrouping
+): ViolationGroup[] => {
+	switch (grouping) {
+		case 'rule':
+			return groupViolationsByRule(violations);
+		case 'impact':
+			return groupViolationsByImpact(violations);
+		case 'criterion':
+			return groupViolationsByCriterion(violations);
+		default:
+			return groupViolationsByBlock(violations);
+	}
+};
+
+/**
+ * Checks whether a violation matches a free-text filter.
+ *
+ * Matches case-insensitively against the rule id, help text, description,
+ * block name, tags and affected node selectors and markup.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation The violation to test.
+ * @param {string}               query     The filter text.
+ * @return {boolean} Whether the violation matches.
+ */
+export const matchesViolationFilter = (
+	violation: ViolationWithContext,
+	query: string
+): boolean => {
+	const needle = query.trim().toLowerCase();
+
+	if (!needle) {
+		return true;
+	}
+
+	const haystack = [
+		violation.id,
+		violation.help,
+		violation.description,
+		violation.blockName,
+		...(violation.blockPath || []),
+		...(violation.tags || []),
+		...violation.nodes.flatMap((node) => [
+			(node.target || []).map(String).join(' '),
+			node.html,
+		]),
+	]
+		.filter(Boolean)
+		.join('\n')
+		.toLowerCase();
+
+	return haystack.includes(needle);
+};
@@ -2,9 +2,14 @@
  * Impact level utilities for accessibility violations.
  */
 
-import type { ViolationWithContext, ImpactMeta } from '../types';
+import type { ViolationWithContext, ImpactMeta, ImpactLevel } from '../types';
 import { IMPACT_META } from '../constants';
 
+/**
+ * Impact levels ordered from most to least severe.
+ */
+export const IMPACT_LEVELS = Object.keys(IMPACT_META) as ImpactLevel[];
+
 /**
  * Gets metadata for a violation's impact level.
  *
@@ -19,3 +24,29 @@ export const getImpactMeta = (
 	}
 	return { color: '#757575', label: 'Impact not available' };
 };
+
+/**
+ * Gets the severity rank of an impact level.
+ *
+ * @param impact - The impact level from the violation.
+ * @returns 0 for the most severe level, higher numbers for less severe
+ *          levels, and the number of levels when the impact is unknown.
+ */
+export const getImpactRank = (
+	impact?: ViolationWithContext['impact']
+): number => {
+	const rank = impact ? IMPACT_LEVELS.indexOf(impact) : -1;
+	return rank === -1 ? IMPACT_LEVELS.length : rank;
+};
+
+/**
+ * Checks whether an impact level is at or above a threshold.
+ *
+ * @param impact    - The impact level from the violation.
+ * @param threshold - The minimum impact level.
+ * @returns True when the impact is as severe as the threshold or more.
+ */
+export const isImpactAtLeast = (
+	impact: ViolationWithContext['impact'],
+	threshold: ImpactLevel
+): boolean => getImpactRank(impact) <= getImpactRank(threshold);
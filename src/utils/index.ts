@@ -9,3 +9,25 @@ export * from './impact';
 export * from './scanner';
 export * from './notices';
 export * from './saveAndPreview';
+export * from './violations';
+export * from './dismissals';
+export * from './publishGate';
+export * from './diff';
+export * from './grouping';
+export * from './export';
+export * from './bulk';
+export * from './preferences';
+export * from './progress';
+export * from './rules';
+export * from './profiles';
+export * from './customRules';
+export * from './editorialChecks';
+export * from './structure';
+export * from './overlay';
+export * from './viewports';
+export * from './variants';
+export * from './renderMode';
+export * from './unmapped';
+export * from './blockTree';
+export * from './syncedContent';
+export * from './url';
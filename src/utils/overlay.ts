@@ -0,0 +1,160 @@
+/**
+ * Visual overlay utilities for the accessibility validator.
+ *
+ * Outlines the failing nodes of a scan on a rendered scan document, each
+ * marker numbered and coloured by impact, for the visual preview.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { OverlayResult, ViolationWithContext } from '../types';
+import { getImpactMeta, getImpactRank } from './impact';
+
+/**
+ * Class of the layer that holds the overlay markers.
+ */
+const OVERLAY_CLASS = 'wpav-overlay';
+
+/**
+ * Finds the element a result node points at.
+ *
+ * Only plain selectors are supported; nodes inside shadow DOM or nested
+ * frames have multi-part targets and are skipped.
+ *
+ * @param {Document}     doc    The rendered scan document.
+ * @param {Array<mixed>} target The axe node target.
+ * @return {?Element} The element, or null.
+ */
+const findTargetElement = (doc: Document, target: unknown[]): Element | null => {
+	if (target.length !== 1 || typeof target[0] !== 'string') {
+		return null;
+	}
+
+	try {
+		return doc.querySelector(target[0]);
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Removes the overlay from a document.
+ *
+ * @since 2.2.0
+ *
+ * @param {Document} doc The rendered scan document.
+ */
+export const clearViolationOverlay = (doc: Document): void => {
+	doc.querySelectorAll(`.${OVERLAY_CLASS}`).forEach((layer) => layer.remove());
+};
+
+/**
+ * Outlines every failing node of a scan on a rendered scan document.
+ *
+ * Results are numbered from the most severe impact down. Each marker is a
+ * button showing the rule help on hover that calls `onSelect` when clicked.
+ * Markers of template issues and unmapped findings have no block to select,
+ * so they are disabled. Drawing again replaces the previous overlay, e.g.
+ * after a resize.
+ *
+ * @since 2.2.0
+ *
+ * @param {Document}               doc        The rendered scan document.
+ * @param {ViolationWithContext[]} violations Results to outline.
+ * @param {Function}               onSelect   Called with the clicked result.
+ * @return {OverlayResult} How many markers were drawn and how many nodes
+ *                         were not found.
+ */
+export const drawViolationOverlay = (
+	doc: Document,
+	violations: ViolationWithContext[],
+	onSelect: (violation: ViolationWithContext) => void
+): OverlayResult => {
+	clearViolationOverlay(doc);
+
+	const view = doc.defaultView;
+	const layer = doc.createElement('div');
+	layer.className = OVERLAY_CLASS;
+	Object.assign(layer.style, {
+		position: 'absolute',
+		top: '0',
+		left: '0',
+		width: '0',
+		height: '0',
+		zIndex: '2147483647',
+	});
+
+	const sorted = [...violations].sort(
+		(a, b) => getImpactRank(a.impact) - getImpactRank(b.impact)
+	);
+	const result: OverlayResult = { drawn: 0, missing: 0 };
+
+	sorted.forEach((violation) => {
+		violation.nodes.forEach((node) => {
+			const element = findTargetElement(doc, node.target || []);
+
+			if (!element) {
+				result.missing++;
+				return;
+			}
+
+			const rect = element.getBoundingClientRect();
+			const { color } = getImpactMeta(violation.impact);
+			const number = ++result.drawn;
+			const isSelectable = !!violation.blockClientId;
+			const label = isSelectable
+				? `${number}. ${violation.help}`
+				: `${number}. ${violation.help} (not part of an editor block)`;
+
+			const marker = doc.createElement('button');
+			marker.type = 'button';
+			marker.title = label;
+			marker.setAttribute('aria-label', label);
+			marker.disabled = !isSelectable;
+			Object.assign(marker.style, {
+				position: 'absolute',
+				top: `${rect.top + (view?.scrollY ?? 0)}px`,
+				left: `${rect.left + (view?.scrollX ?? 0)}px`,
+				width: `${Math.max(rect.width, 12)}px`,
+				height: `${Math.max(rect.height, 12)}px`,
+				margin: '0',
+				padding: '0',
+				border: `3px ${violation.kind === 'incomplete' ? 'dashed' : 'solid'} ${color}`,
+				background: 'transparent',
+				cursor: isSelectable ? 'pointer' : 'default',
+				boxSizing: 'border-box',
+			});
+
+			// Dark text on the lighter impact colours keeps the number legible.
+			const badge = doc.createElement('span');
+			badge.textContent = String(number);
+			Object.assign(badge.style, {
+				position: 'absolute',
+				top: '-3px',
+				left: '-3px',
+				minWidth: '18px',
+				padding: '0 4px',
+				background: color,
+				color: getImpactRank(violation.impact) >= 2 ? '#1e1e1e' : '#fff',
+				font: 'bold 12px/18px sans-serif',
+				textAlign: 'center',
+			});
+
+			marker.appendChild(badge);
+
+			if (isSelectable) {
+				marker.addEventListener('click', (event) => {
+					event.preventDefault();
+					onSelect(violation);
+				});
+			}
+
+			layer.appendChild(marker);
+		});
+	});
+
+	// Appended to the root element so a positioned body cannot offset it.
+	doc.documentElement.appendChild(layer);
+
+	return result;
+};
@@ -0,0 +1,40 @@
+/**
+ * Per-user preference utilities for the accessibility validator.
+ *
+ * Preferences are stored in user meta and exposed through the core users
+ * REST endpoint, so they follow the user across browsers.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import apiFetch from '@wordpress/api-fetch';
+
+/**
+ * Gets whether live mode (automatic rescans while editing) is enabled.
+ *
+ * @since 2.2.0
+ *
+ * @return {boolean} The stored preference; off by default.
+ */
+export const getLiveScanPreference = (): boolean =>
+	typeof window !== 'undefined' && !!window.wpavSettings?.liveScan;
+
+/**
+ * Saves the live mode preference for the current user.
+ *
+ * @since 2.2.0
+ *
+ * @param {boolean} enabled Whether live mode should be enabled.
+ * @return {Promise<void>} Resolves once the preference has been saved.
+ */
+export const saveLiveScanPreference = async (enabled: boolean): Promise<void> => {
+	await apiFetch({
+		path: '/wp/v2/users/me',
+		method: 'POST',
+		data: { meta: { wpav_live_scan: enabled } },
+	});
+
+	if (window.wpavSettings) {
+		window.wpavSettings.liveScan = enabled;
+	}
+};
@@ -14,15 +14,20 @@ export type ScanDocumentOptions = {
  *
  * @since 1.0.0
  *
+ * @param {number} [width=1200] Viewport width in pixels.
+ * @param {number} [height=800] Viewport height in pixels.
  * @return {HTMLIFrameElement} A configured iframe element.
  */
-export const createScanIframe = (): HTMLIFrameElement => {
+export const createScanIframe = (
+  width: number = 1200,
+  height: number = 800
+): HTMLIFrameElement => {
   const iframe = document.createElement('iframe');
   iframe.style.position = 'absolute';
   iframe.style.left = '-10000px';
   iframe.style.top = 'auto';
-  iframe.style.width = '1200px';
-  iframe.style.height = '800px';
+  iframe.style.width = `${width}px`;
+  iframe.style.height = `${height}px`;
   iframe.style.overflow = 'hidden';
   iframe.style.border = 'none';
   return iframe;
@@ -65,30 +70,156 @@ export const buildScanDocumentHtml = (options: ScanDocumentOptions): string => {
   `;
 };
 
+/**
+ * Prepares a complete page rendered inside the theme template for the scan
+ * iframe.
+ *
+ * The page already links its own styles. Scripts are removed so theme and
+ * third-party code does not run with the editor's origin, which also keeps
+ * the scanned markup as the server rendered it.
+ *
+ * @since 2.2.0
+ *
+ * @param {string} html Complete HTML document markup.
+ * @param {string} lang Language to set if the page does not declare one.
+ * @return {string} HTML document markup for the scan iframe.
+ */
+export const buildFullPageScanDocumentHtml = (
+  html: string,
+  lang: string
+): string => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  doc.querySelectorAll('script').forEach((script) => script.remove());
+
+  if (!doc.documentElement.hasAttribute('lang')) {
+    doc.documentElement.setAttribute('lang', lang);
+  }
+
+  return `<!doctype html>\n${doc.documentElement.outerHTML}`;
+};
+
 /**
  * Waits for the iframe to finish loading or rejects on timeout or error.
  *
  * @since 1.0.0
  *
- * @param {HTMLIFrameElement} iframe The iframe to observe.
+ * @param {HTMLIFrameElement} iframe   The iframe to observe.
+ * @param {AbortSignal}       [signal] Optional signal that aborts the wait.
  * @return {Promise<void>} Resolves when the iframe has loaded.
  */
-export const waitForIframeLoad = (iframe: HTMLIFrameElement): Promise<void> =>
+export const waitForIframeLoad = (
+  iframe: HTMLIFrameElement,
+  signal?: AbortSignal
+): Promise<void> =>
   new Promise((resolve, reject) => {
-    const timeoutId = window.setTimeout(() => {
+    const cleanup = () => {
+      clearTimeout(timeoutId);
       iframe.onload = null;
       iframe.onerror = null;
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+
+    const timeoutId = window.setTimeout(() => {
+      cleanup();
       reject(new Error('Preview page load timeout'));
     }, 15000);
 
+    if (signal?.aborted) {
+      handleAbort();
+      return;
+    }
+
+    signal?.addEventListener('abort', handleAbort);
+
     iframe.onload = () => {
-      clearTimeout(timeoutId);
+      cleanup();
       resolve();
     };
 
     iframe.onerror = (e) => {
-      clearTimeout(timeoutId);
+      cleanup();
       console.error('Preview iframe failed to load:', e);
       reject(new Error('Failed to load preview page'));
     };
   });
+
+/**
+ * Creates the error a cancelled scan rejects with.
+ *
+ * @since 2.2.0
+ *
+ * @return {DOMException} An AbortError.
+ */
+export const createAbortError = (): DOMException =>
+  new DOMException('The accessibility scan was cancelled.', 'AbortError');
+
+/**
+ * Checks whether an error comes from a cancelled scan.
+ *
+ * @since 2.2.0
+ *
+ * @param {unknown} error The caught error.
+ * @return {boolean} True for AbortErrors.
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Rejects with an AbortError if the signal has been aborted.
+ *
+ * @since 2.2.0
+ *
+ * @param {AbortSignal} [signal] The signal to check.
+ *
+ * @throws {DOMException} If the signal has been aborted.
+ */
+export const throwIfAborted = (signal?: AbortSignal): void => {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+};
+
+/**
+ * Settles with the given promise, or rejects as soon as the signal aborts.
+ *
+ * Used for work that cannot itself be interrupted, such as an axe run.
+ *
+ * @since 2.2.0
+ *
+ * @param {Promise}     promise  The work to wait for.
+ * @param {AbortSignal} [signal] Optional abort signal.
+ * @return {Promise} The result of the work.
+ */
+export const raceAbort = <T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => reject(createAbortError());
+
+    signal.addEventListener('abort', handleAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', handleAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', handleAbort);
+        reject(error);
+      }
+    );
+  });
+};
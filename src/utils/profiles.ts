@@ -0,0 +1,47 @@
+/**
+ * Scan profile utilities for accessibility scanning configuration.
+ *
+ * Scan profiles are resolved server-side for the current post type and
+ * user role; their WCAG tags and disabled rules are already merged into
+ * `wpavSettings`. These helpers cover the remaining profile settings.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { ScanProfile, ViolationWithContext } from '../types';
+import { isImpactAtLeast } from './impact';
+
+/**
+ * Gets the scan profile resolved for the current post and user.
+ *
+ * @since 2.2.0
+ *
+ * @return {?ScanProfile} The profile, or null when the global settings apply.
+ */
+export const getScanProfile = (): ScanProfile | null =>
+	(typeof window !== 'undefined' && window.wpavSettings?.scanProfile) || null;
+
+/**
+ * Drops results below the profile's impact threshold.
+ *
+ * Results without an impact are kept, since their severity is unknown.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext[]} violations The scan results.
+ * @param {?ScanProfile}           profile    The active scan profile.
+ * @return {ViolationWithContext[]} The results to report.
+ */
+export const applyProfileImpactThreshold = <T extends ViolationWithContext>(
+	violations: T[],
+	profile: ScanProfile | null
+): T[] => {
+	if (!profile) {
+		return violations;
+	}
+
+	return violations.filter(
+		(violation) =>
+			!violation.impact || isImpactAtLeast(violation.impact, profile.minImpact)
+	);
+};
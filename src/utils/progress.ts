@@ -0,0 +1,91 @@
+/**
+ * Scan progress utilities for the accessibility validator.
+ *
+ * Provides helpers for tracking which phase a scan is in and how long each
+ * phase took, and for describing that progress to the user.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { ScanPhase, ScanProgress } from '../types';
+import { SCAN_PHASE_LABELS } from '../constants';
+
+/**
+ * Scan phases in the order they run.
+ */
+export const SCAN_PHASES = Object.keys(SCAN_PHASE_LABELS) as ScanPhase[];
+
+/**
+ * Moves scan progress on to a new phase, recording the duration of the
+ * phase that just ended. Phases that repeat, e.g. once per viewport, add
+ * up.
+ *
+ * @since 2.2.0
+ *
+ * @param {?ScanProgress} progress The current progress, or null at the start.
+ * @param {ScanPhase}     phase    The phase being entered.
+ * @param {number}        [now]    Current timestamp in ms.
+ * @return {ScanProgress} The updated progress.
+ */
+export const advanceScanProgress = (
+	progress: ScanProgress | null,
+	phase: ScanPhase,
+	now: number = Date.now()
+): ScanProgress => ({
+	phase,
+	phaseStartedAt: now,
+	timings: progress
+		? {
+				...progress.timings,
+				[progress.phase]:
+					(progress.timings[progress.phase] ?? 0) +
+					now -
+					progress.phaseStartedAt,
+		  }
+		: {},
+});
+
+/**
+ * Formats a duration for display.
+ *
+ * @since 2.2.0
+ *
+ * @param {number} ms Duration in milliseconds.
+ * @return {string} E.g. "0.4s" or "12.3s".
+ */
+export const formatScanDuration = (ms: number): string =>
+	`${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Sums the recorded phase timings.
+ *
+ * @since 2.2.0
+ *
+ * @param {Object} timings Duration in ms of each completed phase.
+ * @return {number} Total duration in ms.
+ */
+export const getTotalScanDuration = (
+	timings: Partial<Record<ScanPhase, number>>
+): number =>
+	Object.values(timings).reduce((total, ms) => total + (ms ?? 0), 0);
+
+/**
+ * Describes the current scan phase, e.g. for the scan notice.
+ *
+ * @since 2.2.0
+ *
+ * @param {ScanProgress} progress The current progress.
+ * @param {number}       [now]    Current timestamp in ms.
+ * @return {string} E.g. "Analyzing content (step 4 of 5, 3.2s elapsed)".
+ */
+export const describeScanProgress = (
+	progress: ScanProgress,
+	now: number = Date.now()
+): string => {
+	const elapsed =
+		getTotalScanDuration(progress.timings) + (now - progress.phaseStartedAt);
+
+	return `${SCAN_PHASE_LABELS[progress.phase]} (step ${
+		SCAN_PHASES.indexOf(progress.phase) + 1
+	} of ${SCAN_PHASES.length}, ${formatScanDuration(elapsed)} elapsed)`;
+};
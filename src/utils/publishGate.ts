@@ -0,0 +1,88 @@
+/**
+ * Publish gate utilities for the accessibility validator.
+ *
+ * Provides helpers for reading the publish gate policy configured on the
+ * settings page, and for loading and recording overrides of the gate
+ * through the plugin REST API.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import apiFetch from '@wordpress/api-fetch';
+import type {
+	PublishGateSettings,
+	PublishOverride,
+	PublishOverridesResponse,
+} from '../types';
+
+/**
+ * Builds the REST path for the publish overrides of a post.
+ *
+ * @param {number} postId The post ID.
+ * @return {string} The REST path.
+ */
+const getOverridesPath = (postId: number): string =>
+	`/wp-accessibility-validator/v1/publish-overrides/${postId}`;
+
+/**
+ * Gets the publish gate policy from WordPress settings.
+ *
+ * @since 2.2.0
+ *
+ * @return {PublishGateSettings} The policy; disabled when not configured.
+ */
+export const getPublishGateSettings = (): PublishGateSettings => {
+	const settings =
+		typeof window !== 'undefined' ? window.wpavSettings?.publishGate : null;
+
+	return {
+		enabled: !!settings?.enabled,
+		minImpact: settings?.minImpact ?? 'serious',
+		blockWhenStale: !!settings?.blockWhenStale,
+		canOverride: !!settings?.canOverride,
+	};
+};
+
+/**
+ * Fetches the recorded publish gate overrides for a post.
+ *
+ * @since 2.2.0
+ *
+ * @param {number} postId The post ID.
+ * @return {Promise<PublishOverride[]>} Overrides, newest first.
+ */
+export const fetchPublishOverrides = async (
+	postId: number
+): Promise<PublishOverride[]> => {
+	const response = await apiFetch<PublishOverridesResponse>({
+		path: getOverridesPath(postId),
+	});
+
+	return response?.overrides ?? [];
+};
+
+/**
+ * Records an override of the publish gate.
+ *
+ * @since 2.2.0
+ *
+ * @param {number}   postId      The post ID.
+ * @param {string}   reason      Why the gate is being overridden.
+ * @param {string}   contentHash Hash of the content the override applies to.
+ * @param {string[]} issues      Descriptions of the blocking issues.
+ * @return {Promise<PublishOverride[]>} Updated overrides, newest first.
+ */
+export const recordPublishOverride = async (
+	postId: number,
+	reason: string,
+	contentHash: string,
+	issues: string[]
+): Promise<PublishOverride[]> => {
+	const response = await apiFetch<PublishOverridesResponse>({
+		path: getOverridesPath(postId),
+		method: 'POST',
+		data: { reason, contentHash, issues },
+	});
+
+	return response?.overrides ?? [];
+};
@@ -0,0 +1,50 @@
+/**
+ * Render mode utilities for accessibility scanning.
+ *
+ * Scans render either the post content on its own or the full page inside
+ * the theme template. In full page scans, results outside the post content
+ * come from the header, footer and template parts and are reported
+ * separately as template issues.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { ScanRenderMode, ViolationWithContext } from '../types';
+import { SCAN_RENDER_MODE_LABELS } from '../constants';
+
+/**
+ * Gets the configured render mode from WordPress settings.
+ *
+ * @since 2.2.0
+ *
+ * @return {ScanRenderMode} The render mode, defaulting to the post content.
+ */
+export const getConfiguredRenderMode = (): ScanRenderMode => {
+	const mode =
+		typeof window !== 'undefined' ? window.wpavSettings?.scanRenderMode : null;
+
+	return mode === 'full-page' ? 'full-page' : 'content';
+};
+
+/**
+ * Formats a render mode for display.
+ *
+ * @since 2.2.0
+ *
+ * @param {ScanRenderMode} mode The render mode.
+ * @return {string} The render mode label.
+ */
+export const formatRenderMode = (mode: ScanRenderMode): string =>
+	SCAN_RENDER_MODE_LABELS[mode] ?? mode;
+
+/**
+ * Checks whether a result was found in the theme template rather than the
+ * post content.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation The result.
+ * @return {boolean} True for template issues.
+ */
+export const isTemplateIssue = (violation: ViolationWithContext): boolean =>
+	violation.location === 'template';
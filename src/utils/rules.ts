@@ -0,0 +1,125 @@
+/**
+ * axe rule override utilities for accessibility scanning configuration.
+ *
+ * Reads the rule overrides configured on the settings page and turns them
+ * into axe-core run options and rule configuration.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { RunOptions } from 'axe-core';
+import type { AxeRuleSettings } from '../types';
+
+/**
+ * Normalizes axe rule overrides received from PHP.
+ *
+ * @since 2.2.0
+ *
+ * @param {?AxeRuleSettings} settings Raw rule overrides, if any.
+ * @return {AxeRuleSettings} Disabled and force-enabled rules, and per-rule options.
+ */
+export const normalizeAxeRuleSettings = (
+	settings?: AxeRuleSettings | null
+): AxeRuleSettings => {
+	const options = settings?.options;
+
+	return {
+		disabled: Array.isArray(settings?.disabled) ? settings.disabled : [],
+		enabled: Array.isArray(settings?.enabled) ? settings.enabled : [],
+		// PHP encodes an empty options map as an array.
+		options: options && !Array.isArray(options) ? options : {},
+	};
+};
+
+/**
+ * Gets the configured axe rule overrides from WordPress settings.
+ *
+ * @since 2.2.0
+ *
+ * @return {AxeRuleSettings} Disabled and force-enabled rules, and per-rule options.
+ */
+export const getAxeRuleSettings = (): AxeRuleSettings =>
+	normalizeAxeRuleSettings(
+		typeof window !== 'undefined' ? window.wpavSettings?.axeRules : null
+	);
+
+/**
+ * Builds the axe-core run options for a scan.
+ *
+ * Rules are limited to the given WCAG tags, then force-enabled rules are
+ * added and disabled rules removed. A rule listed as both is disabled.
+ *
+ * @since 2.2.0
+ *
+ * @param {string[]}        wcagTags      WCAG tags to run, or none for all rules.
+ * @param {AxeRuleSettings} ruleSettings  Rule overrides.
+ * @return {RunOptions} The run options.
+ */
+export const buildAxeRunOptions = (
+	wcagTags: string[],
+	ruleSettings: AxeRuleSettings
+): RunOptions => {
+	const runOptions: RunOptions = {
+		resultTypes: ['violations', 'incomplete'],
+	};
+
+	if (wcagTags.length > 0) {
+		runOptions.runOnly = {
+			type: 'tag',
+			values: wcagTags,
+		};
+	}
+
+	const rules: NonNullable<RunOptions['rules']> = {};
+
+	ruleSettings.enabled.forEach((ruleId) => {
+		rules[ruleId] = { enabled: true };
+	});
+
+	ruleSettings.disabled.forEach((ruleId) => {
+		rules[ruleId] = { enabled: false };
+	});
+
+	if (Object.keys(rules).length > 0) {
+		runOptions.rules = rules;
+	}
+
+	return runOptions;
+};
+
+/**
+ * Applies per-rule options with axe.configure() inside the scan iframe.
+ *
+ * Unknown rule IDs are skipped with a warning rather than failing the scan.
+ *
+ * @since 2.2.0
+ *
+ * @param {Object}          axe          The axe instance in the scan iframe.
+ * @param {AxeRuleSettings} ruleSettings Rule overrides.
+ */
+export const applyAxeRuleOptions = (
+	axe: any,
+	ruleSettings: AxeRuleSettings
+): void => {
+	const knownRules = new Set<string>(
+		(axe.getRules?.() ?? []).map((rule: { ruleId: string }) => rule.ruleId)
+	);
+
+	const rules = Object.entries(ruleSettings.options)
+		.filter(([ruleId]) => {
+			if (knownRules.has(ruleId)) {
+				return true;
+			}
+
+			// eslint-disable-next-line no-console
+			console.warn(
+				`WPAccessibilityValidator: ignoring options for unknown axe rule "${ruleId}"`
+			);
+			return false;
+		})
+		.map(([ruleId, options]) => ({ ...options, id: ruleId }));
+
+	if (rules.length > 0) {
+		axe.configure({ rules });
+	}
+};
@@ -8,40 +8,115 @@
  * @package WPAccessibilityValidator
  */
 
-import type { RunOptions } from 'axe-core';
 import { select } from '@wordpress/data';
+import { serialize } from '@wordpress/blocks';
 
+import type { ElementContext, RunOptions, Spec } from 'axe-core';
 import type {
+  AxeRuleSettings,
+  DocumentStructure,
   ScanMetrics,
+  ScanOptions,
+  ScanProfile,
   ViolationWithContext,
   WPBlock,
   RenderResponse,
+  ScanRenderMode,
+  ScanVariant,
 } from '../types';
 import { getConfiguredWcagTags } from './wcag';
+import {
+  getAxeRuleSettings,
+  normalizeAxeRuleSettings,
+  buildAxeRunOptions,
+  applyAxeRuleOptions,
+} from './rules';
+import { getScanProfile, applyProfileImpactThreshold } from './profiles';
+import {
+  getCustomAxeSpec,
+  getCustomRuleIds,
+  applyCustomAxeSpec,
+} from './customRules';
+import { runEditorialChecks } from './editorialChecks';
+import { buildDocumentStructure } from './structure';
+import { getConfiguredViewports, mergeScanRunResults } from './viewports';
+import {
+  applyScanVariant,
+  buildVariantRunOptions,
+  getConfiguredScanVariants,
+} from './variants';
+import { getConfiguredRenderMode } from './renderMode';
+import { summarizeUnmappedFindings } from './unmapped';
+import { indexBlocksByWpavId } from './blockTree';
+import {
+  collectSyncedRanges,
+  findContainingSyncedRanges,
+  getSyncedRangeElements,
+} from './syncedContent';
+import { AXE_LOAD_TIMEOUT } from '../constants';
 import {
   createScanIframe,
   buildScanDocumentHtml,
+  buildFullPageScanDocumentHtml,
   waitForIframeLoad,
+  isAbortError,
+  raceAbort,
+  throwIfAborted,
 } from './previewDom';
 import apiFetch from '@wordpress/api-fetch';
 
 /**
- * Injects axe-core into the iframe and resolves when it is available.
+ * Injects the bundled axe-core script into the iframe.
  *
- * @since 1.0.0
+ * axe-core is copied into the plugin build directory and served from the
+ * plugin itself (see `wpavSettings.axeScriptUrl`), so scans work behind a
+ * strict CSP and without network access to third-party CDNs.
+ *
+ * @since 2.2.0
  *
  * @param {Document} iframeDoc Document of the scan iframe.
+ * @param {string}   scriptUrl URL of the bundled axe-core script.
  * @return {Promise<void>} Resolves once axe-core has loaded.
+ *
+ * @throws {Error} If the script fails to load or does not load in time.
  */
-const loadAxeIntoIframe = async (iframeDoc: Document): Promise<void> => {
-  const axeScript = iframeDoc.createElement('script');
-  axeScript.src = 'https://cdn.jsdelivr.net/npm/axe-core@4.9.1/axe.min.js';
-  iframeDoc.head.appendChild(axeScript);
+const loadAxeIntoIframe = (
+  iframeDoc: Document,
+  scriptUrl: string
+): Promise<void> =>
+  new Promise<void>((resolve, reject) => {
+    const axeScript = iframeDoc.createElement('script');
+
+    // A failed script is removed so a late load cannot settle the promise.
+    const removeScript = () => {
+      axeScript.onload = null;
+      axeScript.onerror = null;
+      axeScript.remove();
+    };
 
-  await new Promise<void>((resolve) => {
-    axeScript.onload = () => resolve();
+    const timeoutId = window.setTimeout(() => {
+      removeScript();
+      reject(
+        new Error(
+          `Timed out after ${AXE_LOAD_TIMEOUT}ms loading axe-core from ${scriptUrl}`
+        )
+      );
+    }, AXE_LOAD_TIMEOUT);
+
+    axeScript.onload = () => {
+      window.clearTimeout(timeoutId);
+      resolve();
+    };
+
+    axeScript.onerror = () => {
+      window.clearTimeout(timeoutId);
+      removeScript();
+      reject(new Error(`Failed to load axe-core from ${scriptUrl}`));
+    };
+
+    axeScript.src = scriptUrl;
+    iframeDoc.head.appendChild(axeScript);
   });
-};
 
 /**
  * Runs a client-side accessibility scan on all blocks in the editor.
@@ -61,81 +136,243 @@ export const runClientSideScan = async (): Promise<ScanMetrics> => {
 };
 
 /**
- * Runs an accessibility scan against the rendered preview page.
+ * Renders a post through the REST render endpoint as a scan document.
  *
- * Loads the post preview into an off-screen iframe, injects axe-core,
- * filters the resulting violations to those that affect blocks tagged
- * with `data-wpav-block-id`, and maps violations back to editor blocks.
+ * In content mode, the document wraps the rendered content with the theme
+ * and global styles, as built by `buildScanDocumentHtml`. In full page mode,
+ * the post is rendered inside its theme template and the page is used as
+ * the document (see `buildFullPageScanDocumentHtml`).
  *
- * @since 1.0.0
+ * @since 2.2.0
  *
- * @param {WPBlock[]} blocks The blocks to scan.
- * @return {Promise<ScanMetrics>} A promise that resolves with scan metrics.
+ * @param {number}           postId   The post to render.
+ * @param {string|undefined} content  Edited content to render, or undefined
+ *                                    to render the saved post content.
+ * @param {AbortSignal}      [signal] Optional signal that aborts the request.
+ * @param {ScanRenderMode}   [mode]   How to render the post; defaults to
+ *                                    the configured render mode.
+ * @return {Promise<string>} The complete scan document markup.
  *
- * @throws {Error} If the preview cannot be loaded, the iframe cannot be
- *                 accessed due to CORS, axe-core fails to load, or the
- *                 scan process encounters an unexpected error.
+ * @throws {Error} If the render request fails.
  */
-export const runPreviewScan = async (
-  blocks: WPBlock[]
-): Promise<ScanMetrics> => {
-  if (typeof document === 'undefined') {
-    throw new Error('Preview scanning is only available in a browser context.');
-  }
-
+export const renderScanDocument = async (
+  postId: number,
+  content: string | undefined,
+  signal?: AbortSignal,
+  mode: ScanRenderMode = getConfiguredRenderMode()
+): Promise<string> => {
   const { themeStylesheetUrl, globalStylesCss } =
     (window as any).wpavSettings || {};
+  let response: RenderResponse;
 
-  const editorStore = select('core/editor') as any;
-  const postId = editorStore?.getCurrentPostId?.();
-  const content = editorStore?.getEditedPostAttribute?.('content');
+  try {
+    response = await apiFetch({
+      path: `/wp-accessibility-validator/v1/render/${postId}`,
+      method: 'POST',
+      data: content === undefined ? { mode } : { content, mode },
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
 
-  if (!postId) {
-    throw new Error(
-      'Cannot run preview scan: no current post ID is available.'
-    );
+    // eslint-disable-next-line no-console
+    console.error('A11y render request failed', error);
+    throw new Error('Failed to render preview HTML for accessibility scan.');
   }
 
-  if (typeof content !== 'string') {
-    throw new Error('Cannot run preview scan: post content is not available.');
+  const lang = document.documentElement.lang || 'en';
+
+  if (response.mode === 'full-page') {
+    return buildFullPageScanDocumentHtml(response.html, lang);
+  }
+
+  return buildScanDocumentHtml({
+    html: response.html,
+    lang,
+    themeStylesheetUrl,
+    globalStylesCss,
+  });
+};
+
+/**
+ * Settings shared by every viewport run of a scan.
+ */
+interface ViewportScanContext {
+  signal?: AbortSignal;
+  onProgress?: ScanOptions['onProgress'];
+  /** wpavId of a block to limit the axe context to. */
+  scopeBlockId?: string;
+  /** In full page scans, results outside the blocks are template issues. */
+  renderMode: ScanRenderMode;
+  /** Build the document outline, with this title first when set. */
+  structure?: { titleHeadingText?: string };
+  /** Color variant to emulate; other variants only rerun contrast rules. */
+  variant: ScanVariant;
+  axeScriptUrl: string;
+  runOptions: RunOptions;
+  ruleSettings: AxeRuleSettings;
+  customSpec: Spec;
+  scanProfile: ScanProfile | null;
+}
+
+/**
+ * Results of scanning a document at one viewport width.
+ */
+interface ViewportScanResult {
+  totalBlocks: number;
+  violations: ViolationWithContext[];
+  axeVersion?: string;
+  structure?: DocumentStructure;
+}
+
+/**
+ * Finds the rendered block an axe result node belongs to.
+ *
+ * Resolves the node's target selectors in the scan document and looks for
+ * the nearest `data-wpav-block-id` ancestor, falling back to a marker in
+ * the node HTML snippet.
+ *
+ * @param {Document} iframeDoc The scan document.
+ * @param {Object}   node      The axe result node.
+ * @return {Object} The wpavId of the block, or null, and the elements the
+ *                  target selectors matched.
+ */
+const findNodeBlock = (
+  iframeDoc: Document,
+  node: any
+): { blockId: string | null; elements: Element[] } => {
+  const targets = Array.isArray(node.target) ? node.target : [];
+  const elements: Element[] = [];
+
+  for (const selector of targets) {
+    try {
+      elements.push(...Array.from(iframeDoc.querySelectorAll(selector)));
+    } catch {
+      // Bad selector (e.g. a shadow DOM path), skip to the next one.
+      continue;
+    }
+  }
+
+  for (const element of elements) {
+    const blockId = element
+      .closest('[data-wpav-block-id]')
+      ?.getAttribute('data-wpav-block-id');
+
+    if (blockId) {
+      return { blockId, elements };
+    }
   }
 
+  const match =
+    typeof node.html === 'string'
+      ? node.html.match(/data-wpav-block-id="([^"]*)"/)
+      : null;
+
+  return { blockId: match ? match[1] : null, elements };
+};
+
+/**
+ * Describes where an element sits within its block, as a path of tag names
+ * and positions among siblings of the same tag, e.g. `figure/img[1]`.
+ *
+ * The path starts at the nearest `data-wpav-block-id` element, or at the
+ * body for elements outside any block, and only depends on the markup of
+ * that block. Class names and ids, which axe may use in its selectors and
+ * which can change between renders, are ignored.
+ *
+ * @param {Element} element The affected element.
+ * @return {string} The fingerprint.
+ */
+const getNodeFingerprint = (element: Element): string => {
+  const root =
+    element.closest('[data-wpav-block-id]') ?? element.ownerDocument.body;
+  const segments: string[] = [];
+
+  for (
+    let current: Element | null = element;
+    current;
+    current = current === root ? null : current.parentElement
+  ) {
+    const tagName = current.tagName.toLowerCase();
+
+    // The root's position depends on the blocks around it, e.g. when a
+    // block rescan renders the block on its own.
+    if (current === root) {
+      segments.unshift(tagName);
+      continue;
+    }
+
+    const position =
+      Array.from(current.parentElement?.children ?? [current])
+        .filter((sibling) => sibling.tagName === current?.tagName)
+        .indexOf(current) + 1;
+
+    segments.unshift(`${tagName}[${position}]`);
+  }
+
+  return segments.join('/');
+};
+
+/**
+ * Scans a rendered scan document at one viewport width and color variant.
+ *
+ * Loads the document into an off-screen iframe of that width, emulates the
+ * variant, injects axe-core and maps the nodes of each result back to the
+ * editor blocks tagged with `data-wpav-block-id`. Nodes that cannot be
+ * mapped are kept as unmapped findings with the reason; in full page scans,
+ * nodes outside the blocks are template issues instead.
+ *
+ * @since 2.2.0
+ *
+ * @param {string}              docHtml  The scan document markup.
+ * @param {number}              viewport Viewport width in pixels.
+ * @param {WPBlock[]|null}      blocks   Editor blocks to map violations to,
+ *                                       including their inner blocks, or
+ *                                       null to keep violations keyed by
+ *                                       the rendered block id only.
+ * @param {ViewportScanContext} context  Settings shared by every viewport.
+ * @return {Promise<ViewportScanResult>} Results tagged with the viewport
+ *                                       and variant.
+ */
+const scanDocumentAtViewport = async (
+  docHtml: string,
+  viewport: number,
+  blocks: WPBlock[] | null,
+  context: ViewportScanContext
+): Promise<ViewportScanResult> => {
+  const {
+    signal,
+    onProgress,
+    scopeBlockId,
+    axeScriptUrl,
+    runOptions,
+    ruleSettings,
+    customSpec,
+    scanProfile,
+    variant,
+    renderMode,
+  } = context;
+
   // Track iframe so it can always be cleaned up in a finally block.
   let iframe: HTMLIFrameElement | null = null;
 
   try {
-    iframe = createScanIframe();
+    iframe = createScanIframe(viewport);
     // Attach iframe to the DOM so load events and scripts behave consistently.
     document.body.appendChild(iframe);
 
-    let response: RenderResponse;
-
-    try {
-      response = await apiFetch({
-        path: `/wp-accessibility-validator/v1/render/${postId}`,
-        method: 'POST',
-        data: { content },
-      });
-    } catch (error) {
-      // eslint-disable-next-line no-console
-      console.error('A11y render request failed', error);
-      throw new Error('Failed to render preview HTML for accessibility scan.');
-    }
-
     if (!iframe) {
       throw new Error('Failed to create preview iframe');
     }
 
-    const docHtml = buildScanDocumentHtml({
-      html: response.html,
-      lang: document.documentElement.lang || 'en',
-      themeStylesheetUrl,
-      globalStylesCss,
-    });
+    throwIfAborted(signal);
+    onProgress?.('loading-styles');
 
     iframe.srcdoc = docHtml;
 
-    await waitForIframeLoad(iframe);
+    await waitForIframeLoad(iframe, signal);
 
     // Check if we can access the iframe content
     let iframeDoc: Document;
@@ -156,24 +393,15 @@ export const runPreviewScan = async (
       );
     }
 
+    applyScanVariant(iframeDoc, variant);
+
     // Check if the iframe content has our block IDs
     const blockElements = iframeDoc.querySelectorAll('[data-wpav-block-id]');
+    const syncedRanges = collectSyncedRanges(iframeDoc);
 
     // Inject axe-core into the iframe and wait for it to be ready.
-    await loadAxeIntoIframe(iframeDoc);
-
-    // Run axe-core on the iframe document with the configured tags.
-    const wcagTags = getConfiguredWcagTags();
-    const runOptions: RunOptions = {
-      resultTypes: ['violations', 'incomplete'],
-    };
-
-    if (wcagTags.length > 0) {
-      runOptions.runOnly = {
-        type: 'tag',
-        values: wcagTags,
-      };
-    }
+    onProgress?.('injecting-engine');
+    await raceAbort(loadAxeIntoIframe(iframeDoc, axeScriptUrl), signal);
 
     // Access axe from the iframe context
     if (!iframe || !iframe.contentWindow) {
@@ -185,165 +413,560 @@ export const runPreviewScan = async (
       throw new Error('Failed to load axe-core in iframe');
     }
 
-    const axeResults = await iframeAxe.run(iframeDoc, runOptions);
+    // Register custom rules first so rule options can also target them.
+    applyCustomAxeSpec(iframeAxe, customSpec);
+    applyAxeRuleOptions(iframeAxe, ruleSettings);
 
-    // Merge violations and incomplete results together
-    const allResults = [...axeResults.violations, ...axeResults.incomplete];
+    const axeVersion: string | undefined =
+      typeof iframeAxe.version === 'string' ? iframeAxe.version : undefined;
 
-    // Debug: full set of raw axe results before filtering.
-    // eslint-disable-next-line no-console
-    // console.log('WPAV axe raw results:', allResults);
-
-    const filteredViolations = allResults
-      .map((violation: any) => {
-        const filteredNodes = violation.nodes.filter(
-          (node: any, idx: number) => {
-            // 1. Fast path: if the node HTML already contains a block id, keep it.
-            if (
-              typeof node.html === 'string' &&
-              /data-wpav-block-id="[^"]+"/.test(node.html)
-            ) {
-              return true;
-            }
+    // Color variants only rerun the contrast rules.
+    const variantRunOptions =
+      variant === 'default'
+        ? runOptions
+        : buildVariantRunOptions(iframeAxe, runOptions, ruleSettings);
 
-            // 2. Fallback: use node.target selectors + DOM lookup.
-            const targets = Array.isArray(node.target) ? node.target : [];
-
-            for (const targetSelector of targets) {
-              try {
-                const targetElements =
-                  iframeDoc.querySelectorAll(targetSelector);
-
-                for (const targetElement of Array.from(targetElements)) {
-                  let parent: Element | null = targetElement;
-
-                  while (parent) {
-                    if (
-                      (parent as HTMLElement).hasAttribute &&
-                      (parent as HTMLElement).hasAttribute('data-wpav-block-id')
-                    ) {
-                      return true; // inside one of our blocks
-                    }
-                    parent = parent.parentElement;
-                  }
-                }
-              } catch {
-                // Invalid selector? Just move on to the next one.
-                continue;
-              }
-            }
+    if (!variantRunOptions) {
+      return { totalBlocks: blockElements.length, violations: [], axeVersion };
+    }
 
-            // None of this node's targets were inside a block
-            return false;
-          }
-        );
+    // Limit the axe context to a single block when rescanning one block.
+    // A synced pattern reference has no marker of its own, so its context is
+    // the content between its marker comments.
+    let axeContext: ElementContext = iframeDoc;
 
-        return {
-          ...violation,
-          nodes: filteredNodes,
-        };
-      })
-      .filter((violation) => violation.nodes.length > 0);
-
-    // Map violations back to actual block clientIds based on data-wpav-block-id.
-    // Some axe violations can have multiple nodes that live in different blocks,
-    // so we expand each violation into one entry per (block, node) pair.
-    const violationsWithBlockIds = filteredViolations.flatMap(
-      (violation: any) => {
-        const nodeEntries = violation.nodes.map((node: any) => {
-          let blockId: string | null = null;
-
-          // Try to resolve the block id using the node's targets in the iframe DOM.
-          const targets = Array.isArray(node.target) ? node.target : [];
-
-          for (const selector of targets) {
-            let elements: NodeListOf<Element>;
-            try {
-              elements = iframeDoc.querySelectorAll(selector);
-            } catch {
-              // Bad selector, skip to the next one.
-              continue;
-            }
+    if (scopeBlockId) {
+      const scopeElement = iframeDoc.querySelector(
+        `[data-wpav-block-id="${CSS.escape(scopeBlockId)}"]`
+      );
+      const scopeRange = syncedRanges.find(
+        (range) => range.wpavId === scopeBlockId
+      );
+      const scopeElements = scopeElement
+        ? [scopeElement]
+        : scopeRange
+          ? getSyncedRangeElements(scopeRange)
+          : [];
+
+      if (scopeElements.length === 0) {
+        throw new Error('The block did not render any markup to scan.');
+      }
 
-            for (const el of Array.from(elements)) {
-              let parent: Element | null = el;
-
-              while (parent) {
-                const parentEl = parent as HTMLElement;
-                if (
-                  parentEl.hasAttribute &&
-                  parentEl.hasAttribute('data-wpav-block-id')
-                ) {
-                  blockId = parentEl.getAttribute('data-wpav-block-id');
-                  break;
-                }
-                parent = parent.parentElement;
-              }
-
-              if (blockId) {
-                break;
-              }
-            }
+      axeContext = { include: scopeElements };
+    }
 
-            if (blockId) {
-              break;
-            }
+    // axe cannot be interrupted; a cancelled run is left to finish unobserved
+    // and the iframe is removed in the finally block.
+    onProgress?.('analyzing');
+    const axeResults = await raceAbort<any>(
+      iframeAxe.run(axeContext, variantRunOptions),
+      signal
+    );
+
+    onProgress?.('mapping');
+
+    // Tag each result with its kind so confirmed violations and items that
+    // need manual review can be presented separately, then drop results
+    // below the scan profile's impact threshold.
+    const allResults = applyProfileImpactThreshold(
+      [
+        ...axeResults.violations.map((result: any) => ({
+          ...result,
+          kind: 'violation',
+        })),
+        ...axeResults.incomplete.map((result: any) => ({
+          ...result,
+          kind: 'incomplete',
+        })),
+      ],
+      scanProfile
+    );
+
+    // Map each node back to its editor block via data-wpav-block-id. Some
+    // axe violations have multiple nodes that live in different blocks, so
+    // each violation is expanded into one entry per node. Nodes that cannot
+    // be mapped are kept with the reason, or as template issues in full page
+    // scans. The nearest marker belongs to the innermost block, which is
+    // looked up across the whole block tree. Content of a synced pattern is
+    // attributed to the pattern's reference block in the post instead.
+    const blocksByWpavId = blocks ? indexBlocksByWpavId(blocks) : null;
+    const violationsWithBlockIds = allResults.flatMap((violation: any) =>
+      violation.nodes
+        .map((node: any): ViolationWithContext | null => {
+          const { blockId, elements } = findNodeBlock(iframeDoc, node);
+          const syncedRangesOfNode =
+            elements.length > 0
+              ? findContainingSyncedRanges(syncedRanges, elements[0])
+              : [];
+          const syncedSource =
+            syncedRangesOfNode[syncedRangesOfNode.length - 1]?.source;
+          const scopedViolation: ViolationWithContext = {
+            ...violation,
+            nodes: [node],
+            ...(syncedSource ? { syncedSource } : {}),
+            ...(elements.length > 0
+              ? { nodeFingerprint: getNodeFingerprint(elements[0]) }
+              : {}),
+          };
+
+          // The outermost reference placed in the post; references nested
+          // in the pattern are not in the editor.
+          const reference = syncedRangesOfNode.find(
+            (range) =>
+              range.source.type === 'pattern' &&
+              !!range.wpavId &&
+              (!blocksByWpavId || blocksByWpavId.has(range.wpavId))
+          );
+
+          if (reference?.wpavId) {
+            const referenceEntry = blocksByWpavId?.get(reference.wpavId);
+
+            return {
+              ...scopedViolation,
+              blockWpavId: reference.wpavId,
+              ...(referenceEntry
+                ? {
+                    blockName: referenceEntry.block.name,
+                    blockClientId: referenceEntry.block.clientId,
+                    blockPath: referenceEntry.path,
+                  }
+                : {}),
+            };
           }
 
-          // Fallback: extract the block id directly from the node HTML snippet.
-          if (!blockId && typeof node.html === 'string') {
-            const match = node.html.match(/data-wpav-block-id="([^\"]*)"/);
-            if (match) {
-              blockId = match[1];
+          if (!blockId) {
+            if (elements.length === 0) {
+              return { ...scopedViolation, unmappedReason: 'invalid-selector' };
+            }
+
+            if (renderMode === 'full-page') {
+              return { ...scopedViolation, location: 'template' };
             }
+
+            // Results on the content document's own html, body and main
+            // wrapper are artifacts of the scan, not part of the post.
+            const isScaffold = elements.every(
+              (element) =>
+                element === iframeDoc.documentElement ||
+                element === iframeDoc.body ||
+                element.classList.contains('wpav-scan-preview')
+            );
+
+            return isScaffold
+              ? null
+              : { ...scopedViolation, unmappedReason: 'no-marker' };
           }
 
-          if (!blockId) {
-            return null;
+          // Without editor blocks (e.g. bulk scans), keep the rendered id only.
+          if (!blocksByWpavId) {
+            return { ...scopedViolation, blockWpavId: blockId };
           }
 
-          const matchingBlock = blocks.find(
-            (block: WPBlock) => block.attributes?.wpavId === blockId
-          );
+          const matchingEntry = blocksByWpavId.get(blockId);
 
-          if (!matchingBlock) {
-            return null;
+          if (!matchingEntry) {
+            return {
+              ...scopedViolation,
+              blockWpavId: blockId,
+              unmappedReason: 'unknown-block',
+            };
           }
 
-          // Return a violation instance scoped to this block and node.
-          const scopedViolation: ViolationWithContext = {
-            ...violation,
-            nodes: [node],
-            blockName: matchingBlock.name,
-            blockClientId: matchingBlock.clientId,
+          return {
+            ...scopedViolation,
+            blockName: matchingEntry.block.name,
+            blockClientId: matchingEntry.block.clientId,
+            blockWpavId: blockId,
+            blockPath: matchingEntry.path,
           };
-
-          return scopedViolation;
-        });
-
-        return nodeEntries.filter(
+        })
+        .filter(
           (entry: ViolationWithContext | null): entry is ViolationWithContext =>
             entry !== null
+        )
+    );
+
+    return {
+      totalBlocks: blockElements.length,
+      violations: violationsWithBlockIds.map(
+        (violation: ViolationWithContext) => ({
+          ...violation,
+          viewports: [viewport],
+          variants: [variant],
+        })
+      ),
+      axeVersion,
+      structure: context.structure
+        ? buildDocumentStructure(iframeDoc, context.structure.titleHeadingText)
+        : undefined,
+    };
+  } finally {
+    if (iframe && iframe.parentNode) {
+      iframe.parentNode.removeChild(iframe);
+    }
+  }
+};
+
+/**
+ * Renders a post through the REST render endpoint and scans the result.
+ *
+ * The post is rendered once, in the configured render mode, and scanned at
+ * every configured viewport width and color variant (see
+ * `scanDocumentAtViewport`); results found in several runs are merged and
+ * tagged with every viewport and variant they occur at. A block rescan
+ * always renders the block content on its own, under the default colors
+ * only.
+ *
+ * @since 2.2.0
+ *
+ * @param {number}           postId  The post to render.
+ * @param {string|undefined} content Edited content to render, or undefined
+ *                                   to render the saved post content.
+ * @param {WPBlock[]|null}   blocks  Editor blocks to map violations to, or
+ *                                   null to keep violations keyed by the
+ *                                   rendered block id only.
+ * @param {Object}           [options] Scan options: abort signal, progress
+ *                                   callback, `scopeBlockId`, the wpavId
+ *                                   of a block to limit the axe context to,
+ *                                   and `titleHeadingText`, the post title
+ *                                   when the theme prints it as an H1.
+ * @return {Promise<ScanMetrics>} A promise that resolves with scan metrics.
+ *
+ * @throws {DOMException} An AbortError, unwrapped, if the scan is cancelled.
+ */
+const scanRenderedPost = async (
+  postId: number,
+  content: string | undefined,
+  blocks: WPBlock[] | null,
+  options: ScanOptions & { scopeBlockId?: string; titleHeadingText?: string } = {}
+): Promise<ScanMetrics> => {
+  const { signal, onProgress, scopeBlockId, titleHeadingText, scanSettings } =
+    options;
+  const wcagTags =
+    options.wcagTags ?? scanSettings?.wcagTags ?? getConfiguredWcagTags();
+
+  if (typeof document === 'undefined') {
+    throw new Error('Preview scanning is only available in a browser context.');
+  }
+
+  const { axeScriptUrl } = (window as any).wpavSettings || {};
+
+  if (!axeScriptUrl) {
+    throw new Error(
+      'Cannot run preview scan: the bundled axe-core script URL is not configured.'
+    );
+  }
+
+  const viewports = options.viewports ?? getConfiguredViewports();
+  const variants: ScanVariant[] = scopeBlockId
+    ? ['default']
+    : getConfiguredScanVariants();
+  const renderMode: ScanRenderMode = scopeBlockId
+    ? 'content'
+    : getConfiguredRenderMode();
+
+  try {
+    throwIfAborted(signal);
+    onProgress?.('rendering');
+
+    const docHtml = await renderScanDocument(
+      postId,
+      content,
+      signal,
+      renderMode
+    );
+
+    // Run axe-core with the configured tags and rule overrides.
+    const ruleSettings = scanSettings
+      ? normalizeAxeRuleSettings(scanSettings.axeRules)
+      : getAxeRuleSettings();
+    const customSpec = getCustomAxeSpec();
+    const context: ViewportScanContext = {
+      signal,
+      onProgress,
+      scopeBlockId,
+      renderMode,
+      axeScriptUrl,
+      // Custom rules run whatever tags are selected, unless disabled.
+      runOptions: buildAxeRunOptions(wcagTags, {
+        ...ruleSettings,
+        enabled: [...ruleSettings.enabled, ...getCustomRuleIds(customSpec)],
+      }),
+      ruleSettings,
+      customSpec,
+      scanProfile: scanSettings ? scanSettings.scanProfile : getScanProfile(),
+      variant: 'default',
+    };
+
+    // Viewports and variants are scanned one after another to keep memory
+    // use down.
+    const runs: ViewportScanResult[] = [];
+
+    for (const viewport of viewports) {
+      for (const variant of variants) {
+        runs.push(
+          await scanDocumentAtViewport(docHtml, viewport, blocks, {
+            ...context,
+            variant,
+            // The outline comes from the first run. A block rescan only
+            // renders one block, so it has no outline. A full page already
+            // includes the title as printed by the theme.
+            structure:
+              runs.length === 0 && !scopeBlockId
+                ? {
+                    titleHeadingText:
+                      renderMode === 'content' ? titleHeadingText : undefined,
+                  }
+                : undefined,
+          })
         );
       }
-    );
+    }
+
+    const totalBlocks = runs[0]?.totalBlocks ?? 0;
+    const violations = mergeScanRunResults(runs.map((run) => run.violations));
+    // Rendered blocks that are not in the editor were not scanned as blocks.
+    const { skippedBlocks, errors } = summarizeUnmappedFindings(violations);
 
     // Build and return scan metrics summarizing the mapped violations.
     return {
-      totalBlocks: blockElements.length,
-      scannedBlocks: blockElements.length,
-      skippedBlocks: 0,
-      violations: violationsWithBlockIds,
-      errors: [],
+      totalBlocks,
+      scannedBlocks: Math.max(0, totalBlocks - skippedBlocks),
+      skippedBlocks,
+      violations,
+      errors,
+      axeVersion: runs[0]?.axeVersion,
+      wcagTags,
+      structure: runs[0]?.structure,
+      viewports,
+      variants,
+      renderMode,
     };
   } catch (error) {
+    if (isAbortError(error) || signal?.aborted) {
+      throw error;
+    }
+
     const message =
       error instanceof Error ? error.message : 'Preview scan failed';
     console.error('Preview scan error:', error);
     throw new Error(`Preview scan failed: ${message}`);
-  } finally {
-    if (iframe && iframe.parentNode) {
-      iframe.parentNode.removeChild(iframe);
-    }
   }
 };
+
+/**
+ * Runs an accessibility scan against the rendered preview page.
+ *
+ * Renders the edited content of the current post and maps violations back
+ * to the given editor blocks, then adds the editorial checks run on the
+ * block tree.
+ *
+ * @since 1.0.0
+ *
+ * @param {WPBlock[]}   blocks    The blocks to scan.
+ * @param {ScanOptions} [options] Optional abort signal and progress callback.
+ * @return {Promise<ScanMetrics>} A promise that resolves with scan metrics.
+ *
+ * @throws {Error} If the preview cannot be loaded, the iframe cannot be
+ *                 accessed due to CORS, axe-core fails to load, or the
+ *                 scan process encounters an unexpected error. Rejects with
+ *                 an AbortError if the scan is cancelled.
+ */
+export const runPreviewScan = async (
+  blocks: WPBlock[],
+  options: ScanOptions = {}
+): Promise<ScanMetrics> => {
+  const editorStore = select('core/editor') as any;
+  const postId = editorStore?.getCurrentPostId?.();
+  const content = editorStore?.getEditedPostAttribute?.('content');
+
+  if (!postId) {
+    throw new Error(
+      'Cannot run preview scan: no current post ID is available.'
+    );
+  }
+
+  if (typeof content !== 'string') {
+    throw new Error('Cannot run preview scan: post content is not available.');
+  }
+
+  // The rendered content has no title, so add it to the outline when the
+  // theme prints it as a heading.
+  const titleHeadingText =
+    window.wpavSettings?.themePrintsTitle ?? true
+      ? String(editorStore?.getEditedPostAttribute?.('title') ?? '')
+      : undefined;
+
+  const summary = await scanRenderedPost(postId, content, blocks, {
+    ...options,
+    titleHeadingText,
+  });
+
+  // Editorial checks run on the block tree, after the rendered HTML.
+  return {
+    ...summary,
+    violations: [
+      ...summary.violations,
+      ...runEditorialChecks(blocks, options),
+    ],
+  };
+};
+
+/**
+ * Runs an accessibility scan against the saved content of any post.
+ *
+ * Used outside the block editor (e.g. the bulk scan dashboard), so results
+ * carry the rendered block id but no editor block details.
+ *
+ * @since 2.2.0
+ *
+ * @param {number}      postId    The post to scan.
+ * @param {ScanOptions} [options] Optional abort signal and progress callback.
+ * @return {Promise<ScanMetrics>} A promise that resolves with scan metrics.
+ */
+export const runPostScan = (
+  postId: number,
+  options: ScanOptions = {}
+): Promise<ScanMetrics> => scanRenderedPost(postId, undefined, null, options);
+
+/**
+ * Collects the wpavIds of a block and all of its inner blocks.
+ *
+ * @since 2.2.0
+ *
+ * @param {WPBlock} block The root block.
+ * @return {string[]} The wpavIds in the block subtree.
+ */
+export const collectBlockWpavIds = (block: WPBlock): string[] => [
+  ...(block.attributes?.wpavId ? [block.attributes.wpavId] : []),
+  ...(block.innerBlocks || []).flatMap(collectBlockWpavIds),
+];
+
+/**
+ * Rescans a single block and its inner blocks.
+ *
+ * Only the block subtree is sent to the render endpoint, and axe-core is
+ * run with its context limited to the rendered block, at one viewport and
+ * without the color variants, so the rescan is much faster than a full
+ * preview scan.
+ *
+ * @since 2.2.0
+ *
+ * @param {WPBlock}     block     The block to rescan, including inner blocks.
+ * @param {WPBlock[]}   blocks    All editor blocks, used to map violations.
+ * @param {ScanOptions} [options] Optional abort signal, progress callback
+ *                                and the viewport to scan at, defaulting
+ *                                to the widest configured one.
+ * @return {Promise<ScanMetrics>} Scan metrics for the block subtree.
+ */
+export const runBlockScan = async (
+  block: WPBlock,
+  blocks: WPBlock[],
+  options: ScanOptions = {}
+): Promise<ScanMetrics> => {
+  const editorStore = select('core/editor') as any;
+  const postId = editorStore?.getCurrentPostId?.();
+  const wpavId: string | undefined = block.attributes?.wpavId;
+
+  if (!postId) {
+    throw new Error('Cannot rescan block: no current post ID is available.');
+  }
+
+  if (!wpavId) {
+    throw new Error('Cannot rescan block: the block has no stable ID yet.');
+  }
+
+  const summary = await scanRenderedPost(
+    postId,
+    serialize([block as any]),
+    blocks,
+    {
+      ...options,
+      viewports: options.viewports?.slice(0, 1) ?? [
+        Math.max(...getConfiguredViewports()),
+      ],
+      scopeBlockId: wpavId,
+    }
+  );
+
+  // Editorial checks need the whole tree (e.g. heading order), so they run
+  // on every block and only findings for the rescanned subtree are kept.
+  const wpavIds = collectBlockWpavIds(block);
+
+  return {
+    ...summary,
+    violations: [
+      ...summary.violations,
+      ...runEditorialChecks(blocks, options).filter(
+        (finding) =>
+          !!finding.blockWpavId && wpavIds.includes(finding.blockWpavId)
+      ),
+    ],
+  };
+};
+
+/**
+ * Merges the results of a block rescan into an existing scan.
+ *
+ * Results previously reported for the rescanned block subtree are
+ * replaced at the viewport the rescan ran at. A block rescan runs at one
+ * viewport under the default colors only, so previous results found at
+ * other viewports or under other color variants are kept until the next
+ * full scan. Results for every other block are kept as they were. Skipped
+ * blocks and errors are recounted from the unmapped findings that remain.
+ * Dismissed results are merged back into the violations, so dismissals
+ * have to be applied again to the merged scan.
+ *
+ * @since 2.2.0
+ *
+ * @param {ScanMetrics} summary   The existing scan.
+ * @param {ScanMetrics} blockScan The block rescan.
+ * @param {string[]}    wpavIds   wpavIds of the rescanned block subtree.
+ * @return {ScanMetrics} The merged scan.
+ */
+export const mergeBlockScanResults = (
+  summary: ScanMetrics,
+  blockScan: ScanMetrics,
+  wpavIds: string[]
+): ScanMetrics => {
+  const rescannedViewports = blockScan.viewports ?? [];
+  const rescannedVariants = blockScan.variants ?? ['default'];
+
+  const kept = [
+    ...summary.violations,
+    ...(summary.dismissedViolations ?? []),
+  ].flatMap((violation) => {
+    if (!violation.blockWpavId || !wpavIds.includes(violation.blockWpavId)) {
+      return [violation];
+    }
+
+    // Found under a color variant the rescan did not check.
+    if (
+      violation.variants?.some(
+        (variant) => !rescannedVariants.includes(variant)
+      )
+    ) {
+      return [violation];
+    }
+
+    const otherViewports = (violation.viewports ?? []).filter(
+      (viewport) => !rescannedViewports.includes(viewport)
+    );
+
+    return otherViewports.length > 0
+      ? [{ ...violation, viewports: otherViewports }]
+      : [];
+  });
+
+  const violations = mergeScanRunResults([kept, blockScan.violations]);
+  const { skippedBlocks, errors } = summarizeUnmappedFindings(violations);
+
+  return {
+    ...summary,
+    scannedBlocks: Math.max(0, summary.totalBlocks - skippedBlocks),
+    skippedBlocks,
+    violations,
+    dismissedViolations: [],
+    errors,
+  };
+};
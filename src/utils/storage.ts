@@ -3,14 +3,60 @@
  *
  * Provides helper functions for generating consistent storage keys,
  * loading and validating stored scan results, saving new results, and
- * removing outdated cached scan data from browser storage.
+ * removing outdated cached scan data from browser storage. Scan runs are
+ * also stored server-side per post through the plugin REST API, with
+ * browser storage acting as an offline cache. Manual review decisions are
+ * stored server-side per post as well.
  *
  * @package WPAccessibilityValidator
  */
 
-import type { StoredScan } from '../types';
+import apiFetch from '@wordpress/api-fetch';
+import { md5 } from 'js-md5';
+import type {
+	ReviewDecision,
+	ReviewDecisionsResponse,
+	ScanHistoryResponse,
+	StoredReviewDecision,
+	StoredScan,
+} from '../types';
 import { STORAGE_PREFIX } from '../constants';
 
+/**
+ * Hashes serialized content for staleness detection.
+ *
+ * @since 2.2.0
+ *
+ * @param {string} content Serialized content.
+ * @return {string} MD5 hash of the content.
+ */
+export const hashContent = (content: string): string => md5(content);
+
+/**
+ * Checks whether a value has the shape of a stored scan.
+ *
+ * @since 2.2.0
+ *
+ * @param {unknown} value The value to validate.
+ * @return {boolean} Whether the value is a valid stored scan.
+ */
+export const isValidStoredScan = (value: unknown): value is StoredScan => {
+	const parsed = value as Record<string, unknown> | null;
+
+	return !!(
+		parsed &&
+		typeof parsed === 'object' &&
+		typeof parsed.totalBlocks === 'number' &&
+		typeof parsed.scannedBlocks === 'number' &&
+		typeof parsed.skippedBlocks === 'number' &&
+		Array.isArray(parsed.violations) &&
+		Array.isArray(parsed.errors) &&
+		typeof parsed.contentHash === 'string' &&
+		typeof parsed.completedAt === 'string' &&
+		!Number.isNaN(Date.parse(parsed.completedAt))
+	);
+};
+
 /**
  * Generates a storage key for a given post ID.
  *
@@ -48,24 +94,13 @@ export const loadStoredScan = (key: string): StoredScan | null => {
 		const parsed = JSON.parse(raw);
 
 		// Validate the structure of the parsed data
-		if (
-			!parsed ||
-			typeof parsed !== 'object' ||
-			typeof parsed.totalBlocks !== 'number' ||
-			typeof parsed.scannedBlocks !== 'number' ||
-			typeof parsed.skippedBlocks !== 'number' ||
-			!Array.isArray(parsed.violations) ||
-			!Array.isArray(parsed.errors) ||
-			typeof parsed.contentHash !== 'string' ||
-			typeof parsed.completedAt !== 'string' ||
-			Number.isNaN(Date.parse(parsed.completedAt))
-		) {
+		if (!isValidStoredScan(parsed)) {
 			// eslint-disable-next-line no-console
 			console.warn('Invalid stored scan data structure:', parsed);
 			return null;
 		}
 
-		return parsed as StoredScan;
+		return parsed;
 	} catch (error) {
 		// eslint-disable-next-line no-console
 		console.warn('Unable to read stored accessibility scan results.', error);
@@ -119,3 +154,125 @@ export const removeStoredScan = (key: string): void => {
 		console.warn('Unable to remove stored scan.', error);
 	}
 };
+
+/**
+ * Builds the REST path for the scan history of a post.
+ *
+ * @param {number} postId The post ID.
+ * @return {string} The REST path.
+ */
+const getScanHistoryPath = (postId: number): string =>
+	`/wp-accessibility-validator/v1/scans/${postId}`;
+
+/**
+ * Fetches the server-side scan history for a post.
+ *
+ * Invalid entries are discarded.
+ *
+ * @since 2.2.0
+ *
+ * @param {number} postId The post ID.
+ * @return {Promise<StoredScan[]>} Stored scan runs, newest first.
+ */
+export const fetchScanHistory = async (
+	postId: number
+): Promise<StoredScan[]> => {
+	const response = await apiFetch<ScanHistoryResponse>({
+		path: getScanHistoryPath(postId),
+	});
+
+	return (response?.scans ?? []).filter(isValidStoredScan);
+};
+
+/**
+ * Stores a completed scan run in the server-side history for a post.
+ *
+ * @since 2.2.0
+ *
+ * @param {number}     postId The post ID.
+ * @param {StoredScan} scan   The scan run to store.
+ * @return {Promise<StoredScan[]>} The updated history, newest first.
+ */
+export const saveScanToHistory = async (
+	postId: number,
+	scan: StoredScan
+): Promise<StoredScan[]> => {
+	const response = await apiFetch<ScanHistoryResponse>({
+		path: getScanHistoryPath(postId),
+		method: 'POST',
+		data: { scan },
+	});
+
+	return (response?.scans ?? []).filter(isValidStoredScan);
+};
+
+/**
+ * Builds the REST path for the review decisions of a post.
+ *
+ * @param {number} postId The post ID.
+ * @return {string} The REST path.
+ */
+const getReviewDecisionsPath = (postId: number): string =>
+	`/wp-accessibility-validator/v1/review-decisions/${postId}`;
+
+/**
+ * Indexes stored review decisions by instance key.
+ *
+ * @param {StoredReviewDecision[]} decisions Decisions as returned by the API.
+ * @return {Record<string, ReviewDecision>} Decisions keyed by instance key.
+ */
+const indexReviewDecisions = (
+	decisions: StoredReviewDecision[]
+): Record<string, ReviewDecision> =>
+	decisions.reduce<Record<string, ReviewDecision>>((acc, entry) => {
+		if (
+			entry?.key &&
+			(entry.decision === 'passed' || entry.decision === 'failed')
+		) {
+			acc[entry.key] = entry.decision;
+		}
+		return acc;
+	}, {});
+
+/**
+ * Fetches the review decisions stored for a post.
+ *
+ * @since 2.2.0
+ *
+ * @param {number} postId The post ID.
+ * @return {Promise<Record<string, ReviewDecision>>} Decisions keyed by
+ *                                                   instance key.
+ */
+export const fetchReviewDecisions = async (
+	postId: number
+): Promise<Record<string, ReviewDecision>> => {
+	const response = await apiFetch<ReviewDecisionsResponse>({
+		path: getReviewDecisionsPath(postId),
+	});
+
+	return indexReviewDecisions(response?.decisions ?? []);
+};
+
+/**
+ * Records or clears review decisions for a post.
+ *
+ * @since 2.2.0
+ *
+ * @param {number}                                postId  The post ID.
+ * @param {Record<string, ReviewDecision | null>} changes Decisions keyed by
+ *                                                        instance key; null
+ *                                                        clears a decision.
+ * @return {Promise<Record<string, ReviewDecision>>} The updated decisions.
+ */
+export const updateReviewDecisions = async (
+	postId: number,
+	changes: Record<string, ReviewDecision | null>
+): Promise<Record<string, ReviewDecision>> => {
+	const response = await apiFetch<ReviewDecisionsResponse>({
+		path: getReviewDecisionsPath(postId),
+		method: 'POST',
+		data: { decisions: changes },
+	});
+
+	return indexReviewDecisions(response?.decisions ?? []);
+};
@@ -0,0 +1,232 @@
+/**
+ * Document structure utilities for the accessibility validator.
+ *
+ * Builds the heading outline and the list of landmark regions from the
+ * rendered scan document, flagging skipped heading levels, multiple H1s
+ * and empty headings.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type {
+	DocumentStructure,
+	HeadingIssue,
+	LandmarkRegion,
+	OutlineHeading,
+} from '../types';
+
+/**
+ * Implicit landmark roles of HTML elements.
+ *
+ * `header` and `footer` are only landmarks outside sectioning content, and
+ * `section` and `form` only when they have an accessible name; both cases
+ * are handled in `getLandmarkRole`.
+ */
+const IMPLICIT_LANDMARK_ROLES: Record<string, string> = {
+	header: 'banner',
+	nav: 'navigation',
+	main: 'main',
+	aside: 'complementary',
+	footer: 'contentinfo',
+	section: 'region',
+	form: 'form',
+	search: 'search',
+};
+
+/**
+ * ARIA landmark roles.
+ */
+const LANDMARK_ROLES = [
+	'banner',
+	'navigation',
+	'main',
+	'complementary',
+	'contentinfo',
+	'region',
+	'form',
+	'search',
+];
+
+/**
+ * Labels for the heading issues shown in the outline.
+ */
+export const HEADING_ISSUE_LABELS: Record<HeadingIssue, string> = {
+	'skipped-level': 'Skips a heading level',
+	'multiple-h1': 'More than one H1',
+	empty: 'Empty heading',
+};
+
+/**
+ * Gets the accessible name of an element from its ARIA attributes.
+ *
+ * @param {Element} element The element.
+ * @return {string} The name, or an empty string.
+ */
+const getAriaName = (element: Element): string => {
+	const label = element.getAttribute('aria-label')?.trim();
+
+	if (label) {
+		return label;
+	}
+
+	const labelledBy = element.getAttribute('aria-labelledby');
+
+	if (!labelledBy) {
+		return '';
+	}
+
+	return labelledBy
+		.split(/\s+/)
+		.map((id) => element.ownerDocument.getElementById(id)?.textContent?.trim())
+		.filter(Boolean)
+		.join(' ');
+};
+
+/**
+ * Gets the landmark role of an element, if it is a landmark.
+ *
+ * @param {Element} element The element.
+ * @return {?string} The landmark role, or null.
+ */
+const getLandmarkRole = (element: Element): string | null => {
+	const explicitRole = element.getAttribute('role')?.trim().split(/\s+/)[0];
+
+	if (explicitRole) {
+		return LANDMARK_ROLES.includes(explicitRole) ? explicitRole : null;
+	}
+
+	const tagName = element.tagName.toLowerCase();
+	const role = IMPLICIT_LANDMARK_ROLES[tagName];
+
+	if (!role) {
+		return null;
+	}
+
+	if ((tagName === 'section' || tagName === 'form') && !getAriaName(element)) {
+		return null;
+	}
+
+	if (
+		(tagName === 'header' || tagName === 'footer') &&
+		element.parentElement?.closest('article, aside, main, nav, section')
+	) {
+		return null;
+	}
+
+	return role;
+};
+
+/**
+ * Gets the wpavId of the block an element was rendered by.
+ *
+ * @param {Element} element The element.
+ * @return {string|undefined} The wpavId, if the element is inside a block.
+ */
+const getBlockWpavId = (element: Element): string | undefined =>
+	element.closest('[data-wpav-block-id]')?.getAttribute('data-wpav-block-id') ||
+	undefined;
+
+/**
+ * Builds the heading outline and landmark list of a rendered document.
+ *
+ * @since 2.2.0
+ *
+ * @param {Document} doc                The rendered scan document.
+ * @param {string}   [titleHeadingText] Text of the post title when the theme
+ *                                      prints it as an H1 outside the
+ *                                      rendered content; it then starts the
+ *                                      outline.
+ * @return {DocumentStructure} The document structure.
+ */
+export const buildDocumentStructure = (
+	doc: Document,
+	titleHeadingText?: string
+): DocumentStructure => {
+	const headings: OutlineHeading[] = [];
+
+	if (titleHeadingText !== undefined) {
+		headings.push({
+			level: 1,
+			text: titleHeadingText,
+			isTitle: true,
+			issues: [],
+		});
+	}
+
+	doc.body
+		.querySelectorAll('h1, h2, h3, h4, h5, h6, [role="heading"]')
+		.forEach((element) => {
+			const ariaLevel = Number(element.getAttribute('aria-level'));
+			const tagLevel = Number(element.tagName.slice(1));
+			const level =
+				element.getAttribute('role') === 'heading'
+					? ariaLevel || 2
+					: ariaLevel || tagLevel;
+
+			headings.push({
+				level,
+				text: (getAriaName(element) || element.textContent || '')
+					.replace(/\s+/g, ' ')
+					.trim(),
+				blockWpavId: getBlockWpavId(element),
+				issues: [],
+			});
+		});
+
+	let previousLevel: number | null = null;
+	let hasH1 = false;
+
+	for (const heading of headings) {
+		if (previousLevel !== null && heading.level > previousLevel + 1) {
+			heading.issues.push('skipped-level');
+		}
+
+		if (heading.level === 1) {
+			if (hasH1) {
+				heading.issues.push('multiple-h1');
+			}
+			hasH1 = true;
+		}
+
+		if (!heading.text && !heading.isTitle) {
+			heading.issues.push('empty');
+		}
+
+		previousLevel = heading.level;
+	}
+
+	const landmarks: LandmarkRegion[] = [];
+
+	doc.body.querySelectorAll('*').forEach((element) => {
+		// The scan document wraps the content in its own main element.
+		if (element.classList.contains('wpav-scan-preview')) {
+			return;
+		}
+
+		const role = getLandmarkRole(element);
+
+		if (role) {
+			landmarks.push({
+				role,
+				label: getAriaName(element),
+				blockWpavId: getBlockWpavId(element),
+			});
+		}
+	});
+
+	return { headings, landmarks };
+};
+
+/**
+ * Counts the headings in an outline that have at least one issue.
+ *
+ * @since 2.2.0
+ *
+ * @param {?DocumentStructure} structure The document structure.
+ * @return {number} The number of flagged headings.
+ */
+export const countHeadingIssues = (
+	structure?: DocumentStructure | null
+): number =>
+	(structure?.headings ?? []).filter((heading) => heading.issues.length > 0)
+		.length;
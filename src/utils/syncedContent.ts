@@ -0,0 +1,212 @@
+/**
+ * Synced content utilities for the accessibility validator.
+ *
+ * Synced patterns and template parts are edited outside the post. The
+ * render endpoint wraps their output in `wpav:synced` marker comments, so
+ * results inside them can be attributed to the reference block in the post
+ * and reported once per pattern, with a link to edit the original.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type {
+	SyncedFinding,
+	SyncedFindingGroup,
+	SyncedRange,
+	SyncedSource,
+	SyncedSourceType,
+	ViolationWithContext,
+} from '../types';
+import { SYNCED_SOURCE_LABELS } from '../constants';
+
+/**
+ * Prefix of the comment that opens a synced range.
+ */
+const START_MARKER = 'wpav:synced ';
+
+/**
+ * Comment that closes a synced range.
+ */
+const END_MARKER = '/wpav:synced';
+
+/**
+ * Parses the source described by an opening marker comment.
+ *
+ * @param {string} json The JSON after the marker prefix.
+ * @return {?Object} The source and the reference block's wpavId, or null if
+ *                   the JSON is not valid.
+ */
+const parseStartMarker = (
+	json: string
+): { source: SyncedSource; wpavId?: string } | null => {
+	try {
+		const { wpavId, ...source } = JSON.parse(json);
+
+		if (!source.type || !source.id) {
+			return null;
+		}
+
+		return {
+			source: { ...source, id: String(source.id), title: source.title || '' },
+			wpavId: wpavId || undefined,
+		};
+	} catch {
+		return null;
+	}
+};
+
+/**
+ * Collects the synced ranges of a rendered scan document.
+ *
+ * @since 2.2.0
+ *
+ * @param {Document} doc The scan document.
+ * @return {SyncedRange[]} The ranges, outer ranges before those nested in
+ *                         them.
+ */
+export const collectSyncedRanges = (doc: Document): SyncedRange[] => {
+	const ranges: SyncedRange[] = [];
+	const open: Array<{
+		start: Comment;
+		parsed: ReturnType<typeof parseStartMarker>;
+	}> = [];
+	const walker = doc.createTreeWalker(doc, NodeFilter.SHOW_COMMENT);
+
+	while (walker.nextNode()) {
+		const comment = walker.currentNode as Comment;
+		const data = comment.data.trim();
+
+		if (data.startsWith(START_MARKER)) {
+			open.push({
+				start: comment,
+				parsed: parseStartMarker(data.slice(START_MARKER.length)),
+			});
+		} else if (data === END_MARKER) {
+			const entry = open.pop();
+
+			if (entry?.parsed) {
+				ranges.push({ ...entry.parsed, start: entry.start, end: comment });
+			}
+		}
+	}
+
+	// Nested ranges close first, so order by where each range starts.
+	return ranges.sort((a, b) =>
+		a.start.compareDocumentPosition(b.start) & Node.DOCUMENT_POSITION_FOLLOWING
+			? -1
+			: 1
+	);
+};
+
+/**
+ * Finds the synced ranges an element is inside.
+ *
+ * @since 2.2.0
+ *
+ * @param {SyncedRange[]} ranges  Ranges of the scan document.
+ * @param {Element}       element The element.
+ * @return {SyncedRange[]} The ranges containing the element, outermost
+ *                         first.
+ */
+export const findContainingSyncedRanges = (
+	ranges: SyncedRange[],
+	element: Element
+): SyncedRange[] =>
+	ranges.filter(
+		({ start, end }) =>
+			!!(
+				start.compareDocumentPosition(element) &
+				Node.DOCUMENT_POSITION_FOLLOWING
+			) &&
+			!!(end.compareDocumentPosition(element) & Node.DOCUMENT_POSITION_PRECEDING)
+	);
+
+/**
+ * Gets the top-level elements of a synced range.
+ *
+ * @since 2.2.0
+ *
+ * @param {SyncedRange} range The range.
+ * @return {Element[]} Elements between the range's marker comments.
+ */
+export const getSyncedRangeElements = (range: SyncedRange): Element[] => {
+	const elements: Element[] = [];
+
+	for (
+		let node = range.start.nextSibling;
+		node && node !== range.end;
+		node = node.nextSibling
+	) {
+		if (node.nodeType === Node.ELEMENT_NODE) {
+			elements.push(node as Element);
+		}
+	}
+
+	return elements;
+};
+
+/**
+ * Formats the kind of a synced source for display.
+ *
+ * @since 2.2.0
+ *
+ * @param {SyncedSourceType} type The source type.
+ * @return {string} E.g. "Synced pattern".
+ */
+export const formatSyncedSourceType = (type: SyncedSourceType): string =>
+	SYNCED_SOURCE_LABELS[type] ?? type;
+
+/**
+ * Groups the results found in synced content by pattern or template part.
+ *
+ * A result repeated in several references to the same source, in one post
+ * or across posts, is reported once with every post it was found in.
+ *
+ * @since 2.2.0
+ *
+ * @param {Array<Object>}     scans  Results of each post, with its ID.
+ * @param {SyncedSourceType} [type] Only group sources of this type.
+ * @return {SyncedFindingGroup[]} One group per source, in first-seen order.
+ */
+export const groupSyncedFindings = (
+	scans: Array<{ postId: number; violations: ViolationWithContext[] }>,
+	type?: SyncedSourceType
+): SyncedFindingGroup[] => {
+	const groups = new Map<string, SyncedFindingGroup>();
+	const findings = new Map<string, SyncedFinding>();
+
+	scans.forEach(({ postId, violations }) => {
+		violations.forEach((violation) => {
+			const source = violation.syncedSource;
+
+			if (!source || (type && source.type !== type)) {
+				return;
+			}
+
+			const groupKey = `${source.type}:${source.id}`;
+			const findingKey = `${groupKey}|${violation.id}|${
+				violation.nodes[0]?.html ?? ''
+			}`;
+
+			if (!groups.has(groupKey)) {
+				groups.set(groupKey, { source, findings: [] });
+			}
+
+			const existing = findings.get(findingKey);
+
+			if (existing) {
+				existing.instances++;
+				if (!existing.postIds.includes(postId)) {
+					existing.postIds.push(postId);
+				}
+				return;
+			}
+
+			const finding: SyncedFinding = { violation, postIds: [postId], instances: 1 };
+			findings.set(findingKey, finding);
+			groups.get(groupKey)!.findings.push(finding);
+		});
+	});
+
+	return Array.from(groups.values());
+};
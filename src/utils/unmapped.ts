@@ -0,0 +1,102 @@
+/**
+ * Unmapped finding utilities for the accessibility validator.
+ *
+ * Results whose nodes cannot be mapped to an editor block are kept with the
+ * reason, listed on their own and summarized in the scan metrics as skipped
+ * blocks and errors.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { UnmappedReason, ViolationWithContext } from '../types';
+import { UNMAPPED_REASON_LABELS } from '../constants';
+
+/**
+ * Checks whether a result could not be mapped to an editor block.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation The result.
+ * @return {boolean} True for unmapped findings.
+ */
+export const isUnmappedFinding = (violation: ViolationWithContext): boolean =>
+	!!violation.unmappedReason;
+
+/**
+ * Formats the reason a result could not be mapped for display.
+ *
+ * @since 2.2.0
+ *
+ * @param {UnmappedReason} reason The reason.
+ * @return {string} The reason label.
+ */
+export const formatUnmappedReason = (reason: UnmappedReason): string =>
+	UNMAPPED_REASON_LABELS[reason] ?? reason;
+
+/**
+ * Builds the error message for the unmapped findings sharing a reason.
+ *
+ * @param {UnmappedReason} reason The reason.
+ * @param {number}         count  Number of findings.
+ * @param {number}         blocks Number of distinct rendered blocks.
+ * @return {string} The message.
+ */
+const describeUnmappedReason = (
+	reason: UnmappedReason,
+	count: number,
+	blocks: number
+): string => {
+	const results = `${count} result${count === 1 ? '' : 's'} could not be mapped to a block`;
+
+	switch (reason) {
+		case 'no-marker':
+			return `${results}: the affected markup is not inside a block, e.g. output added by a plugin or filter.`;
+		case 'unknown-block':
+			return `${results}: ${blocks} rendered block${
+				blocks === 1 ? ' is' : 's are'
+			} not in the editor, e.g. content of a synced pattern or a dynamic block.`;
+		default:
+			return `${results}: the affected element could not be located in the rendered content.`;
+	}
+};
+
+/**
+ * Summarizes the unmapped findings of a scan.
+ *
+ * Rendered blocks that are not in the editor count as skipped blocks. Each
+ * reason adds one error message with its number of findings.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext[]} violations All results of the scan.
+ * @return {Object} The number of skipped blocks and the error messages.
+ */
+export const summarizeUnmappedFindings = (
+	violations: ViolationWithContext[]
+): { skippedBlocks: number; errors: string[] } => {
+	const counts: Partial<Record<UnmappedReason, number>> = {};
+	const skippedIds = new Set<string>();
+
+	violations.forEach((violation) => {
+		const reason = violation.unmappedReason;
+
+		if (!reason) {
+			return;
+		}
+
+		counts[reason] = (counts[reason] ?? 0) + 1;
+
+		if (reason === 'unknown-block' && violation.blockWpavId) {
+			skippedIds.add(violation.blockWpavId);
+		}
+	});
+
+	return {
+		skippedBlocks: skippedIds.size,
+		errors: (Object.keys(UNMAPPED_REASON_LABELS) as UnmappedReason[])
+			.filter((reason) => counts[reason])
+			.map((reason) =>
+				describeUnmappedReason(reason, counts[reason] ?? 0, skippedIds.size)
+			),
+	};
+};
@@ -0,0 +1,31 @@
+/**
+ * URL utilities for the accessibility validator.
+ *
+ * Stored scans come from post meta that any editor of the post can write,
+ * so links taken from them are only rendered for http(s) URLs.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+/**
+ * Returns a URL if it is an absolute http(s) URL.
+ *
+ * @since 2.2.0
+ *
+ * @param {string} [url] The URL.
+ * @return {string} The URL, or an empty string for other schemes such as
+ *                  `javascript:` and for values that are not URLs.
+ */
+export const getSafeUrl = (url?: string): string => {
+	if (!url) {
+		return '';
+	}
+
+	try {
+		const { protocol } = new URL(url);
+
+		return protocol === 'http:' || protocol === 'https:' ? url : '';
+	} catch {
+		return '';
+	}
+};
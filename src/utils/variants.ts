@@ -0,0 +1,193 @@
+/**
+ * Color variant utilities for accessibility scanning.
+ *
+ * Besides the document as rendered, contrast rules can be rerun with a dark
+ * color scheme or forced colors emulated. Media features cannot be set on
+ * the scan iframe, so the theme's `prefers-color-scheme: dark` and
+ * `forced-colors: active` rules are copied into an override stylesheet and
+ * the opposite rules removed. Forced colors are approximated by mapping
+ * every element to system colors.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { RunOptions } from 'axe-core';
+import type {
+	AxeRuleSettings,
+	ScanVariant,
+	ViolationWithContext,
+} from '../types';
+import { CONTRAST_RULE_IDS, SCAN_VARIANT_LABELS } from '../constants';
+
+/**
+ * Media queries whose rules apply under each emulated variant, and those
+ * that no longer apply.
+ */
+const VARIANT_MEDIA: Record<
+	Exclude<ScanVariant, 'default'>,
+	{ match: RegExp; opposite: RegExp; css: string }
+> = {
+	dark: {
+		match: /prefers-color-scheme\s*:\s*dark/i,
+		opposite: /prefers-color-scheme\s*:\s*light/i,
+		css: ':root { color-scheme: dark; }',
+	},
+	'forced-colors': {
+		match: /forced-colors\s*:\s*active/i,
+		opposite: /forced-colors\s*:\s*none/i,
+		css: `
+			*, *::before, *::after {
+				background-color: Canvas !important;
+				background-image: none !important;
+				color: CanvasText !important;
+				border-color: CanvasText !important;
+				box-shadow: none !important;
+				text-shadow: none !important;
+			}
+			a:link, a:visited, a:link *, a:visited * { color: LinkText !important; }
+			button, input, select, textarea, .wp-element-button, .wp-block-button__link {
+				background-color: ButtonFace !important;
+				color: ButtonText !important;
+			}
+			::selection { background-color: Highlight !important; color: HighlightText !important; }
+		`,
+	},
+};
+
+/**
+ * Gets the configured color variants from WordPress settings.
+ *
+ * @since 2.2.0
+ *
+ * @return {ScanVariant[]} The variants to scan under, always starting with
+ *                         the default colors.
+ */
+export const getConfiguredScanVariants = (): ScanVariant[] => {
+	const variants =
+		typeof window !== 'undefined' ? window.wpavSettings?.scanVariants : null;
+
+	return [
+		'default',
+		...(Array.isArray(variants) ? variants : []).filter(
+			(variant): variant is ScanVariant =>
+				variant !== 'default' && variant in SCAN_VARIANT_LABELS
+		),
+	];
+};
+
+/**
+ * Emulates a color variant in a loaded scan document.
+ *
+ * Stylesheets that cannot be read (e.g. cross-origin) are left as they are.
+ *
+ * @since 2.2.0
+ *
+ * @param {Document}    doc     The scan document.
+ * @param {ScanVariant} variant The variant to emulate.
+ */
+export const applyScanVariant = (doc: Document, variant: ScanVariant): void => {
+	if (variant === 'default') {
+		return;
+	}
+
+	const { match, opposite, css } = VARIANT_MEDIA[variant];
+	const overrides: string[] = [];
+
+	Array.from(doc.styleSheets).forEach((sheet) => {
+		let rules: CSSRuleList;
+
+		try {
+			rules = sheet.cssRules;
+		} catch {
+			return;
+		}
+
+		// Walk backwards so removing a rule does not shift the ones to come.
+		for (let index = rules.length - 1; index >= 0; index--) {
+			const rule = rules[index] as CSSMediaRule;
+
+			if (!rule.media) {
+				continue;
+			}
+
+			if (match.test(rule.media.mediaText)) {
+				overrides.unshift(
+					...Array.from(rule.cssRules).map((inner) => inner.cssText)
+				);
+			} else if (opposite.test(rule.media.mediaText)) {
+				sheet.deleteRule(index);
+			}
+		}
+	});
+
+	const style = doc.createElement('style');
+	style.setAttribute('data-wpav-variant', variant);
+	style.textContent = [css, ...overrides].join('\n');
+	doc.head.appendChild(style);
+};
+
+/**
+ * Builds the run options for a color variant: the contrast rules that the
+ * default run would include, given its tags and the rule overrides.
+ *
+ * @since 2.2.0
+ *
+ * @param {Object}          axe          The axe instance in the scan iframe.
+ * @param {RunOptions}      runOptions   Run options of the default run.
+ * @param {AxeRuleSettings} ruleSettings Rule overrides.
+ * @return {?RunOptions} The run options, or null if no contrast rule runs.
+ */
+export const buildVariantRunOptions = (
+	axe: any,
+	runOptions: RunOptions,
+	ruleSettings: AxeRuleSettings
+): RunOptions | null => {
+	const runOnly = runOptions.runOnly as { values?: string[] } | undefined;
+	const available: string[] = (axe.getRules(runOnly?.values) || []).map(
+		(rule: { ruleId: string }) => rule.ruleId
+	);
+
+	const ruleIds = CONTRAST_RULE_IDS.filter(
+		(ruleId) =>
+			(available.includes(ruleId) || ruleSettings.enabled.includes(ruleId)) &&
+			!ruleSettings.disabled.includes(ruleId)
+	);
+
+	if (ruleIds.length === 0) {
+		return null;
+	}
+
+	return {
+		resultTypes: runOptions.resultTypes,
+		runOnly: { type: 'rule', values: ruleIds },
+	};
+};
+
+/**
+ * Formats a color variant for display.
+ *
+ * @since 2.2.0
+ *
+ * @param {ScanVariant} variant The variant.
+ * @return {string} The variant label.
+ */
+export const formatScanVariant = (variant: ScanVariant): string =>
+	SCAN_VARIANT_LABELS[variant] ?? variant;
+
+/**
+ * Checks whether a result occurs under a color variant.
+ *
+ * Results without variant information come from scans that predate color
+ * variants and always match.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation The result.
+ * @param {?ScanVariant}         variant   The variant, or null for all.
+ * @return {boolean} True if the result should be shown.
+ */
+export const matchesScanVariant = (
+	violation: ViolationWithContext,
+	variant: ScanVariant | null
+): boolean =>
+	variant === null || !violation.variants || violation.variants.includes(variant);
@@ -0,0 +1,109 @@
+/**
+ * Viewport utilities for multi-viewport accessibility scanning.
+ *
+ * Scans can run at several viewport widths in one go. These helpers read
+ * the configured widths, merge the results of each run (per viewport and
+ * color variant) and filter merged results by viewport.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import type { ViolationWithContext } from '../types';
+import { DEFAULT_SCAN_VIEWPORTS } from '../constants';
+import { getViolationInstanceKey } from './violations';
+
+/**
+ * Gets the configured viewport widths from WordPress settings.
+ *
+ * @since 2.2.0
+ *
+ * @return {number[]} Viewport widths in pixels, narrowest first.
+ */
+export const getConfiguredViewports = (): number[] => {
+	const viewports =
+		typeof window !== 'undefined' ? window.wpavSettings?.viewports : null;
+
+	if (!Array.isArray(viewports)) {
+		return DEFAULT_SCAN_VIEWPORTS;
+	}
+
+	const widths = viewports
+		.map(Number)
+		.filter((width) => Number.isFinite(width) && width > 0);
+
+	return widths.length > 0
+		? Array.from(new Set(widths)).sort((a, b) => a - b)
+		: DEFAULT_SCAN_VIEWPORTS;
+};
+
+/**
+ * Formats a viewport width for display.
+ *
+ * @since 2.2.0
+ *
+ * @param {number} width Viewport width in pixels.
+ * @return {string} E.g. "375px".
+ */
+export const formatViewport = (width: number): string => `${width}px`;
+
+/**
+ * Merges the results of scanning the same content at several viewports
+ * and color variants.
+ *
+ * A result found in more than one run is reported once, tagged with every
+ * viewport and variant it occurs at. Results are matched by their instance
+ * key and kind.
+ *
+ * @since 2.2.0
+ *
+ * @param {Array<ViolationWithContext[]>} runs Results of each run, each
+ *                                             tagged with its viewport and
+ *                                             variant.
+ * @return {ViolationWithContext[]} The merged results.
+ */
+export const mergeScanRunResults = (
+	runs: ViolationWithContext[][]
+): ViolationWithContext[] => {
+	const merged = new Map<string, ViolationWithContext>();
+
+	runs.flat().forEach((violation) => {
+		const key = `${violation.kind || 'violation'}|${getViolationInstanceKey(
+			violation
+		)}`;
+		const existing = merged.get(key);
+
+		if (!existing) {
+			merged.set(key, { ...violation });
+			return;
+		}
+
+		existing.viewports = Array.from(
+			new Set([...(existing.viewports ?? []), ...(violation.viewports ?? [])])
+		).sort((a, b) => a - b);
+		existing.variants = Array.from(
+			new Set([...(existing.variants ?? []), ...(violation.variants ?? [])])
+		);
+	});
+
+	return Array.from(merged.values());
+};
+
+/**
+ * Checks whether a result occurs at a viewport.
+ *
+ * Results without viewport information come from scans that predate
+ * multi-viewport scanning and always match.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation The result.
+ * @param {?number}              viewport  Viewport width, or null for all.
+ * @return {boolean} True if the result should be shown.
+ */
+export const matchesViewport = (
+	violation: ViolationWithContext,
+	viewport: number | null
+): boolean =>
+	viewport === null ||
+	!violation.viewports ||
+	violation.viewports.includes(viewport);
@@ -0,0 +1,134 @@
+/**
+ * Violation utilities for the accessibility validator.
+ *
+ * Provides helpers for identifying individual violation instances,
+ * classifying results as confirmed violations or review items, and
+ * recording editor decisions for results that need manual review.
+ *
+ * @package WPAccessibilityValidator
+ */
+
+import { dispatch, select } from '@wordpress/data';
+import type {
+	ReviewDecision,
+	ViolationWithContext,
+	WPEditorStore,
+} from '../types';
+import { STORE_NAME } from '../constants';
+import { updateReviewDecisions } from './storage';
+
+/**
+ * Builds a stable key for a single violation instance.
+ *
+ * The key combines the axe rule id, the block's persisted wpavId (falling
+ * back to the client ID) and the node's fingerprint within the block, so
+ * the same issue on the same element can be recognised across scans. Axe's
+ * target selectors can change between scans, so they are only used for
+ * results without a fingerprint (editorial checks and older scans).
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation Violation scoped to a single node.
+ * @return {string} The instance key.
+ */
+export const getViolationInstanceKey = (
+	violation: ViolationWithContext
+): string => {
+	const blockRef = violation.blockWpavId || violation.blockClientId || '';
+	const node =
+		violation.nodeFingerprint ??
+		(violation.nodes[0]?.target || []).map(String).join(' ');
+
+	return [violation.id, blockRef, node].join('|');
+};
+
+/**
+ * Resolves how a result should be presented given the review decisions.
+ *
+ * Confirmed violations and review items marked as failed are treated as
+ * violations; review items marked as passed are resolved; any other review
+ * item still needs manual review.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext}           violation The result to classify.
+ * @param {Record<string, ReviewDecision>} decisions Recorded review decisions.
+ * @return {'violation'|'incomplete'|'passed'} The effective classification.
+ */
+export const resolveViolationKind = (
+	violation: ViolationWithContext,
+	decisions: Record<string, ReviewDecision>
+): 'violation' | 'incomplete' | 'passed' => {
+	if (violation.kind !== 'incomplete') {
+		return 'violation';
+	}
+
+	const decision = decisions[getViolationInstanceKey(violation)];
+
+	if (decision === 'failed') {
+		return 'violation';
+	}
+
+	return decision === 'passed' ? 'passed' : 'incomplete';
+};
+
+/**
+ * Records (or clears) the review decision for a single review item.
+ *
+ * Updates the plugin data store so every UI surface reflects the decision
+ * immediately, and persists it in the post meta of the current post. The
+ * previous decisions are restored if the decision cannot be saved.
+ *
+ * @since 2.2.0
+ *
+ * @param {ViolationWithContext} violation The review item.
+ * @param {?ReviewDecision}      decision  The decision, or null to clear it.
+ * @return {Promise<void>} Resolves once the decision has been saved.
+ */
+export const setReviewDecision = async (
+	violation: ViolationWithContext,
+	decision: ReviewDecision | null
+): Promise<void> => {
+	const store = select(STORE_NAME) as any;
+	const current: Record<string, ReviewDecision> =
+		store?.getReviewDecisions?.() ?? {};
+	const key = getViolationInstanceKey(violation);
+	const next = { ...current };
+
+	if (decision) {
+		next[key] = decision;
+	} else {
+		delete next[key];
+	}
+
+	(dispatch(STORE_NAME) as any)?.setReviewDecisions?.(next);
+
+	const postId =
+		(select('core/editor') as Partial<WPEditorStore>)?.getCurrentPostId?.() ??
+		null;
+
+	if (!postId) {
+		return;
+	}
+
+	try {
+		(dispatch(STORE_NAME) as any)?.setReviewDecisions?.(
+			await updateReviewDecisions(postId, { [key]: decision })
+		);
+	} catch (error) {
+		// eslint-disable-next-line no-console
+		console.warn('Unable to save the review decision.', error);
+
+		const latest: Record<string, ReviewDecision> = {
+			...((select(STORE_NAME) as any)?.getReviewDecisions?.() ?? {}),
+		};
+
+		if (current[key]) {
+			latest[key] = current[key];
+		} else {
+			delete latest[key];
+		}
+
+		(dispatch(STORE_NAME) as any)?.setReviewDecisions?.(latest);
+	}
+};
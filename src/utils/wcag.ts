@@ -2,7 +2,7 @@
  * WCAG tag utilities for accessibility scanning configuration.
  */
 
-import { DEFAULT_WCAG_TAGS } from '../constants';
+import { DEFAULT_WCAG_TAGS, WCAG_SUCCESS_CRITERIA } from '../constants';
 
 /**
  * Gets the available WCAG tag labels from WordPress settings.
@@ -71,3 +71,72 @@ export const formatWcagLabelList = (
 ): string => {
 	return tags.map((tag) => labels[tag] ?? tag).join(', ');
 };
+
+/**
+ * Checks whether two WCAG tag selections contain the same tags.
+ *
+ * @param a - The first selection.
+ * @param b - The second selection.
+ * @returns True when both contain the same tags, in any order.
+ */
+export const haveSameWcagTags = (a: string[], b: string[]): boolean => {
+	const setA = new Set(a);
+	const setB = new Set(b);
+
+	return setA.size === setB.size && [...setA].every((tag) => setB.has(tag));
+};
+
+/**
+ * Extracts WCAG success criteria from axe rule tags.
+ *
+ * Criterion tags such as `wcag143` or `wcag1410` are converted to their
+ * dotted form (`1.4.3`, `1.4.10`); level tags such as `wcag2aa` are ignored.
+ *
+ * @param tags - The axe rule tags.
+ * @returns The success criteria numbers, in tag order.
+ */
+export const parseWcagCriteria = (tags: string[] = []): string[] =>
+	tags.reduce<string[]>((criteria, tag) => {
+		const match = /^wcag(\d)(\d)(\d+)$/.exec(tag);
+
+		if (match) {
+			const criterion = `${match[1]}.${match[2]}.${match[3]}`;
+			if (!criteria.includes(criterion)) {
+				criteria.push(criterion);
+			}
+		}
+
+		return criteria;
+	}, []);
+
+/**
+ * Formats a success criterion number with its name, when known.
+ *
+ * @param criterion - The criterion number, e.g. `1.4.3`.
+ * @returns The criterion label, e.g. `1.4.3 Contrast (Minimum)`.
+ */
+export const formatWcagCriterion = (criterion: string): string => {
+	const name = WCAG_SUCCESS_CRITERIA[criterion];
+	return name ? `${criterion} ${name}` : criterion;
+};
+
+/**
+ * Compares two success criterion numbers in document order.
+ *
+ * @param a - The first criterion number.
+ * @param b - The second criterion number.
+ * @returns A negative, zero or positive number for use with sort().
+ */
+export const compareWcagCriteria = (a: string, b: string): number => {
+	const partsA = a.split('.').map(Number);
+	const partsB = b.split('.').map(Number);
+
+	for (let index = 0; index < 3; index++) {
+		const difference = (partsA[index] || 0) - (partsB[index] || 0);
+		if (difference !== 0) {
+			return difference;
+		}
+	}
+
+	return 0;
+};
@@ -30,6 +30,9 @@ declare module '@wordpress/editor' {
   >;
   export const PluginPostStatusInfo: ComponentType<Record<string, unknown>>;
   export const PluginPrePublishPanel: ComponentType<Record<string, unknown>>;
+  export const PluginBlockSettingsMenuItem: ComponentType<
+    Record<string, unknown>
+  >;
   export const store: unknown;
 }
 
@@ -1,7 +1,13 @@
+const path = require('path');
+const CopyWebpackPlugin = require('copy-webpack-plugin');
 const defaultConfig = require('@wordpress/scripts/config/webpack.config');
 
 module.exports = {
   ...defaultConfig,
+  entry: {
+    index: path.resolve(__dirname, 'src/index.tsx'),
+    bulk: path.resolve(__dirname, 'src/bulk.tsx'),
+  },
   module: {
     ...defaultConfig.module,
     rules: [
@@ -17,4 +23,17 @@ module.exports = {
     ...defaultConfig.resolve,
     extensions: ['.tsx', '.ts', ...defaultConfig.resolve.extensions],
   },
+  plugins: [
+    ...defaultConfig.plugins,
+    // Ship axe-core with the plugin so scans never depend on a CDN.
+    new CopyWebpackPlugin({
+      patterns: [
+        {
+          from: path.resolve(__dirname, 'node_modules/axe-core/axe.min.js'),
+          to: 'vendor/axe.min.js',
+          info: { minimized: true },
+        },
+      ],
+    }),
+  ],
 };